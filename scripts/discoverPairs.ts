@@ -4,6 +4,7 @@ import { writeFile, readFile } from 'node:fs/promises';
 
 import { makeJupiterClient } from '../src/jupiter/client.js';
 import { AdaptiveTokenBucketRateLimiter } from '../src/lib/rateLimiter.js';
+import { parseMarketCache, TokenGraph, type GraphEdge, type RankedCycle } from '../src/lib/tokenGraph.js';
 
 type CandidateToken = { mint: string; symbol?: string; name?: string };
 
@@ -106,8 +107,99 @@ async function readTokensFromFile(path: string): Promise<CandidateToken[]> {
     .map((mint) => ({ mint }));
 }
 
+function cyclePairConfig(params: {
+  cycle: RankedCycle;
+  symbols: Map<string, string>;
+  amountA: string;
+  slippageBps: number;
+  baseMinProfitBps: number;
+  defaults: Record<string, unknown>;
+}) {
+  const { cycle } = params;
+  const label = (mint: string) => params.symbols.get(mint) ?? (mint === SOL_MINT ? 'SOL' : mint.slice(0, 6));
+  const legs = cycle.path.length;
+  // Every extra leg adds slippage exposure: later legs get a wider tolerance and the edge must clear a higher bar.
+  const wideSlippageBps = Math.min(5000, Math.max(params.slippageBps, params.slippageBps * 2));
+  const minProfitBps = Math.min(
+    10_000,
+    params.baseMinProfitBps +
+      Math.ceil(cycle.maxPriceImpactBps / 25) +
+      Math.max(0, cycle.maxRouteHops - 1) * 10 +
+      (legs - 2) * 10,
+  );
+  const mints =
+    legs === 2
+      ? { aMint: cycle.path[0], bMint: cycle.path[1], slippageBpsLeg2: wideSlippageBps }
+      : legs === 3
+        ? { aMint: cycle.path[0], bMint: cycle.path[1], cMint: cycle.path[2], slippageBpsLeg2: wideSlippageBps, slippageBpsLeg3: wideSlippageBps }
+        : { path: cycle.path, slippageBpsLegs: cycle.path.map((_, i) => (i === 0 ? params.slippageBps : wideSlippageBps)) };
+
+  return {
+    name: `${cycle.path.map(label).join('/')} ${legs === 2 ? 'loop' : legs === 3 ? 'triangle' : 'cycle'}`,
+    ...mints,
+    amountA: params.amountA,
+    amountASteps: [params.amountA],
+    minNotionalA: params.amountA,
+    slippageBps: params.slippageBps,
+    minProfitA: '0',
+    minProfitBps,
+    ...params.defaults,
+    maxNotionalA: params.amountA,
+  };
+}
+
+// Samples the graph with the quote API: A<->X for every picked token (the A->X output sizes X's side of later
+// quotes to the same notional) plus X->Y between the first `hubTokens` tokens, which is where 3-4 leg cycles come from.
+async function sampleEdges(params: {
+  quote: (q: { inputMint: string; outputMint: string; amount: string }) => Promise<any>;
+  aMint: string;
+  amountA: string;
+  mints: string[];
+  hubTokens: number;
+}): Promise<GraphEdge[]> {
+  const edges: GraphEdge[] = [];
+  const notional = new Map<string, string>([[params.aMint, params.amountA]]);
+  const sample = async (inputMint: string, outputMint: string) => {
+    const amount = notional.get(inputMint);
+    if (!amount) return undefined;
+    try {
+      const q = await params.quote({ inputMint, outputMint, amount });
+      const edge: GraphEdge = {
+        inputMint,
+        outputMint,
+        inAmount: amount,
+        outAmount: q.outAmount,
+        priceImpactBps: parsePriceImpactBps(q.priceImpactPct),
+        routeHops: routeHops(q.routePlan),
+        sampledAt: new Date().toISOString(),
+      };
+      edges.push(edge);
+      return edge;
+    } catch {
+      return undefined;
+    }
+  };
+
+  for (const mint of params.mints) {
+    const out = await sample(params.aMint, mint);
+    if (!out || out.outAmount === '0') continue;
+    notional.set(mint, out.outAmount);
+    await sample(mint, params.aMint);
+  }
+
+  const hubs = params.mints.filter((m) => notional.has(m)).slice(0, Math.max(0, params.hubTokens));
+  for (const from of hubs) {
+    for (const to of hubs) {
+      if (from !== to) await sample(from, to);
+    }
+  }
+  return edges;
+}
+
 async function main() {
   const args = parseArgs(process.argv);
+  // pairs: one A->B->A loop per token (default). cycles: token graph + ranked 2..4 leg cycles.
+  const mode = ((args['mode'] as string) ?? process.env.DISCOVER_MODE ?? 'pairs').trim();
 
   const outPath = (args['out'] as string) ?? './config.generated.json';
   const aMint = ((args['aMint'] as string) ?? process.env.DISCOVER_AMINT ?? SOL_MINT).trim();
@@ -140,12 +232,16 @@ async function main() {
     penaltyMs: 60_000,
   });
 
-  const jupiter = makeJupiterClient({
-    swapBaseUrl: jupQuoteBaseUrl,
-    ultraBaseUrl: jupUltraBaseUrl,
-    apiKey: jupApiKey,
-    useUltra: false,
-  });
+  // Built on first quote: `--mode cycles --marketsFile` runs offline (no API key needed).
+  const makeQuoteClient = () =>
+    makeJupiterClient({
+      swapBaseUrl: jupQuoteBaseUrl,
+      ultraBaseUrl: jupUltraBaseUrl,
+      apiKey: jupApiKey,
+      useUltra: false,
+    });
+  let jupiterClient: ReturnType<typeof makeQuoteClient> | undefined;
+  const jupiter = () => (jupiterClient ??= makeQuoteClient());
 
   const tokenListUrl =
     (args['tokenListUrl'] as string) ??
@@ -153,7 +249,15 @@ async function main() {
     'https://token.jup.ag/strict';
   const tokensFile = (args['tokensFile'] as string) ?? process.env.DISCOVER_TOKENS_FILE;
 
-  const tokens = tokensFile ? await readTokensFromFile(tokensFile) : await fetchTokenList(tokenListUrl);
+  const marketsFile = (args['marketsFile'] as string) ?? process.env.DISCOVER_MARKETS_FILE;
+
+  // A cached market list already describes the graph, so the token list is optional there.
+  const tokens =
+    mode === 'cycles' && marketsFile && !tokensFile
+      ? await fetchTokenList(tokenListUrl).catch(() => [] as CandidateToken[])
+      : tokensFile
+        ? await readTokensFromFile(tokensFile)
+        : await fetchTokenList(tokenListUrl);
 
   const picked: CandidateToken[] = [];
   for (const t of tokens) {
@@ -170,6 +274,81 @@ async function main() {
     if (picked.length >= Math.max(1, maxTokens)) break;
   }
 
+  if (mode === 'cycles') {
+    const maxCycleLegs = Math.min(4, Math.max(2, asInt(args['maxCycleLegs'] ?? process.env.DISCOVER_MAX_CYCLE_LEGS, 4)));
+    const hubTokens = asInt(args['hubTokens'] ?? process.env.DISCOVER_HUB_TOKENS, 8);
+    const topCycles = asInt(args['topCycles'] ?? process.env.DISCOVER_TOP_CYCLES, 20);
+    const minLiquidityUsd = args['minLiquidityUsd'] ?? process.env.DISCOVER_MIN_LIQUIDITY_USD;
+    const edgesOut = (args['edgesOut'] as string) ?? process.env.DISCOVER_EDGES_OUT;
+
+    const edges = marketsFile
+      ? parseMarketCache(JSON.parse(await readFile(marketsFile, 'utf8')))
+      : await sampleEdges({
+          quote: async (q) => {
+            try {
+              const res = await limiter.schedule(() => jupiter().quoteExactIn({ ...q, slippageBps }));
+              limiter.noteSuccess();
+              return res;
+            } catch (e) {
+              limiter.note429();
+              throw e;
+            }
+          },
+          aMint,
+          amountA,
+          mints: picked.map((t) => t.mint),
+          hubTokens,
+        });
+    if (edgesOut) await writeFile(edgesOut, JSON.stringify({ markets: edges }, null, 2), 'utf8');
+
+    const graph = new TokenGraph();
+    for (const edge of edges) {
+      if (blacklistMints.has(edge.inputMint) || blacklistMints.has(edge.outputMint)) continue;
+      graph.addEdge(edge);
+    }
+    const symbols = new Map<string, string>();
+    for (const t of tokens) if (t.symbol?.trim()) symbols.set(t.mint.trim(), t.symbol.trim());
+
+    const cycles = graph
+      .findCycles({
+        anchor: aMint,
+        minLegs: 2,
+        maxLegs: maxCycleLegs,
+        maxPriceImpactBps,
+        maxRouteHops,
+        minLiquidityUsd: minLiquidityUsd === undefined ? undefined : asFloat(minLiquidityUsd, 0),
+      })
+      .map((cycle) => ({
+        cycle,
+        pair: cyclePairConfig({
+          cycle,
+          symbols,
+          amountA,
+          slippageBps,
+          baseMinProfitBps,
+          defaults: { cooldownMs, cooldownOnLossMs, maxTradesPerHour, maxDailyLossA, maxPriceImpactBps, maxRouteHops },
+        }),
+      }))
+      .filter(({ pair }) => !blacklistPairs.has(pair.name))
+      .slice(0, Math.max(1, topCycles));
+
+    await writeFile(outPath, JSON.stringify({ pairs: cycles.map((c) => c.pair) }, null, 2), 'utf8');
+    console.log(
+      JSON.stringify(
+        {
+          ok: true,
+          out: outPath,
+          edges: graph.size,
+          pairs: cycles.length,
+          ranked: cycles.map(({ cycle, pair }) => ({ name: pair.name, legs: cycle.path.length, edgeBps: cycle.edgeBps })),
+        },
+        null,
+        2,
+      ),
+    );
+    return;
+  }
+
   const pairs: any[] = [];
   for (const t of picked) {
     const bMint = t.mint;
@@ -179,7 +358,7 @@ async function main() {
 
     try {
       const q1 = await limiter.schedule(() =>
-        jupiter.quoteExactIn({
+        jupiter().quoteExactIn({
           inputMint: aMint,
           outputMint: bMint,
           amount: amountA,
@@ -189,7 +368,7 @@ async function main() {
       limiter.noteSuccess();
 
       const q2 = await limiter.schedule(() =>
-        jupiter.quoteExactIn({
+        jupiter().quoteExactIn({
           inputMint: bMint,
           outputMint: aMint,
           amount: q1.otherAmountThreshold,
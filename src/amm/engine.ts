@@ -0,0 +1,176 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+
+import type { Logger } from '../lib/logger.js';
+import { concentratedLiquidityOut, constantProductOut, type SwapMathResult } from './math.js';
+import {
+  ammPoolAccounts,
+  ammPoolName,
+  decodeRaydiumClmm,
+  decodeTokenAccountAmount,
+  decodeWhirlpool,
+  type AmmPoolConfig,
+  type ClmmState,
+} from './pools.js';
+
+type TrackedPool = {
+  config: AmmPoolConfig;
+  name: string;
+  // constant-product: vault balances; CLMM: decoded pool account.
+  reserveA?: bigint;
+  reserveB?: bigint;
+  clmm?: ClmmState;
+  // Last applied slot per account, so a late snapshot cannot overwrite a newer notification.
+  slots: Map<string, number>;
+  updatedAtMs?: number;
+};
+
+export type AmmQuote = {
+  pool: string;
+  // Accounts the quote was computed from.
+  accounts: string[];
+  outAmount: bigint;
+  priceImpactBps: number;
+};
+
+const GET_MULTIPLE_ACCOUNTS_LIMIT = 100;
+
+// Keeps pool state in memory from account subscriptions (SOLANA_WS_URL) and quotes swaps against it with no HTTP.
+// A pool quotes once all of its accounts have been loaded; until then the pair falls back to the HTTP providers.
+export class AmmQuoteEngine {
+  private readonly pools: TrackedPool[];
+  private readonly byAccount = new Map<string, TrackedPool[]>();
+  private readonly subscriptions: number[] = [];
+
+  constructor(
+    private readonly params: {
+      connection: Connection;
+      pools: AmmPoolConfig[];
+      logEvent?: Logger;
+    },
+  ) {
+    this.pools = params.pools.map((config) => ({ config, name: ammPoolName(config), slots: new Map() }));
+    for (const pool of this.pools) {
+      for (const account of ammPoolAccounts(pool.config)) {
+        this.byAccount.set(account, [...(this.byAccount.get(account) ?? []), pool]);
+      }
+    }
+  }
+
+  // Loads every account once, then subscribes to changes.
+  async start() {
+    const accounts = Array.from(this.byAccount.keys());
+    for (let i = 0; i < accounts.length; i += GET_MULTIPLE_ACCOUNTS_LIMIT) {
+      const chunk = accounts.slice(i, i + GET_MULTIPLE_ACCOUNTS_LIMIT);
+      const res = await this.params.connection.getMultipleAccountsInfoAndContext(chunk.map((a) => new PublicKey(a)));
+      res.value.forEach((info, j) => {
+        if (info) this.apply(chunk[j]!, info.data, res.context.slot);
+      });
+    }
+    for (const account of accounts) {
+      this.subscriptions.push(
+        this.params.connection.onAccountChange(new PublicKey(account), (info, ctx) => this.apply(account, info.data, ctx.slot)),
+      );
+    }
+  }
+
+  async stop() {
+    const ids = this.subscriptions.splice(0);
+    await Promise.all(ids.map((id) => this.params.connection.removeAccountChangeListener(id).catch(() => undefined)));
+  }
+
+  private apply(account: string, data: Buffer, slot: number) {
+    for (const pool of this.byAccount.get(account) ?? []) {
+      if ((pool.slots.get(account) ?? -1) > slot) continue;
+      try {
+        const config = pool.config;
+        if (config.kind === 'constant-product') {
+          const amount = decodeTokenAccountAmount(data);
+          if (account === config.vaultA) pool.reserveA = amount;
+          if (account === config.vaultB) pool.reserveB = amount;
+        } else if (config.kind === 'whirlpool') {
+          pool.clmm = decodeWhirlpool(data);
+        } else {
+          pool.clmm = decodeRaydiumClmm(data, config.feeRate);
+        }
+        pool.slots.set(account, slot);
+        pool.updatedAtMs = Date.now();
+      } catch (error) {
+        void this.params.logEvent?.({
+          ts: new Date().toISOString(),
+          type: 'amm_decode_error',
+          pool: pool.name,
+          account,
+          slot,
+          error: String(error),
+        });
+      }
+    }
+  }
+
+  private quotePool(pool: TrackedPool, inputMint: string, outputMint: string, amountIn: bigint): SwapMathResult | undefined {
+    const config = pool.config;
+    if (config.kind === 'constant-product') {
+      if (pool.reserveA === undefined || pool.reserveB === undefined) return undefined;
+      const feeRate = BigInt(config.feeRate);
+      if (inputMint === config.mintA && outputMint === config.mintB) {
+        return constantProductOut({ amountIn, reserveIn: pool.reserveA, reserveOut: pool.reserveB, feeRate });
+      }
+      if (inputMint === config.mintB && outputMint === config.mintA) {
+        return constantProductOut({ amountIn, reserveIn: pool.reserveB, reserveOut: pool.reserveA, feeRate });
+      }
+      return undefined;
+    }
+
+    const clmm = pool.clmm;
+    if (!clmm) return undefined;
+    const zeroForOne = inputMint === clmm.mint0 && outputMint === clmm.mint1;
+    if (!zeroForOne && !(inputMint === clmm.mint1 && outputMint === clmm.mint0)) return undefined;
+    return concentratedLiquidityOut({
+      amountIn,
+      zeroForOne,
+      sqrtPriceX64: clmm.sqrtPriceX64,
+      liquidity: clmm.liquidity,
+      feeRate: clmm.feeRate,
+    });
+  }
+
+  private isReady(pool: TrackedPool) {
+    return pool.config.kind === 'constant-product'
+      ? pool.reserveA !== undefined && pool.reserveB !== undefined
+      : pool.clmm !== undefined;
+  }
+
+  private poolMints(pool: TrackedPool): [string, string] | undefined {
+    if (pool.config.kind === 'constant-product') return [pool.config.mintA, pool.config.mintB];
+    return pool.clmm ? [pool.clmm.mint0, pool.clmm.mint1] : undefined;
+  }
+
+  // Whether a loaded pool trades this pair of mints (either direction).
+  supports(inputMint: string, outputMint: string) {
+    return this.pools.some((pool) => {
+      const mints = this.isReady(pool) ? this.poolMints(pool) : undefined;
+      return Boolean(mints && mints.includes(inputMint) && mints.includes(outputMint) && inputMint !== outputMint);
+    });
+  }
+
+  // Best output across the loaded pools for the pair; undefined when none can quote it.
+  quote(params: { inputMint: string; outputMint: string; amount: bigint }): AmmQuote | undefined {
+    let best: AmmQuote | undefined;
+    for (const pool of this.pools) {
+      const res = this.quotePool(pool, params.inputMint, params.outputMint, params.amount);
+      if (!res || res.outAmount <= 0n) continue;
+      if (!best || res.outAmount > best.outAmount) best = { pool: pool.name, accounts: ammPoolAccounts(pool.config), ...res };
+    }
+    return best;
+  }
+
+  snapshot() {
+    return this.pools.map((pool) => ({
+      pool: pool.name,
+      kind: pool.config.kind,
+      ready: this.isReady(pool),
+      updatedAt: pool.updatedAtMs ? new Date(pool.updatedAtMs).toISOString() : undefined,
+      slot: pool.slots.size ? Math.max(...pool.slots.values()) : undefined,
+    }));
+  }
+}
@@ -0,0 +1,64 @@
+// Swap output math for the pool kinds the local quoting engine tracks. Amounts are atomic units; fees are charged on
+// the input and rounded in the pool's favour, so outputs never exceed what the program would pay.
+
+const Q64 = 1n << 64n;
+// Whirlpool/Raydium CLMM fee rates are expressed per 1_000_000 (3000 = 0.3%).
+export const FEE_RATE_DENOMINATOR = 1_000_000n;
+
+export type SwapMathResult = {
+  outAmount: bigint;
+  // Shortfall of outAmount vs. the spot price applied to the post-fee input, in bps.
+  priceImpactBps: number;
+};
+
+function impactBps(outAmount: bigint, outAtSpot: bigint) {
+  if (outAtSpot <= 0n || outAmount >= outAtSpot) return 0;
+  return Number(((outAtSpot - outAmount) * 10_000n) / outAtSpot);
+}
+
+function afterFee(amountIn: bigint, feeRate: bigint) {
+  return (amountIn * (FEE_RATE_DENOMINATOR - feeRate)) / FEE_RATE_DENOMINATOR;
+}
+
+// x * y = k with the fee taken from the input.
+export function constantProductOut(params: {
+  amountIn: bigint;
+  reserveIn: bigint;
+  reserveOut: bigint;
+  feeRate: bigint;
+}): SwapMathResult | undefined {
+  const { amountIn, reserveIn, reserveOut } = params;
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return undefined;
+  const amountInNet = afterFee(amountIn, params.feeRate);
+  const outAmount = (reserveOut * amountInNet) / (reserveIn + amountInNet);
+  return { outAmount, priceImpactBps: impactBps(outAmount, (amountInNet * reserveOut) / reserveIn) };
+}
+
+// Concentrated liquidity inside the active range: `sqrtPriceX64` is sqrt(token1 per token0) in Q64.64 and `liquidity`
+// the active liquidity. Tick crossings are not modelled (tick arrays are not tracked), so large swaps that leave the
+// current range are approximated as if the active liquidity continued.
+export function concentratedLiquidityOut(params: {
+  amountIn: bigint;
+  zeroForOne: boolean;
+  sqrtPriceX64: bigint;
+  liquidity: bigint;
+  feeRate: bigint;
+}): SwapMathResult | undefined {
+  const { amountIn, sqrtPriceX64: sqrtP, liquidity: l } = params;
+  if (amountIn <= 0n || sqrtP <= 0n || l <= 0n) return undefined;
+  const amountInNet = afterFee(amountIn, params.feeRate);
+
+  if (params.zeroForOne) {
+    // Price decreases; round the new sqrt price up so token1 out is rounded down.
+    const numerator = l * sqrtP * Q64;
+    const denominator = l * Q64 + amountInNet * sqrtP;
+    const sqrtNext = (numerator + denominator - 1n) / denominator;
+    const outAmount = (l * (sqrtP - sqrtNext)) / Q64;
+    return { outAmount, priceImpactBps: impactBps(outAmount, (amountInNet * sqrtP * sqrtP) / (Q64 * Q64)) };
+  }
+
+  // Price increases; round the new sqrt price down so token0 out is rounded down.
+  const sqrtNext = sqrtP + (amountInNet * Q64) / l;
+  const outAmount = (l * Q64 * (sqrtNext - sqrtP)) / (sqrtNext * sqrtP);
+  return { outAmount, priceImpactBps: impactBps(outAmount, (amountInNet * Q64 * Q64) / (sqrtP * sqrtP)) };
+}
@@ -0,0 +1,113 @@
+import { readFile } from 'node:fs/promises';
+
+import { PublicKey } from '@solana/web3.js';
+import { z } from 'zod';
+
+import { FEE_RATE_DENOMINATOR } from './math.js';
+
+const pubkey = z.string().refine((v) => {
+  try {
+    new PublicKey(v);
+    return true;
+  } catch {
+    return false;
+  }
+}, 'invalid public key');
+
+// Pools quoted in-process (AMM_POOLS_PATH). Constant-product pools are read from their two vault token accounts;
+// CLMM pools from the pool account itself (mints, sqrt price and active liquidity are decoded from it).
+const PoolSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('constant-product'),
+    name: z.string().min(1).optional(),
+    mintA: pubkey,
+    mintB: pubkey,
+    vaultA: pubkey,
+    vaultB: pubkey,
+    // Swap fee per 1_000_000 of the input (2500 = 0.25%).
+    feeRate: z.number().int().min(0).max(999_999),
+  }),
+  z.object({
+    kind: z.literal('whirlpool'),
+    name: z.string().min(1).optional(),
+    address: pubkey,
+  }),
+  z.object({
+    kind: z.literal('raydium-clmm'),
+    name: z.string().min(1).optional(),
+    address: pubkey,
+    // The fee lives in the pool's AmmConfig account (trade_fee_rate), which is not subscribed to.
+    feeRate: z.number().int().min(0).max(999_999),
+  }),
+]);
+
+const PoolsFileSchema = z.object({ pools: z.array(PoolSchema).min(1) });
+
+export type AmmPoolConfig = z.infer<typeof PoolSchema>;
+
+export async function loadAmmPools(path: string): Promise<AmmPoolConfig[]> {
+  const raw = await readFile(path, 'utf8');
+  return PoolsFileSchema.parse(JSON.parse(raw) as unknown).pools;
+}
+
+export function ammPoolName(pool: AmmPoolConfig) {
+  return pool.name ?? (pool.kind === 'constant-product' ? `${pool.vaultA}/${pool.vaultB}` : pool.address);
+}
+
+// Accounts to subscribe to for a pool.
+export function ammPoolAccounts(pool: AmmPoolConfig): string[] {
+  return pool.kind === 'constant-product' ? [pool.vaultA, pool.vaultB] : [pool.address];
+}
+
+export type ClmmState = {
+  mint0: string;
+  mint1: string;
+  sqrtPriceX64: bigint;
+  liquidity: bigint;
+  tickCurrent: number;
+  feeRate: bigint;
+};
+
+function readU128(data: Buffer, offset: number) {
+  return data.readBigUInt64LE(offset) | (data.readBigUInt64LE(offset + 8) << 64n);
+}
+
+function readPubkey(data: Buffer, offset: number) {
+  return new PublicKey(data.subarray(offset, offset + 32)).toBase58();
+}
+
+// SPL Token / Token-2022 account: mint (32) | owner (32) | amount (u64).
+export function decodeTokenAccountAmount(data: Buffer): bigint {
+  if (data.length < 72) throw new Error(`token account too short (${data.length} bytes)`);
+  return data.readBigUInt64LE(64);
+}
+
+// Orca Whirlpool account (after the 8-byte discriminator): fee_rate u16 @45, liquidity u128 @49, sqrt_price u128 @65,
+// tick_current_index i32 @81, token_mint_a @101, token_mint_b @181.
+export function decodeWhirlpool(data: Buffer): ClmmState {
+  if (data.length < 213) throw new Error(`whirlpool account too short (${data.length} bytes)`);
+  const feeRate = BigInt(data.readUInt16LE(45));
+  if (feeRate >= FEE_RATE_DENOMINATOR) throw new Error(`whirlpool fee rate out of range: ${feeRate}`);
+  return {
+    mint0: readPubkey(data, 101),
+    mint1: readPubkey(data, 181),
+    sqrtPriceX64: readU128(data, 65),
+    liquidity: readU128(data, 49),
+    tickCurrent: data.readInt32LE(81),
+    feeRate,
+  };
+}
+
+// Raydium CLMM PoolState (after the 8-byte discriminator): token_mint_0 @73, token_mint_1 @105, liquidity u128 @237,
+// sqrt_price_x64 u128 @253, tick_current i32 @269.
+export function decodeRaydiumClmm(data: Buffer, feeRate: number): ClmmState {
+  if (data.length < 273) throw new Error(`raydium clmm account too short (${data.length} bytes)`);
+  return {
+    mint0: readPubkey(data, 73),
+    mint1: readPubkey(data, 105),
+    sqrtPriceX64: readU128(data, 253),
+    liquidity: readU128(data, 237),
+    tickCurrent: data.readInt32LE(269),
+    feeRate: BigInt(feeRate),
+  };
+}
@@ -0,0 +1,95 @@
+import type { BuildSwapParams, ProviderQuote, SwapProvider } from '../lib/swapProvider.js';
+import type { AmmQuoteEngine } from './engine.js';
+
+// Local pool quotes for scanning; execution goes through `executor` (Jupiter). Before building, the executor re-quotes
+// the loop's legs there as one chain (executionQuote), with the pair's dex filters, and each leg is rejected when the
+// executor would pay more than `crossCheckMaxBps` less than the local quote for the same input, so a stale or
+// approximated pool state cannot carry a loss into a transaction. Builds handed an AMM quote directly are checked the
+// same way.
+export function ammSwapProvider(params: {
+  engine: AmmQuoteEngine;
+  executor: SwapProvider;
+  crossCheckMaxBps: number;
+}): SwapProvider {
+  const executor = params.executor;
+
+  const executionQuote: NonNullable<SwapProvider['executionQuote']> = async (p) => {
+    const local = p.quote;
+    const localOut =
+      p.amount === local.inAmount
+        ? BigInt(local.outAmount)
+        : params.engine.quote({ inputMint: local.inputMint, outputMint: local.outputMint, amount: BigInt(p.amount) })
+            ?.outAmount;
+    if (localOut === undefined) throw new Error(`No AMM pool quotes ${local.inputMint} -> ${local.outputMint}`);
+    const quote = await executor.quoteExactIn({
+      inputMint: local.inputMint,
+      outputMint: local.outputMint,
+      amount: p.amount,
+      slippageBps: local.slippageBps,
+      includeDexes: p.includeDexes,
+      excludeDexes: p.excludeDexes,
+    });
+    const executorOut = BigInt(quote.outAmount);
+    const shortfallBps = localOut > executorOut ? Number(((localOut - executorOut) * 10_000n) / localOut) : 0;
+    if (shortfallBps > params.crossCheckMaxBps) {
+      throw new Error(
+        `AMM quote failed ${executor.id} cross-check: local=${localOut} ${executor.id}=${quote.outAmount} ` +
+          `shortfallBps=${shortfallBps} max=${params.crossCheckMaxBps}`,
+      );
+    }
+    return quote;
+  };
+
+  const crossChecked = async (p: BuildSwapParams): Promise<BuildSwapParams> => {
+    const { includeDexes, excludeDexes } = p;
+    return { ...p, quote: await executionQuote({ quote: p.quote, amount: p.quote.inAmount, includeDexes, excludeDexes }) };
+  };
+
+  const buildSwapInstructions = executor.buildSwapInstructions;
+
+  return {
+    id: 'amm',
+    capabilities: {
+      atomicComposable: executor.capabilities.atomicComposable,
+      priceImpact: true,
+      routeHops: true,
+      dexFilters: false,
+      routeLimits: false,
+      signaturesPerTx: executor.capabilities.signaturesPerTx,
+      localQuotes: true,
+    },
+    rateLimitCooldownMs: executor.rateLimitCooldownMs,
+    supports(inputMint, outputMint) {
+      return params.engine.supports(inputMint, outputMint);
+    },
+    async quoteExactIn(p): Promise<ProviderQuote> {
+      const quote = params.engine.quote({ inputMint: p.inputMint, outputMint: p.outputMint, amount: BigInt(p.amount) });
+      if (!quote) throw new Error(`No AMM pool quotes ${p.inputMint} -> ${p.outputMint}`);
+      const minOut = (quote.outAmount * BigInt(10_000 - p.slippageBps)) / 10_000n;
+      return {
+        provider: 'amm',
+        inputMint: p.inputMint,
+        outputMint: p.outputMint,
+        inAmount: p.amount,
+        outAmount: quote.outAmount.toString(),
+        otherAmountThreshold: minOut.toString(),
+        slippageBps: p.slippageBps,
+        priceImpactBps: quote.priceImpactBps,
+        routeHops: 1,
+        routeAccounts: quote.accounts,
+        raw: quote,
+      };
+    },
+    executionQuote,
+    async buildSwapTransaction(p) {
+      return await executor.buildSwapTransaction(await crossChecked(p));
+    },
+    ...(buildSwapInstructions
+      ? {
+          async buildSwapInstructions(p: BuildSwapParams) {
+            return await buildSwapInstructions.call(executor, await crossChecked(p));
+          },
+        }
+      : {}),
+  };
+}
@@ -0,0 +1,92 @@
+// Trade-size search for TRIGGER_AMOUNT_MODE=optimize. Conservative profit as a function of size is usually concave
+// (fixed fees dominate small sizes, price impact large ones), so a golden-section search inside
+// [minNotionalA, maxNotionalA] finds the peak between configured steps with a handful of evaluations.
+
+export type AmountSearch = {
+  minAtomic: bigint;
+  maxAtomic: bigint;
+  // Evaluations allowed this tick (each costs one quote per leg).
+  maxEvaluations: number;
+  // Amounts snap to (max - min) / grid so successive ticks revisit the same sizes and hit the quote cache.
+  grid: number;
+};
+
+export type AmountCurvePoint = { amountA: string; objective?: string };
+
+const INV_PHI = (Math.sqrt(5) - 1) / 2;
+
+// Search range from the pair limits, falling back to the extremes of amountASteps; undefined when it is a single point.
+export function amountSearchRange(pair: {
+  amountA: string;
+  amountASteps?: string[];
+  minNotionalA?: string;
+  maxNotionalA?: string;
+}): { minAtomic: bigint; maxAtomic: bigint } | undefined {
+  const steps = (pair.amountASteps?.length ? pair.amountASteps : [pair.amountA]).filter((v) => /^\d+$/.test(v)).map(BigInt);
+  if (!steps.length) return undefined;
+  const minStep = steps.reduce((a, b) => (b < a ? b : a));
+  const maxStep = steps.reduce((a, b) => (b > a ? b : a));
+  const minAtomic = pair.minNotionalA && /^\d+$/.test(pair.minNotionalA) ? BigInt(pair.minNotionalA) : minStep;
+  const maxAtomic = pair.maxNotionalA && /^\d+$/.test(pair.maxNotionalA) ? BigInt(pair.maxNotionalA) : maxStep;
+  if (minAtomic <= 0n || maxAtomic <= minAtomic) return undefined;
+  return { minAtomic, maxAtomic };
+}
+
+// Golden-section search for the maximum of `evaluate` (undefined = failed/unknown, treated as worst).
+// Evaluations are memoised per grid point; returns every explored point in amount order.
+export async function goldenSectionSearch(params: AmountSearch & {
+  evaluate: (amountA: string) => Promise<bigint | undefined>;
+}): Promise<{ best?: AmountCurvePoint; points: AmountCurvePoint[]; evaluations: number }> {
+  const lo = params.minAtomic;
+  const hi = params.maxAtomic;
+  const span = hi - lo;
+  const step = span / BigInt(Math.max(1, Math.floor(params.grid))) || 1n;
+  const snap = (x: bigint) => {
+    const snapped = lo + ((x - lo + step / 2n) / step) * step;
+    return snapped > hi ? hi : snapped < lo ? lo : snapped;
+  };
+  const at = (a: bigint, b: bigint, fraction: number) => snap(a + BigInt(Math.round(Number(b - a) * fraction)));
+
+  const seen = new Map<bigint, bigint | undefined>();
+  const maxEvaluations = Math.max(1, Math.floor(params.maxEvaluations));
+  const f = async (x: bigint) => {
+    if (seen.has(x)) return seen.get(x);
+    if (seen.size >= maxEvaluations) return undefined;
+    const value = await params.evaluate(x.toString());
+    seen.set(x, value);
+    return value;
+  };
+  const better = (x?: bigint, y?: bigint) => x !== undefined && (y === undefined || x > y);
+
+  let a = lo;
+  let b = hi;
+  let c = at(a, b, 1 - INV_PHI);
+  let d = at(a, b, INV_PHI);
+  let fc = await f(c);
+  let fd = await f(d);
+  while (seen.size < maxEvaluations && b - a > 2n * step && c !== d) {
+    if (better(fd, fc)) {
+      a = c;
+      c = d;
+      fc = fd;
+      d = at(a, b, INV_PHI);
+      fd = await f(d);
+    } else {
+      b = d;
+      d = c;
+      fd = fc;
+      c = at(a, b, 1 - INV_PHI);
+      fc = await f(c);
+    }
+  }
+
+  const points = Array.from(seen.entries())
+    .sort(([x], [y]) => (x < y ? -1 : x > y ? 1 : 0))
+    .map(([x, v]) => ({ amountA: x.toString(), objective: v?.toString() }));
+  let best: AmountCurvePoint | undefined;
+  for (const p of points) {
+    if (p.objective === undefined) continue;
+    if (!best || BigInt(p.objective) > BigInt(best.objective!)) best = p;
+  }
+  return { best, points, evaluations: seen.size };
+}
@@ -3,14 +3,17 @@ import {
   ComputeBudgetProgram,
   Connection,
   Keypair,
+  PACKET_DATA_SIZE,
   PublicKey,
   SystemProgram,
   TransactionInstruction,
   TransactionMessage,
   VersionedTransaction,
+  type VersionedMessage,
 } from '@solana/web3.js';
 import type { JupiterClient, JupiterInstruction, QuoteResponse, SwapInstructionsResponse } from '../jupiter/types.js';
 import type { LookupTableCache } from '../solana/lookupTableCache.js';
+import type { OpportunityTrace } from '../lib/trace.js';
 
 function toTxInstruction(ix: JupiterInstruction): TransactionInstruction {
   return new TransactionInstruction({
@@ -73,6 +76,97 @@ async function loadLookupTables(
   return accounts;
 }
 
+// Bytes taken by a compact-u16 length prefix.
+function compactLength(n: number) {
+  return n < 0x80 ? 1 : n < 0x4000 ? 2 : 3;
+}
+
+// Wire size of the signed transaction, computed from the message layout: an oversized message cannot be serialized
+// (web3.js overruns its packet-sized buffer), so it cannot be measured that way.
+export function transactionSize(message: VersionedMessage) {
+  const signatures = message.header.numRequiredSignatures;
+  let size = compactLength(signatures) + signatures * 64;
+  size += message.version === 'legacy' ? 0 : 1;
+  size += 3 + compactLength(message.staticAccountKeys.length) + message.staticAccountKeys.length * 32 + 32;
+  size += compactLength(message.compiledInstructions.length);
+  for (const ix of message.compiledInstructions) {
+    size += 1 + compactLength(ix.accountKeyIndexes.length) + ix.accountKeyIndexes.length;
+    size += compactLength(ix.data.length) + ix.data.length;
+  }
+  if (message.version !== 'legacy') {
+    size += compactLength(message.addressTableLookups.length);
+    for (const lookup of message.addressTableLookups) {
+      size += 32 + compactLength(lookup.writableIndexes.length) + lookup.writableIndexes.length;
+      size += compactLength(lookup.readonlyIndexes.length) + lookup.readonlyIndexes.length;
+    }
+  }
+  return size;
+}
+
+export type AtomicPreflight = {
+  sizeBytes: number;
+  maxBytes: number;
+  oversized: boolean;
+  computeUnitLimit: number;
+  // Only set when the transaction was simulated.
+  unitsConsumed?: number;
+  simErr?: unknown;
+  computeExceeded: boolean;
+};
+
+export function isComputeBudgetExceeded(sim: { err: unknown; logs?: string[] | null }) {
+  if (!sim.err) return false;
+  if (JSON.stringify(sim.err).includes('ComputationalBudgetExceeded')) return true;
+  return (sim.logs ?? []).some((line) => line.includes('exceeded CUs meter'));
+}
+
+// Checks a built atomic transaction against the packet size and, with `simulate`, against its compute unit limit.
+// The simulation swaps in a fresh blockhash and skips signature checks; it is skipped when the transaction is too
+// large to send anyway.
+export async function analyzeAtomicTransaction(params: {
+  connection: Connection;
+  tx: VersionedTransaction;
+  computeUnitLimit: number;
+  simulate: boolean;
+}): Promise<AtomicPreflight> {
+  const sizeBytes = transactionSize(params.tx.message);
+  const base = {
+    sizeBytes,
+    maxBytes: PACKET_DATA_SIZE,
+    oversized: sizeBytes > PACKET_DATA_SIZE,
+    computeUnitLimit: params.computeUnitLimit,
+  };
+  if (base.oversized || !params.simulate) return { ...base, computeExceeded: false };
+
+  const sim = (
+    await params.connection.simulateTransaction(params.tx, {
+      replaceRecentBlockhash: true,
+      sigVerify: false,
+      commitment: 'processed',
+    })
+  ).value;
+  return {
+    ...base,
+    unitsConsumed: sim.unitsConsumed,
+    simErr: sim.err ?? undefined,
+    computeExceeded: isComputeBudgetExceeded(sim),
+  };
+}
+
+type ComputeBudget = { computeUnitLimit: number; computeUnitPriceMicroLamports: number };
+
+// Anything that turns a quote into swap instructions in Jupiter's swap-instructions format: a Jupiter client, or the
+// SwapProviderRegistry dispatching each leg to its own provider.
+export type SwapInstructionsRouter<Q> = {
+  buildSwapInstructions(params: {
+    quote: Q;
+    userPublicKey: string;
+    computeUnitPriceMicroLamports?: number;
+    includeDexes?: string[];
+    excludeDexes?: string[];
+  }): Promise<SwapInstructionsResponse>;
+};
+
 export async function buildAtomicLoopTransaction(params: {
   connection: Connection;
   wallet: Keypair;
@@ -88,7 +182,7 @@ export async function buildAtomicLoopTransaction(params: {
   return await buildAtomicPathTransaction({
     connection: params.connection,
     wallet: params.wallet,
-    jupiter: params.jupiter,
+    router: params.jupiter,
     legs: [params.leg1, params.leg2],
     computeUnitLimit: params.computeUnitLimit,
     computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
@@ -98,16 +192,22 @@ export async function buildAtomicLoopTransaction(params: {
   });
 }
 
-export async function buildAtomicPathTransaction(params: {
+export async function buildAtomicPathTransaction<Q>(params: {
   connection: Connection;
   wallet: Keypair;
-  jupiter: Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
-  legs: QuoteResponse[];
+  router: SwapInstructionsRouter<Q>;
+  legs: Q[];
   computeUnitLimit: number;
   computeUnitPriceMicroLamports: number;
   jitoTipLamports?: number;
   jitoTipAccount?: PublicKey;
   lookupTableCache?: LookupTableCache;
+  // Our own tables (ALT_MANAGER_ENABLED); listed first so the compiler resolves shared keys through them.
+  ownLookupTables?: AddressLookupTableAccount[];
+  // The pair's dex filters, handed to routers that quote again before building.
+  includeDexes?: string[];
+  excludeDexes?: string[];
+  trace?: OpportunityTrace;
 }) {
   const userPublicKey = params.wallet.publicKey.toBase58();
 
@@ -118,29 +218,29 @@ export async function buildAtomicPathTransaction(params: {
 
   const instructionResponses = await Promise.all(
     legs.map((quote) =>
-      params.jupiter.buildSwapInstructions({
+      params.router.buildSwapInstructions({
         quote,
         userPublicKey,
         computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
+        includeDexes: params.includeDexes,
+        excludeDexes: params.excludeDexes,
       }),
     ),
   );
 
+  params.trace?.mark('swap_instructions');
+
   const bundles = instructionResponses.map(collectIxBundle);
 
   // ComputeBudget has strict duplicate rules (only one of each type is allowed).
   // Because we combine two swaps, the per-leg dynamic budget from Jupiter can be too low,
   // so we ignore Jupiter's compute budget instructions and set a high limit ourselves.
-  const computeBudget: TransactionInstruction[] = [
-    ComputeBudgetProgram.setComputeUnitLimit({ units: params.computeUnitLimit }),
+  const computeBudget = (budget: ComputeBudget): TransactionInstruction[] => [
+    ComputeBudgetProgram.setComputeUnitLimit({ units: budget.computeUnitLimit }),
+    ...(budget.computeUnitPriceMicroLamports > 0
+      ? [ComputeBudgetProgram.setComputeUnitPrice({ microLamports: budget.computeUnitPriceMicroLamports })]
+      : []),
   ];
-  if (params.computeUnitPriceMicroLamports > 0) {
-    computeBudget.push(
-      ComputeBudgetProgram.setComputeUnitPrice({
-        microLamports: params.computeUnitPriceMicroLamports,
-      }),
-    );
-  }
 
   // "otherInstructions" may include de-dupe-sensitive instructions, so prefer leg1 only.
   const other = bundles[0]?.other ?? [];
@@ -157,8 +257,7 @@ export async function buildAtomicPathTransaction(params: {
     ixKey,
   );
 
-  const instructions: TransactionInstruction[] = [
-    ...computeBudget,
+  const body: TransactionInstruction[] = [
     ...other,
     ...setup,
     ...swaps,
@@ -174,22 +273,53 @@ export async function buildAtomicPathTransaction(params: {
         ]
       : []),
   ];
+  const instructions = [...computeBudget(params), ...body];
 
-  const lookupTableAccounts = await loadLookupTables(
-    params.connection,
-    bundles.flatMap((b) => b.alts),
-    params.lookupTableCache,
-  );
+  const ownLookupTables = params.ownLookupTables ?? [];
+  const ownAddresses = new Set(ownLookupTables.map((t) => t.key.toBase58()));
+  const lookupTableAccounts = [
+    ...ownLookupTables,
+    ...(await loadLookupTables(
+      params.connection,
+      bundles.flatMap((b) => b.alts).filter((a) => !ownAddresses.has(a)),
+      params.lookupTableCache,
+    )),
+  ];
+  params.trace?.mark('lut_load');
   const { blockhash, lastValidBlockHeight } = await params.connection.getLatestBlockhash('confirmed');
+  params.trace?.mark('blockhash');
+
+  // A different compute budget only needs a recompile, not new swap instructions.
+  const compile = (budget: ComputeBudget) => {
+    const messageV0 = new TransactionMessage({
+      payerKey: params.wallet.publicKey,
+      recentBlockhash: blockhash,
+      instructions: [...computeBudget(budget), ...body],
+    }).compileToV0Message(lookupTableAccounts);
 
-  const messageV0 = new TransactionMessage({
-    payerKey: params.wallet.publicKey,
-    recentBlockhash: blockhash,
-    instructions,
-  }).compileToV0Message(lookupTableAccounts);
+    const tx = new VersionedTransaction(messageV0);
+    // Left unsigned when it cannot fit a packet (signing serializes the message); analyzeAtomicTransaction reports it.
+    if (transactionSize(messageV0) <= PACKET_DATA_SIZE) tx.sign([params.wallet]);
+    return tx;
+  };
+
+  const tx = compile(params);
+  params.trace?.mark('sign');
 
-  const tx = new VersionedTransaction(messageV0);
-  tx.sign([params.wallet]);
+  // Keys a lookup table could hold: invoked programs and signers must stay static.
+  const programIds = new Set(instructions.map((ix) => ix.programId.toBase58()));
+  const lookupableKeys = uniqBy(
+    instructions.flatMap((ix) => ix.keys.filter((k) => !k.isSigner).map((k) => k.pubkey.toBase58())),
+    (k) => k,
+  ).filter((k) => !programIds.has(k));
 
-  return { tx, lookupTableAddresses: bundles.flatMap((b) => b.alts), lastValidBlockHeight };
+  return {
+    tx,
+    lookupTableAddresses: bundles.flatMap((b) => b.alts),
+    lastValidBlockHeight,
+    swapInstructionAccounts: instructionResponses.flatMap((r) => r.swapInstruction.accounts),
+    lookupableKeys,
+    // Same transaction (blockhash included) with another compute unit limit/price.
+    withComputeBudget: compile,
+  };
 }
@@ -0,0 +1,60 @@
+import type { ProviderQuote } from '../lib/swapProvider.js';
+
+// Samples kept per route; the fitted limit covers the largest of them.
+const MAX_SAMPLES = 5;
+// Routes tracked at once; the least recently recorded are dropped first.
+const MAX_ROUTES = 2_048;
+
+type RouteSamples = { units: number[]; recordedAtMs: number };
+
+// Identifies what a transaction executes: each leg's provider, direction and pools (or venue, when the provider does
+// not report accounts). Quotes for other sizes through the same pools share the key.
+export function computeUnitRouteKey(quotes: ProviderQuote[]) {
+  return quotes
+    .map((q) => `${q.provider}:${q.inputMint}>${q.outputMint}:${q.routeAccounts?.join(',') ?? q.dexId ?? ''}`)
+    .join('|');
+}
+
+// Compute units consumed by recent atomic transactions, by route (COMPUTE_UNIT_FIT). A route seen within `ttlMs`
+// gets its limit from here (largest sample plus `marginBps`) instead of a fresh simulation.
+export class ComputeUnitHistory {
+  private readonly routes = new Map<string, RouteSamples>();
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly params: { marginBps: number; ttlMs: number }) {}
+
+  record(key: string, unitsConsumed: number, nowMs = Date.now()) {
+    if (!Number.isFinite(unitsConsumed) || unitsConsumed <= 0) return;
+    const previous = this.routes.get(key);
+    const units = [...(previous && nowMs - previous.recordedAtMs <= this.params.ttlMs ? previous.units : []), unitsConsumed];
+    this.routes.delete(key);
+    this.routes.set(key, { units: units.slice(-MAX_SAMPLES), recordedAtMs: nowMs });
+    if (this.routes.size > MAX_ROUTES) this.routes.delete(this.routes.keys().next().value!);
+  }
+
+  // Drops a route whose fitted limit turned out too low.
+  forget(key: string) {
+    this.routes.delete(key);
+  }
+
+  // Fitted limit for the route, never above `maxLimit`; undefined without a recent sample.
+  limitFor(key: string, maxLimit: number, nowMs = Date.now()): number | undefined {
+    const samples = this.routes.get(key);
+    if (!samples || nowMs - samples.recordedAtMs > this.params.ttlMs) {
+      this.misses += 1;
+      return undefined;
+    }
+    this.hits += 1;
+    return fitComputeUnitLimit({ unitsConsumed: Math.max(...samples.units), marginBps: this.params.marginBps, maxLimit });
+  }
+
+  snapshot() {
+    return { routes: this.routes.size, hits: this.hits, misses: this.misses, marginBps: this.params.marginBps };
+  }
+}
+
+export function fitComputeUnitLimit(params: { unitsConsumed: number; marginBps: number; maxLimit: number }) {
+  const fitted = Math.ceil((params.unitsConsumed * (10_000 + Math.max(0, params.marginBps))) / 10_000);
+  return Math.max(1, Math.min(params.maxLimit, fitted));
+}
@@ -1,20 +1,40 @@
 import { Connection, Keypair, PublicKey, VersionedTransaction } from '@solana/web3.js';
 import bs58 from 'bs58';
 
-import type { BotPair } from '../lib/config.js';
+import { pairPath, type BotPair } from '../lib/config.js';
 import type { Logger } from '../lib/logger.js';
-import type { JupiterClient, QuoteResponse, UltraOrderResponse } from '../jupiter/types.js';
-import type { OpenOceanClient } from '../openocean/client.js';
-import type { OpenOceanSwapData } from '../openocean/types.js';
+import type { JupiterClient, UltraOrderResponse } from '../jupiter/types.js';
+import type { ProviderQuote, SwapProviderRegistry } from '../lib/swapProvider.js';
 import { isHttp429, type ProviderCircuitBreaker } from '../lib/circuitBreaker.js';
-import { buildAtomicPathTransaction } from './atomic.js';
-import { getJitoTipAccountAddress, sendBundleViaJito } from './jitoSender.js';
-import type { Candidate } from './scanner.js';
+import {
+  analyzeAtomicTransaction,
+  buildAtomicPathTransaction,
+  isComputeBudgetExceeded,
+  type AtomicPreflight,
+} from './atomic.js';
+import { computeUnitRouteKey, type ComputeUnitHistory } from './computeUnits.js';
+import { swapRouteAccounts, type RouteAccountWatcher } from './routeWatcher.js';
+import type { PriorityFeeBidPolicy } from './priorityFeeBid.js';
+import {
+  buildJitoTipTransaction,
+  getJitoTipAccountAddress,
+  jitoSearcherPoolFor,
+  sendBundleViaJito,
+  type JitoSearcherPool,
+} from './jitoSender.js';
+import { computeMinProfitA, type Candidate } from './scanner.js';
 import type { LookupTableCache } from '../solana/lookupTableCache.js';
+import type { LookupTableManager } from '../solana/lookupTableManager.js';
+import type { PriorityFeeEstimator } from '../solana/priorityFees.js';
 import { TokenBalanceCache } from '../solana/tokenBalanceCache.js';
+import { sleep } from '../lib/time.js';
+import type { OpportunityTrace } from '../lib/trace.js';
+import { executionLeaseKey, type ExecutionLease } from '../lib/executionLease.js';
+import type { GlobalRiskGuard } from '../lib/globalRisk.js';
 
 export type ExecutionPnl = {
-  provider: 'jupiter' | 'ultra' | 'openocean';
+  // Swap provider id, 'mixed' (legs from different providers) or 'ultra'.
+  provider: string;
   aMint: string;
   bMint: string;
   cMint?: string;
@@ -31,6 +51,8 @@ export type ExecutionPnl = {
   preBalanceCAtomic?: string;
   postBalanceCAtomic?: string;
   deltaCAtomic?: string;
+  // Path mints after C (`path` pairs with 4+ legs).
+  extraMints?: Array<{ mint: string; preBalanceAtomic?: string; postBalanceAtomic?: string; deltaAtomic?: string }>;
 };
 
 export type ExecutionResult = {
@@ -42,33 +64,13 @@ export type ExecutionResult = {
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
 const tokenBalanceCache = new TokenBalanceCache();
 
-function parsePriceImpactBps(raw: unknown): number | undefined {
-  if (typeof raw !== 'string') return undefined;
-  const normalized = raw.trim().replace('%', '');
-  if (!normalized) return undefined;
-  const n = Number.parseFloat(normalized);
-  if (!Number.isFinite(n) || n < 0) return undefined;
-
-  // Jupiter/OpenOcean may return either:
-  // - fraction in [0..1] where 1 === 100%
-  // - percentage in [0..100]
-  if (n <= 1) return Math.round(n * 10_000);
-  if (n <= 100) return Math.round(n * 100);
-  return undefined;
-}
-
-function routeHopsFromRoutePlan(routePlan: unknown): number | undefined {
-  if (!Array.isArray(routePlan)) return undefined;
-  const hops = routePlan.length;
-  return Number.isFinite(hops) ? hops : undefined;
-}
-
 async function fetchPnlSnapshot(params: {
   connection: Connection;
   wallet: Keypair;
   aMint: string;
   bMint: string;
   cMint?: string;
+  extraMints?: string[];
 }) {
   const owner = params.wallet.publicKey;
   const solLamports = await params.connection.getBalance(owner, 'confirmed');
@@ -80,7 +82,11 @@ async function fetchPnlSnapshot(params: {
   const cBalance = params.cMint
     ? await tokenBalanceCache.get({ connection: params.connection, owner, mint: params.cMint, ttlMs: 0 })
     : undefined;
-  return { solLamports, aBalance, bBalance, cBalance };
+  const extraBalances = [];
+  for (const mint of params.extraMints ?? []) {
+    extraBalances.push(await tokenBalanceCache.get({ connection: params.connection, owner, mint, ttlMs: 0 }));
+  }
+  return { solLamports, aBalance, bBalance, cBalance, extraBalances };
 }
 
 function parseBooleanEnv(name: string, defaultValue: boolean) {
@@ -98,7 +104,7 @@ function formatDecisionLog(params: {
   pair: BotPair;
   provider?: string;
   amountA: string;
-  quotes: QuoteResponse[];
+  quotes: Array<{ outAmount: string; otherAmountThreshold: string }>;
   feeEstimateLamports: string;
   feeEstimateInA?: string;
   profit: string;
@@ -111,6 +117,7 @@ function formatDecisionLog(params: {
     aMint: params.pair.aMint,
     bMint: params.pair.bMint,
     cMint: params.pair.cMint,
+    path: params.pair.path,
     provider: params.provider,
     amountA: params.amountA,
     feeEstimateLamports: params.feeEstimateLamports,
@@ -213,19 +220,74 @@ async function confirmIfSignature(params: { connection: Connection; signature?:
   throw new Error(`Failed to confirm transaction after ${maxAttempts} attempts: ${sig}`);
 }
 
-async function signAndSendV6Swap(params: {
+async function readMintBalanceAtomic(params: { connection: Connection; owner: PublicKey; mint: string }) {
+  if (params.mint === SOL_MINT) return BigInt(await params.connection.getBalance(params.owner, 'confirmed'));
+  const balance = await tokenBalanceCache.get({ connection: params.connection, owner: params.owner, mint: params.mint, ttlMs: 0 });
+  return balance?.amountAtomic && /^\d+$/.test(balance.amountAtomic) ? BigInt(balance.amountAtomic) : 0n;
+}
+
+// What `signature` itself moved into the owner's `mint` balance, from the transaction meta: token balances owned by
+// the wallet, or its lamports for SOL (the fee it paid added back). Undefined while the RPC does not serve the meta yet.
+export async function readTxMintDelta(params: { connection: Connection; signature: string; owner: PublicKey; mint: string }) {
+  const tx = await params.connection.getTransaction(params.signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 });
+  const meta = tx?.meta;
+  if (!tx || !meta) return undefined;
+
+  if (params.mint === SOL_MINT) {
+    const keys = tx.transaction.message.getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses });
+    const index = keys.staticAccountKeys.findIndex((k) => k.equals(params.owner));
+    if (index < 0) return 0n;
+    const delta = BigInt(meta.postBalances[index] ?? 0) - BigInt(meta.preBalances[index] ?? 0);
+    return index === 0 ? delta + BigInt(meta.fee) : delta;
+  }
+
+  const owner = params.owner.toBase58();
+  const sum = (balances: typeof meta.postTokenBalances) =>
+    (balances ?? [])
+      .filter((b) => b.owner === owner && b.mint === params.mint && /^\d+$/.test(b.uiTokenAmount.amount))
+      .reduce((acc, b) => acc + BigInt(b.uiTokenAmount.amount), 0n);
+  return sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+}
+
+// B delivered by the confirmed leg 1, read from its own transaction so concurrent executions on the wallet that move
+// the same mint can neither inflate nor hide it. The wallet balance rise over `baseline` is only a fallback for when
+// the meta is still not served at `maxWaitMs`. Undefined when no fill is seen.
+async function waitForLegFill(params: {
+  connection: Connection;
+  signature: string;
+  owner: PublicKey;
+  mint: string;
+  baseline: bigint;
+  maxWaitMs: number;
+  pollMs: number;
+}) {
+  const deadline = Date.now() + Math.max(0, params.maxWaitMs);
+  while (true) {
+    const delta = await readTxMintDelta(params).catch(() => undefined);
+    if (delta !== undefined) return delta > 0n ? delta : undefined;
+    if (Date.now() >= deadline) break;
+    await sleep(Math.max(50, params.pollMs));
+  }
+  const current = await readMintBalanceAtomic(params);
+  return current > params.baseline ? current - params.baseline : undefined;
+}
+
+export async function signAndSendV6Swap(params: {
   connection: Connection;
   wallet: Keypair;
   swapTransactionB64: string;
   lastValidBlockHeight?: number;
+  trace?: OpportunityTrace;
 }) {
   const raw = Buffer.from(params.swapTransactionB64, 'base64');
   const tx = VersionedTransaction.deserialize(raw);
   tx.sign([params.wallet]);
+  params.trace?.mark('sign');
   const signature = await params.connection.sendRawTransaction(tx.serialize(), { maxRetries: 2 });
+  params.trace?.mark('send');
   const blockhash = tx.message.recentBlockhash;
   const latest = await params.connection.getLatestBlockhash('confirmed');
-  await params.connection.confirmTransaction(
+  const confirmation = await params.connection.confirmTransaction(
     {
       signature,
       blockhash,
@@ -233,45 +295,33 @@ async function signAndSendV6Swap(params: {
     },
     'confirmed',
   );
+  params.trace?.mark('confirm');
+  if (confirmation.value.err) throw new Error(`transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
   return signature;
 }
 
-async function simulateV6Swap(params: {
-  connection: Connection;
-  wallet: Keypair;
-  swapTransactionB64: string;
-}) {
-  const raw = Buffer.from(params.swapTransactionB64, 'base64');
-  const tx = VersionedTransaction.deserialize(raw);
-  tx.sign([params.wallet]);
-  const sim = await params.connection.simulateTransaction(tx, { commitment: 'processed' });
-  return sim.value;
-}
-
 async function sendSignedTx(params: {
   connection: Connection;
   tx: VersionedTransaction;
   lastValidBlockHeight: number;
+  trace?: OpportunityTrace;
 }) {
   const signature = await params.connection.sendRawTransaction(params.tx.serialize(), { maxRetries: 2 });
+  params.trace?.mark('send');
   const blockhash = params.tx.message.recentBlockhash;
-  await params.connection.confirmTransaction(
+  const confirmation = await params.connection.confirmTransaction(
     { signature, blockhash, lastValidBlockHeight: params.lastValidBlockHeight },
     'confirmed',
   );
+  params.trace?.mark('confirm');
+  // confirmTransaction resolves for transactions that landed and failed too.
+  if (confirmation.value.err) throw new Error(`transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
   return signature;
 }
 
-function decodeOpenOceanTxBytes(data: string) {
-  const trimmed = data.trim();
-  const maybeHex = trimmed.startsWith('0x') ? trimmed.slice(2) : trimmed;
-  const isHex = maybeHex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(maybeHex);
-  return Buffer.from(isHex ? maybeHex : trimmed, isHex ? 'hex' : 'base64');
-}
-
-function deserializeOpenOceanSwapTx(swap: OpenOceanSwapData) {
-  const raw = decodeOpenOceanTxBytes(swap.data);
-  return VersionedTransaction.deserialize(raw);
+// False when a signer slot is still empty (e.g. Ultra gasless orders wait for Jupiter's co-signature in /execute).
+function isFullySigned(tx: VersionedTransaction) {
+  return tx.signatures.every((sig) => sig.some((b) => b !== 0));
 }
 
 function isLikelyMissingIntermediateFunds(sim: { err: unknown; logs?: string[] | null }) {
@@ -280,16 +330,279 @@ function isLikelyMissingIntermediateFunds(sim: { err: unknown; logs?: string[] |
   return logs.some((line) => line.toLowerCase().includes('insufficient funds'));
 }
 
-export async function executeCandidate(params: {
+function atomicOverflowReason(preflight: AtomicPreflight) {
+  if (preflight.oversized) return 'atomic-oversized';
+  if (preflight.computeExceeded) return 'atomic-compute-exceeded';
+  return undefined;
+}
+
+// An atomic candidate re-priced for two transactions: the second one costs what the first did, less the Jito tip (paid
+// once). The decision is re-run on the new fee estimate.
+function withSequentialFees(pair: BotPair, best: Candidate): Candidate {
+  const feeLamports = BigInt(best.feeEstimateLamports);
+  const tip = BigInt(best.jitoTipLamports);
+  const extraLamports = feeLamports > tip ? feeLamports - tip : 0n;
+  const extraInA =
+    best.feeEstimateInA === undefined
+      ? extraLamports
+      : feeLamports > 0n
+        ? (extraLamports * BigInt(best.feeEstimateInA) + feeLamports - 1n) / feeLamports
+        : 0n;
+  const conservativeProfit = BigInt(best.decision.conservativeProfit) - extraInA;
+  const minProfit = computeMinProfitA({ amountA: best.amountA, minProfitA: pair.minProfitA, minProfitBps: pair.minProfitBps });
+  return {
+    ...best,
+    feeEstimateLamports: (feeLamports + extraLamports).toString(),
+    feeEstimateInA: best.feeEstimateInA === undefined ? undefined : (BigInt(best.feeEstimateInA) + extraInA).toString(),
+    decision: {
+      profitable: conservativeProfit >= BigInt(minProfit),
+      profit: (BigInt(best.decision.profit) - extraInA).toString(),
+      conservativeProfit: conservativeProfit.toString(),
+    },
+  };
+}
+
+// Re-quotes every leg through `quoteLeg`. Leg i+1 is quoted for leg i's new min-out less the gap the scan left between
+// them (Token-2022 transfer fees), and the profits move by the change in the final leg's output.
+async function requoteChain(params: {
+  pair: BotPair;
+  best: Candidate;
+  quoteLeg: (leg: ProviderQuote, amountIn: bigint) => Promise<ProviderQuote>;
+}): Promise<Candidate> {
+  const previous = params.best.quotes;
+  const quotes: ProviderQuote[] = [];
+  let amountIn = BigInt(params.best.amountA);
+  for (let i = 0; i < previous.length; i++) {
+    const leg = previous[i]!;
+    if (i > 0) {
+      const gap = BigInt(previous[i - 1]!.otherAmountThreshold) - BigInt(leg.inAmount);
+      amountIn = BigInt(quotes[i - 1]!.otherAmountThreshold) - gap;
+      if (amountIn <= 0n) throw new Error(`leg ${i + 1} has no input left after re-quoting`);
+    }
+    quotes.push(await params.quoteLeg(leg, amountIn));
+  }
+
+  const lastBefore = previous[previous.length - 1]!;
+  const lastAfter = quotes[quotes.length - 1]!;
+  const profit = BigInt(params.best.decision.profit) + BigInt(lastAfter.outAmount) - BigInt(lastBefore.outAmount);
+  const conservativeProfit =
+    BigInt(params.best.decision.conservativeProfit) +
+    BigInt(lastAfter.otherAmountThreshold) -
+    BigInt(lastBefore.otherAmountThreshold);
+  const minProfit = computeMinProfitA({
+    amountA: params.best.amountA,
+    minProfitA: params.pair.minProfitA,
+    minProfitBps: params.pair.minProfitBps,
+  });
+  return {
+    ...params.best,
+    quotes,
+    decision: {
+      profitable: conservativeProfit >= BigInt(minProfit),
+      profit: profit.toString(),
+      conservativeProfit: conservativeProfit.toString(),
+    },
+  };
+}
+
+// Re-quotes every leg on its own provider with route limits.
+async function requoteWithRouteLimits(params: {
+  providers: SwapProviderRegistry;
+  pair: BotPair;
+  best: Candidate;
+  limits: { onlyDirectRoutes?: boolean; maxAccounts?: number };
+}): Promise<Candidate> {
+  return await requoteChain({
+    pair: params.pair,
+    best: params.best,
+    quoteLeg: async (leg, amountIn) =>
+      await params.providers.get(leg.provider).quoteExactIn({
+        inputMint: leg.inputMint,
+        outputMint: leg.outputMint,
+        amount: amountIn.toString(),
+        slippageBps: leg.slippageBps,
+        includeDexes: params.pair.includeDexes,
+        excludeDexes: params.pair.excludeDexes,
+        ...params.limits,
+      }),
+  });
+}
+
+// Swaps local-quote legs (AMM_POOLS_PATH) for the quotes of the provider that executes them, chained from each other's
+// min-outs; other legs are re-quoted on their own provider when their input moved.
+async function requoteForExecution(params: {
+  providers: SwapProviderRegistry;
+  pair: BotPair;
+  best: Candidate;
+}): Promise<Candidate> {
+  const { includeDexes, excludeDexes } = params.pair;
+  return await requoteChain({
+    pair: params.pair,
+    best: params.best,
+    quoteLeg: async (leg, amountIn) => {
+      const provider = params.providers.get(leg.provider);
+      const amount = amountIn.toString();
+      if (provider.executionQuote) return await provider.executionQuote({ quote: leg, amount, includeDexes, excludeDexes });
+      if (amount === leg.inAmount) return leg;
+      return await provider.quoteExactIn({
+        inputMint: leg.inputMint,
+        outputMint: leg.outputMint,
+        amount,
+        slippageBps: leg.slippageBps,
+        includeDexes,
+        excludeDexes,
+      });
+    },
+  });
+}
+
+type ExecuteCandidateParams = Parameters<typeof executeCandidateInner>[0] & {
+  executionLease?: ExecutionLease;
+  executionLeaseTtlMs?: number;
+  globalRisk?: GlobalRiskGuard;
+};
+
+// Wallet-wide limits reserve their slot for the execution only (not the scan that found it). Executions are recorded
+// before the slot is released, so concurrent pairs see the trade count and realized PnL they produced.
+async function acquireGlobalRisk(
+  params: ExecuteCandidateParams,
+): Promise<{ ok: true; record?: (result: ExecutionResult) => void; release?: () => void } | { ok: false; result: ExecutionResult }> {
+  const guard = params.globalRisk;
+  if (!guard || params.mode === 'replay' || !params.best.decision.profitable) return { ok: true };
+
+  const slot = guard.tryAcquire({ pair: params.pair, nowMs: Date.now() });
+  if (!slot.ok) {
+    await params.logEvent({ ts: new Date().toISOString(), type: 'global_limit_skip', pair: params.pair.name, ...slot.block });
+    return { ok: false, result: { kind: 'skipped', reason: 'global-limit' } };
+  }
+  return {
+    ok: true,
+    record: (result) => {
+      if (result.kind === 'executed') guard.recordExecution({ pair: params.pair, nowMs: Date.now(), pnl: result.pnl });
+    },
+    release: slot.release,
+  };
+}
+
+// Live executions take a cross-process lease on (wallet, mints) first, so two services sharing a wallet
+// never fire on the same opportunity. Contention (or a lease backend failure) is a skip, not an error.
+async function acquireExecutionLease(
+  params: ExecuteCandidateParams,
+): Promise<{ ok: true; release?: () => Promise<void> } | { ok: false; result: ExecutionResult }> {
+  const lease = params.executionLease;
+  if (!lease || params.mode !== 'live' || !params.best.decision.profitable) return { ok: true };
+
+  const key = executionLeaseKey({
+    wallet: params.wallet.publicKey.toBase58(),
+    mints: pairPath(params.pair),
+  });
+  try {
+    const acquired = await lease.tryAcquire(key, Math.max(1_000, Math.floor(params.executionLeaseTtlMs ?? 120_000)));
+    if (acquired.ok) return { ok: true, release: acquired.release };
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'skip',
+      pair: params.pair.name,
+      reason: 'lease-contention',
+      leaseBackend: lease.kind,
+      leaseKey: key,
+      leaseHolder: acquired.holder,
+    });
+    return { ok: false, result: { kind: 'skipped', reason: 'lease-contention' } };
+  } catch (error) {
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'skip',
+      pair: params.pair.name,
+      reason: 'lease-error',
+      leaseBackend: lease.kind,
+      leaseKey: key,
+      error: String(error),
+    });
+    return { ok: false, result: { kind: 'skipped', reason: 'lease-error' } };
+  }
+}
+
+// One `trace` event per scanned candidate: stage timeline from the first quote to confirmation. `result` is the
+// execution outcome (`executed`, `skipped`, ..., or `not-executed` for candidates that never reached the executor);
+// `executionMs` (build/send/confirm alone, feeds the latency histogram) is only set for candidates that were built.
+export async function reportTrace(params: {
+  logEvent: Logger;
+  pair: BotPair;
+  mode: string;
+  best: Candidate;
+  result: string;
+  reason?: string;
+  executionMs?: number;
+}) {
+  if (params.best.trace.reported) return;
+  params.best.trace.reported = true;
+  await params.logEvent({
+    ts: new Date().toISOString(),
+    type: 'trace',
+    pair: params.pair.name,
+    mode: params.mode,
+    provider: params.best.provider,
+    legs: params.best.quotes.length,
+    amountA: params.best.amountA,
+    profitable: params.best.decision.profitable,
+    executed: params.result === 'executed',
+    result: params.result,
+    reason: params.reason,
+    executionMs: params.executionMs,
+    ...params.best.trace.summary(),
+  });
+}
+
+export async function executeCandidate(params: ExecuteCandidateParams): Promise<ExecutionResult> {
+  const startedAtMs = Date.now();
+  const report = async (result: string, reason?: string) =>
+    await reportTrace({
+      logEvent: params.logEvent,
+      pair: params.pair,
+      mode: params.mode,
+      best: params.best,
+      result,
+      reason,
+      // Unprofitable candidates never reach the build step; they would only flood the histogram with zeros.
+      executionMs: reason === 'not-profitable' ? undefined : Date.now() - startedAtMs,
+    });
+
+  const risk = await acquireGlobalRisk(params);
+  if (!risk.ok) {
+    await report(risk.result.kind, risk.result.reason);
+    return risk.result;
+  }
+  const lease = await acquireExecutionLease(params);
+  if (!lease.ok) {
+    risk.release?.();
+    await report(lease.result.kind, lease.result.reason);
+    return lease.result;
+  }
+
+  let result: ExecutionResult;
+  try {
+    result = await executeCandidateInner(params);
+    risk.record?.(result);
+  } catch (error) {
+    await report('error', String(error));
+    throw error;
+  } finally {
+    await lease.release?.().catch(() => undefined);
+    risk.release?.();
+  }
+  await report(result.kind, result.reason);
+  return result;
+}
+
+async function executeCandidateInner(params: {
   connection: Connection;
   wallet: Keypair;
-  quoteJupiter: Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
   execJupiter: JupiterClient;
-  openOcean?: OpenOceanClient;
+  providers: SwapProviderRegistry;
   providerCircuitBreaker?: ProviderCircuitBreaker;
   jup429CooldownMs?: number;
-  openOcean429CooldownMs?: number;
-  mode: 'dry-run' | 'live';
+  mode: 'dry-run' | 'live' | 'replay';
   executionStrategy: 'atomic' | 'sequential';
   dryRunBuild: boolean;
   dryRunSimulate: boolean;
@@ -301,11 +614,36 @@ export async function executeCandidate(params: {
   computeUnitPriceMicroLamports: number;
   jitoEnabled: boolean;
   jitoBlockEngineUrl: string;
+  // Shared per-region searcher clients; defaults to a pool built from jitoBlockEngineUrl.
+  jitoSearcherPool?: JitoSearcherPool;
   jitoTipAccount?: string;
   jitoWaitMs: number;
   jitoFallbackRpc: boolean;
+  // JITO_SEQUENTIAL_BUNDLE: sequential, Ultra and OpenOcean legs go out as one Jito bundle.
+  jitoSequentialBundle: boolean;
+  // Live Jupiter sequential: how long to wait for leg 1's fill, and when/how leg 2 aborts (SEQUENTIAL_LEG2_*,
+  // SEQUENTIAL_ABORT_MODE).
+  sequentialLeg2MaxWaitMs: number;
+  sequentialLeg2PollMs: number;
+  sequentialLeg2MaxLossBps: number;
+  sequentialAbortMode: 'sell' | 'hold';
   minBalanceLamports: number;
   lookupTableCache?: LookupTableCache;
+  lookupTableManager?: LookupTableManager;
+  routeWatcher?: RouteAccountWatcher;
+  // ATOMIC_PREFLIGHT: checks each atomic build against the packet size ('size') and its compute unit limit
+  // ('simulate') before it is simulated or sent.
+  atomicPreflight?: 'off' | 'size' | 'simulate';
+  // Route limits tried when a build does not fit (ATOMIC_FALLBACK_MAX_ACCOUNTS, then onlyDirectRoutes), and whether a
+  // 2-leg loop that still does not fit runs sequentially (ATOMIC_FALLBACK_SEQUENTIAL).
+  atomicFallbackMaxAccounts?: number;
+  atomicFallbackSequential?: boolean;
+  // COMPUTE_UNIT_FIT: atomic transactions request the compute units their route consumes (plus a margin).
+  computeUnitHistory?: ComputeUnitHistory;
+  // PRIORITY_FEE_PER_ACCOUNT: re-prices atomic builds from the writable accounts they lock.
+  priorityFeeEstimator?: PriorityFeeEstimator;
+  // PRIORITY_FEE_BID: the candidate's price is a profit bid, which the re-estimate may raise but never lower.
+  priorityFeeBid?: PriorityFeeBidPolicy;
 }): Promise<ExecutionResult> {
   const shouldBuild = params.best.decision.profitable || (params.mode === 'dry-run' && params.dryRunBuild);
   if (!shouldBuild) {
@@ -313,10 +651,30 @@ export async function executeCandidate(params: {
     return { kind: 'skipped', reason: 'not-profitable' };
   }
 
+  // Local quotes only scan: the loop is re-quoted as one chain on the provider that executes it, and built from those
+  // quotes once the decision still holds on them.
+  if (params.best.quotes.some((q) => params.providers.get(q.provider).executionQuote)) {
+    const best = await requoteForExecution({ providers: params.providers, pair: params.pair, best: params.best });
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'execution_requote',
+      pair: params.pair.name,
+      legProviders: best.quotes.map((q) => q.provider),
+      legOut: best.quotes.map((q) => q.outAmount),
+      legOutMin: best.quotes.map((q) => q.otherAmountThreshold),
+      profit: best.decision.profit,
+      conservativeProfit: best.decision.conservativeProfit,
+      profitable: best.decision.profitable,
+    });
+    if (params.best.decision.profitable && !best.decision.profitable) {
+      await params.logEvent({ ts: new Date().toISOString(), type: 'skip', pair: params.pair.name, reason: 'execution-requote-not-profitable' });
+      return { kind: 'skipped', reason: 'execution-requote-not-profitable' };
+    }
+    return await executeCandidateInner({ ...params, best });
+  }
+
   const breaker = params.providerCircuitBreaker;
   const jup429CooldownMs = Math.max(0, Math.floor(params.jup429CooldownMs ?? 30_000));
-  const openOcean429CooldownMs = Math.max(0, Math.floor(params.openOcean429CooldownMs ?? 60_000));
-  const openOceanBreakerKey = `openocean:${params.pair.name}`;
   const ultraBreakerKey = `ultra:${params.pair.name}`;
 
   if (params.mode === 'live' && params.minBalanceLamports > 0) {
@@ -337,22 +695,15 @@ export async function executeCandidate(params: {
   const maxPriceImpactBps = params.pair.maxPriceImpactBps;
   const maxRouteHops = params.pair.maxRouteHops;
   if ((maxPriceImpactBps !== undefined && maxPriceImpactBps >= 0) || (maxRouteHops !== undefined && maxRouteHops > 0)) {
-    const quotes = (() => {
-      if (params.best.kind === 'triangular') return [params.best.quote1, params.best.quote2, params.best.quote3] as unknown[];
-      return [params.best.quote1, params.best.quote2] as unknown[];
-    })();
+    const quotes = params.best.quotes;
 
+    // Legs whose provider does not report impact/hops pass the filter.
     for (let i = 0; i < quotes.length; i++) {
       const leg = i + 1;
-      const q: any = quotes[i];
+      const q = quotes[i]!;
 
       if (maxPriceImpactBps !== undefined) {
-        const impactBps =
-          q && typeof q === 'object' && typeof q.priceImpactPct === 'string'
-            ? parsePriceImpactBps(q.priceImpactPct)
-            : q && typeof q === 'object' && q.raw && typeof q.raw.price_impact === 'string'
-              ? parsePriceImpactBps(q.raw.price_impact)
-              : undefined;
+        const impactBps = q.priceImpactBps;
 
         if (impactBps !== undefined && impactBps > maxPriceImpactBps) {
           await params.logEvent({
@@ -370,8 +721,7 @@ export async function executeCandidate(params: {
       }
 
       if (maxRouteHops !== undefined && maxRouteHops > 0) {
-        const hops =
-          q && typeof q === 'object' && 'routePlan' in q ? routeHopsFromRoutePlan(q.routePlan) : undefined;
+        const hops = q.routeHops;
         if (hops !== undefined && hops > maxRouteHops) {
           await params.logEvent({
             ts: new Date().toISOString(),
@@ -389,10 +739,29 @@ export async function executeCandidate(params: {
     }
   }
 
+  if (params.mode === 'replay') {
+    // Paper fill at quoted prices: nothing is built, signed or sent.
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'replay_fill',
+      pair: params.pair.name,
+      provider: params.best.provider,
+      path: params.best.path,
+      amountA: params.best.amountA,
+      feeEstimateLamports: params.best.feeEstimateLamports,
+      feeEstimateInA: params.best.feeEstimateInA,
+      profit: params.best.decision.profit,
+      conservativeProfit: params.best.decision.conservativeProfit,
+    });
+    return { kind: 'simulated', reason: 'replay-fill' };
+  }
+
+  const path = pairPath(params.pair);
   const pnlMints = {
-    aMint: params.pair.aMint,
-    bMint: params.pair.bMint,
-    cMint: params.pair.cMint,
+    aMint: path[0],
+    bMint: path[1],
+    cMint: path[2],
+    extraMints: path.slice(3),
   };
   let preSnapshot:
     | Awaited<ReturnType<typeof fetchPnlSnapshot>>
@@ -439,6 +808,15 @@ export async function executeCandidate(params: {
         asBigIntOrUndefined(preC) !== undefined && asBigIntOrUndefined(postC) !== undefined
           ? (BigInt(postC as string) - BigInt(preC as string)).toString()
           : undefined;
+      const extraMints = pnlMints.extraMints.map((mint, i) => {
+        const pre = preSnapshot!.extraBalances[i]?.amountAtomic;
+        const post = postSnapshot.extraBalances[i]?.amountAtomic;
+        const delta =
+          asBigIntOrUndefined(pre) !== undefined && asBigIntOrUndefined(post) !== undefined
+            ? (BigInt(post as string) - BigInt(pre as string)).toString()
+            : undefined;
+        return { mint, preBalanceAtomic: pre, postBalanceAtomic: post, deltaAtomic: delta };
+      });
 
       return {
         provider,
@@ -458,6 +836,7 @@ export async function executeCandidate(params: {
         preBalanceCAtomic: preC,
         postBalanceCAtomic: postC,
         deltaCAtomic: deltaC,
+        extraMints: extraMints.length ? extraMints : undefined,
       };
     } catch {
       return undefined;
@@ -472,6 +851,7 @@ export async function executeCandidate(params: {
       ts: new Date().toISOString(),
       type: 'pnl',
       pair: params.pair.name,
+      wallet: params.wallet.publicKey.toBase58(),
       ...pnl,
       ...(params2.extra ?? {}),
     } as const;
@@ -495,18 +875,166 @@ export async function executeCandidate(params: {
     return pnl;
   }
 
-  const decisionLogQuotes =
-    params.best.kind === 'triangular'
-      ? [params.best.quote1, params.best.quote2, params.best.quote3]
-      : [params.best.quote1, params.best.quote2];
+  // Once leg 1 landed: `logAbort` records why leg 2 is not sent and `hold` ends the execution with the B leg 1 bought
+  // left in the wallet (the unwinder sells it back when enabled). `acceptLoss` records a failed leg-2 check that
+  // SEQUENTIAL_ABORT_MODE=sell overrides: leg 2 still goes out, so it is not an abort.
+  function sequentialAbort(sig1: string, context: Record<string, unknown>) {
+    const abortMode = params.sequentialAbortMode;
+    return {
+      hold: async (reason: string, extra: Record<string, unknown>): Promise<ExecutionResult> => {
+        console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, ...context, sequential: true, sig1, abort: reason, abortMode }));
+        await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, ...context, sequential: true, sig1, leg2: 'aborted', reason });
+        const pnl = await emitPnl({ provider: params.best.provider, extra: { sig1, ...context, sequential: true, leg2Aborted: reason, ...extra } });
+        return { kind: 'executed', reason: 'leg2-aborted', pnl };
+      },
+      logAbort: async (reason: string, extra: Record<string, unknown>) => {
+        await params.logEvent({
+          ts: new Date().toISOString(),
+          type: 'sequential_abort',
+          pair: params.pair.name,
+          ...context,
+          reason,
+          abortMode,
+          sig1,
+          ...extra,
+        });
+      },
+      acceptLoss: async (reason: string, extra: Record<string, unknown>) => {
+        await params.logEvent({
+          ts: new Date().toISOString(),
+          type: 'sequential_loss_accepted',
+          pair: params.pair.name,
+          ...context,
+          reason,
+          sig1,
+          ...extra,
+        });
+      },
+    };
+  }
+
+  // JITO_SEQUENTIAL_BUNDLE: the signed legs plus a separate tip transaction go out as one ordered Jito bundle, so the
+  // loop lands whole or not at all. Leg 2 is sized from leg 1's min-out (like the atomic path) since it cannot wait
+  // for the fill, and there is no RPC fallback that could leave the loop half done.
+  const bundleSequentialLegs = params.mode === 'live' && params.jitoEnabled && params.jitoSequentialBundle;
+
+  async function sendLegsAsBundle(params2: {
+    provider: ExecutionPnl['provider'];
+    legs: VersionedTransaction[];
+    lastValidBlockHeight?: number;
+  }): Promise<ExecutionResult> {
+    const latest = await params.connection.getLatestBlockhash('confirmed');
+    const tipLamports = params.best.jitoTipLamports;
+    const transactions = [...params2.legs];
+    if (tipLamports > 0) {
+      transactions.push(
+        buildJitoTipTransaction({
+          payer: params.wallet,
+          tipAccount: new PublicKey(getJitoTipAccountAddress(params.jitoTipAccount)),
+          tipLamports,
+          recentBlockhash: latest.blockhash,
+        }),
+      );
+    }
+    const signatures = params2.legs.map((tx) => bs58.encode(tx.signatures[0]));
+    const tipSignature = tipLamports > 0 ? bs58.encode(transactions[transactions.length - 1]!.signatures[0]) : undefined;
+
+    const sentAt = Date.now();
+    let bundleId: string | undefined;
+    let blockEngineUrl: string | undefined;
+    let region: string | undefined;
+    let result: any | undefined;
+    let jitoError: string | undefined;
+    try {
+      const sent = await sendBundleViaJito({
+        pool: params.jitoSearcherPool ?? jitoSearcherPoolFor(params.jitoBlockEngineUrl),
+        authKeypair: params.wallet,
+        transactions,
+        waitMs: params.jitoWaitMs,
+        onAccepted: () => params.best.trace.mark('jito_accept'),
+      });
+      bundleId = sent.bundleId;
+      blockEngineUrl = sent.blockEngineUrl;
+      region = sent.region;
+      result = sent.result;
+      if (result) params.best.trace.mark('jito_result');
+    } catch (e) {
+      jitoError = String(e);
+    }
+
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'jito_bundle',
+      pair: params.pair.name,
+      provider: params2.provider,
+      sequential: true,
+      signatures,
+      tipSignature,
+      tipLamports,
+      blockEngineUrl,
+      region,
+      bundleId,
+      waitMs: params.jitoWaitMs,
+      latencyMs: Date.now() - sentAt,
+      result,
+      error: jitoError,
+    });
+
+    if (jitoError !== undefined || result?.rejected || result?.dropped) {
+      console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: params2.provider, jito: true, bundleId, signatures, error: jitoError }));
+      return { kind: 'skipped', reason: 'jito-bundle-failed' };
+    }
+
+    // Legs of a bundle land together, so the last leg confirming means the whole loop executed. Without a bundle result
+    // (JITO_WAIT_MS=0) the confirmation is the only evidence: a confirm that expires or a leg that failed on-chain
+    // means the loop did not land.
+    const lastLeg = params2.legs[params2.legs.length - 1]!;
+    const lastSignature = signatures[signatures.length - 1]!;
+    let confirmError: string | undefined;
+    try {
+      const confirmation = await params.connection.confirmTransaction(
+        {
+          signature: lastSignature,
+          blockhash: lastLeg.message.recentBlockhash,
+          lastValidBlockHeight: params2.lastValidBlockHeight ?? latest.lastValidBlockHeight,
+        },
+        'confirmed',
+      );
+      params.best.trace.mark('confirm');
+      if (confirmation.value.err) confirmError = `transaction failed: ${JSON.stringify(confirmation.value.err)}`;
+    } catch (e) {
+      confirmError = String(e);
+    }
+    if (confirmError !== undefined) {
+      await params.logEvent({ ts: new Date().toISOString(), type: 'confirm_error', pair: params.pair.name, signature: lastSignature, bundleId, error: confirmError });
+      console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: params2.provider, jito: true, bundleId, signatures, error: confirmError }));
+      return { kind: 'skipped', reason: 'jito-bundle-not-landed' };
+    }
+
+    const [sig1, sig2] = signatures;
+    console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: params2.provider, jito: true, bundleId, sig1, sig2 }));
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'executed',
+      pair: params.pair.name,
+      provider: params2.provider,
+      sequential: true,
+      jito: true,
+      bundleId,
+      sig1,
+      sig2,
+    });
+    const pnl = await emitPnl({ provider: params2.provider, extra: { sig1, sig2, sequential: true, jito: true, bundleId } });
+    return { kind: 'executed', pnl };
+  }
 
   console.log(
     JSON.stringify(
       formatDecisionLog({
         pair: params.pair,
-        provider: params.best.kind === 'loop_openocean' ? 'openocean' : params.execJupiter.kind === 'ultra' ? 'ultra' : 'jupiter',
+        provider: params.best.provider !== 'jupiter' ? params.best.provider : params.execJupiter.kind === 'ultra' ? 'ultra' : 'jupiter',
         amountA: params.best.amountA,
-        quotes: decisionLogQuotes as QuoteResponse[],
+        quotes: params.best.quotes,
         feeEstimateLamports: params.best.feeEstimateLamports,
         feeEstimateInA: (params.best as any).feeEstimateInA,
         profit: params.best.decision.profit,
@@ -516,103 +1044,85 @@ export async function executeCandidate(params: {
     ),
   );
 
-  if (params.best.kind === 'loop_openocean') {
-    if (breaker?.isOpen(openOceanBreakerKey)) {
+  const legProviders = params.best.quotes.map((q) => params.providers.get(q.provider));
+  const logLegProviders = params.best.provider === 'mixed' ? legProviders.map((p) => p.id) : undefined;
+
+  // Loops from the secondary or local-quote providers (alone or mixed with the primary): each leg is a separate
+  // transaction built by its own provider. Live, leg 2 is re-quoted on its provider for the B leg 1 actually delivered,
+  // with the same fill wait and abort rules as the primary sequential path below.
+  if (
+    params.best.provider !== params.providers.primary.id &&
+    params.executionStrategy === 'sequential' &&
+    params.best.quotes.length === 2
+  ) {
+    const best = params.best;
+    for (const provider of legProviders) {
+      if (!breaker?.isOpen(`${provider.id}:${params.pair.name}`)) continue;
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'skip',
         pair: params.pair.name,
-        provider: 'openocean',
+        provider: best.provider,
+        legProviders: logLegProviders,
         reason: 'rate-limited',
-        cooldownMsRemaining: breaker.remainingMs(openOceanBreakerKey),
+        cooldownMsRemaining: breaker.remainingMs(`${provider.id}:${params.pair.name}`),
       });
       return { kind: 'skipped', reason: 'rate-limited' };
     }
-    if (params.executionStrategy !== 'sequential') {
-      await params.logEvent({
-        ts: new Date().toISOString(),
-        type: 'skip',
-        pair: params.pair.name,
-        provider: 'openocean',
-        reason: 'openocean-requires-sequential',
-      });
-      return { kind: 'skipped', reason: 'openocean-requires-sequential' };
-    }
-    if (!params.openOcean) {
-      throw new Error('OpenOcean candidate selected but OpenOcean client is missing');
-    }
 
-    const openOcean = params.openOcean;
     const account = params.wallet.publicKey.toBase58();
-    const swap1 = await (async () => {
+    const buildLeg = async (
+      i: 0 | 1,
+      skipExtra: Record<string, unknown>,
+      quote: ProviderQuote = best.quotes[i]!,
+    ): Promise<{ tx: VersionedTransaction; lastValidBlockHeight?: number } | undefined> => {
+      const provider = legProviders[i]!;
       try {
-        return await openOcean.swap({
-          inputMint: params.best.quote1.inputMint,
-          outputMint: params.best.quote1.outputMint,
-          amountAtomic: params.best.amountA,
-          slippageBps: params.best.quote1.slippageBps,
-          account,
+        const built = await provider.buildSwapTransaction({
+          quote,
+          userPublicKey: account,
+          computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
+          includeDexes: params.pair.includeDexes,
+          excludeDexes: params.pair.excludeDexes,
         });
+        params.best.trace.mark('swap_instructions');
+        built.tx.sign([params.wallet]);
+        return built;
       } catch (e) {
         if (breaker && isHttp429(e)) {
           await params.logEvent({
             ts: new Date().toISOString(),
             type: 'rate_limit',
             pair: params.pair.name,
-            provider: 'openocean',
+            provider: provider.id,
             status: 429,
             where: 'swap',
           });
-          breaker.open(openOceanBreakerKey, openOcean429CooldownMs);
+          breaker.open(`${provider.id}:${params.pair.name}`, provider.rateLimitCooldownMs);
           await params.logEvent({
             ts: new Date().toISOString(),
             type: 'skip',
             pair: params.pair.name,
-            provider: 'openocean',
+            provider: best.provider,
+            legProviders: logLegProviders,
             reason: 'rate-limited',
+            ...skipExtra,
           });
           return undefined;
         }
         throw e;
       }
-    })();
-    if (!swap1) return { kind: 'skipped', reason: 'rate-limited' };
-    const tx1 = deserializeOpenOceanSwapTx(swap1);
-    tx1.sign([params.wallet]);
+    };
+
+    const leg1 = await buildLeg(0, {});
+    if (!leg1) return { kind: 'skipped', reason: 'rate-limited' };
 
     if (params.mode === 'dry-run') {
       if (params.dryRunSimulate) {
-        const sim1 = await simulateSignedTx({ connection: params.connection, tx: tx1 });
-
-        const swap2 = await (async () => {
-          try {
-            return await openOcean.swap({
-              inputMint: params.best.quote2.inputMint,
-              outputMint: params.best.quote2.outputMint,
-              amountAtomic: params.best.quote1.otherAmountThreshold,
-              slippageBps: params.best.quote2.slippageBps,
-              account,
-            });
-          } catch (e) {
-            if (breaker && isHttp429(e)) {
-              await params.logEvent({
-                ts: new Date().toISOString(),
-                type: 'rate_limit',
-                pair: params.pair.name,
-                provider: 'openocean',
-                status: 429,
-                where: 'swap',
-              });
-              breaker.open(openOceanBreakerKey, openOcean429CooldownMs);
-              return undefined;
-            }
-            throw e;
-          }
-        })();
-        if (!swap2) return { kind: 'skipped', reason: 'rate-limited' };
-        const tx2 = deserializeOpenOceanSwapTx(swap2);
-        tx2.sign([params.wallet]);
-        const sim2 = await simulateSignedTx({ connection: params.connection, tx: tx2 });
+        const sim1 = await simulateSignedTx({ connection: params.connection, tx: leg1.tx });
+        const leg2 = await buildLeg(1, {});
+        if (!leg2) return { kind: 'skipped', reason: 'rate-limited' };
+        const sim2 = await simulateSignedTx({ connection: params.connection, tx: leg2.tx });
 
         const sim2Expected = isLikelyMissingIntermediateFunds(sim2);
         const sim2Note = sim2Expected
@@ -622,11 +1132,21 @@ export async function executeCandidate(params: {
         console.log(
           JSON.stringify(
             CONSOLE_VERBOSE
-              ? { ts: new Date().toISOString(), pair: params.pair.name, provider: 'openocean', sim1, sim2, sim2Expected, sim2Note }
+              ? {
+                  ts: new Date().toISOString(),
+                  pair: params.pair.name,
+                  provider: best.provider,
+                  legProviders: logLegProviders,
+                  sim1,
+                  sim2,
+                  sim2Expected,
+                  sim2Note,
+                }
               : {
                   ts: new Date().toISOString(),
                   pair: params.pair.name,
-                  provider: 'openocean',
+                  provider: best.provider,
+                  legProviders: logLegProviders,
                   sim1Err: sim1.err,
                   sim2Err: sim2.err,
                   sim2Expected,
@@ -638,7 +1158,8 @@ export async function executeCandidate(params: {
           ts: new Date().toISOString(),
           type: 'simulate',
           pair: params.pair.name,
-          provider: 'openocean',
+          provider: best.provider,
+          legProviders: logLegProviders,
           sim1,
           sim2,
           sim2Expected,
@@ -646,114 +1167,188 @@ export async function executeCandidate(params: {
         });
         return { kind: 'simulated' };
       }
-      console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: 'openocean', note: 'dry-run build-only' }));
-      await params.logEvent({ ts: new Date().toISOString(), type: 'built', pair: params.pair.name, provider: 'openocean' });
+      console.log(
+        JSON.stringify({
+          ts: new Date().toISOString(),
+          pair: params.pair.name,
+          provider: best.provider,
+          legProviders: logLegProviders,
+          note: 'dry-run build-only',
+        }),
+      );
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'built',
+        pair: params.pair.name,
+        provider: best.provider,
+        legProviders: logLegProviders,
+      });
       return { kind: 'built' };
     }
 
     if (params.livePreflightSimulate) {
-      const sim1 = await simulateSignedTx({ connection: params.connection, tx: tx1 });
+      const sim1 = await simulateSignedTx({ connection: params.connection, tx: leg1.tx });
+      params.best.trace.mark('preflight');
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'preflight',
         pair: params.pair.name,
-        provider: 'openocean',
+        provider: best.provider,
+        legProviders: logLegProviders,
         sequential: true,
         sim1Err: sim1.err,
       });
       if (sim1.err) {
         console.log(
-          JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: 'openocean', preflight: false, sim1Err: sim1.err }),
+          JSON.stringify({
+            ts: new Date().toISOString(),
+            pair: params.pair.name,
+            provider: best.provider,
+            legProviders: logLegProviders,
+            preflight: false,
+            sim1Err: sim1.err,
+          }),
         );
         return { kind: 'skipped', reason: 'preflight-failed' };
       }
     }
 
+    if (bundleSequentialLegs) {
+      const leg2 = await buildLeg(1, {});
+      if (!leg2) return { kind: 'skipped', reason: 'rate-limited' };
+      return await sendLegsAsBundle({ provider: best.provider, legs: [leg1.tx, leg2.tx], lastValidBlockHeight: leg2.lastValidBlockHeight });
+    }
+
+    const owner = params.wallet.publicKey;
+    const intermediateMint = best.quotes[0]!.outputMint;
+    const baselineB = await readMintBalanceAtomic({ connection: params.connection, owner, mint: intermediateMint });
     const latest = await params.connection.getLatestBlockhash('confirmed');
     const sig1 = await sendSignedTx({
+      trace: params.best.trace,
       connection: params.connection,
-      tx: tx1,
-      lastValidBlockHeight: swap1.lastValidBlockHeight ?? latest.lastValidBlockHeight,
+      tx: leg1.tx,
+      lastValidBlockHeight: leg1.lastValidBlockHeight ?? latest.lastValidBlockHeight,
     });
+    const { hold, logAbort, acceptLoss } = sequentialAbort(sig1, { provider: best.provider, legProviders: logLegProviders });
 
-    const swap2 = await (async () => {
-      try {
-        return await openOcean.swap({
-          inputMint: params.best.quote2.inputMint,
-          outputMint: params.best.quote2.outputMint,
-          amountAtomic: params.best.quote1.otherAmountThreshold,
-          slippageBps: params.best.quote2.slippageBps,
-          account,
-        });
-      } catch (e) {
-        if (breaker && isHttp429(e)) {
-          await params.logEvent({
-            ts: new Date().toISOString(),
-            type: 'rate_limit',
-            pair: params.pair.name,
-            provider: 'openocean',
-            status: 429,
-            where: 'swap',
-          });
-          breaker.open(openOceanBreakerKey, openOcean429CooldownMs);
-          await params.logEvent({
-            ts: new Date().toISOString(),
-            type: 'skip',
-            pair: params.pair.name,
-            provider: 'openocean',
-            reason: 'rate-limited',
-            sig1,
+    const filledB = await waitForLegFill({
+      connection: params.connection,
+      signature: sig1,
+      owner,
+      mint: intermediateMint,
+      baseline: baselineB,
+      maxWaitMs: params.sequentialLeg2MaxWaitMs,
+      pollMs: params.sequentialLeg2PollMs,
+    });
+    if (filledB === undefined) {
+      await logAbort('leg1-fill-not-observed', { maxWaitMs: params.sequentialLeg2MaxWaitMs });
+      return await hold('leg1-fill-not-observed', {});
+    }
+    const leg2AmountB = filledB;
+
+    const planned2 = best.quotes[1]!;
+    const provider2 = legProviders[1]!;
+    const { includeDexes, excludeDexes } = params.pair;
+    let quote2: ProviderQuote;
+    try {
+      quote2 = provider2.executionQuote
+        ? await provider2.executionQuote({ quote: planned2, amount: leg2AmountB.toString(), includeDexes, excludeDexes })
+        : await provider2.quoteExactIn({
+            inputMint: intermediateMint,
+            outputMint: planned2.outputMint,
+            amount: leg2AmountB.toString(),
+            slippageBps: planned2.slippageBps,
+            includeDexes,
+            excludeDexes,
           });
-          return undefined;
-        }
-        throw e;
+    } catch (e) {
+      const failed = { leg2AmountB: leg2AmountB.toString(), error: String(e) };
+      if (params.sequentialAbortMode === 'hold' || leg2AmountB < BigInt(planned2.inAmount)) {
+        await logAbort('leg2-requote-failed', failed);
+        return await hold('leg2-requote-failed', { leg2AmountB: leg2AmountB.toString() });
       }
-    })();
-    if (!swap2) return { kind: 'skipped', reason: 'rate-limited' };
-    const tx2 = deserializeOpenOceanSwapTx(swap2);
-    tx2.sign([params.wallet]);
+      await acceptLoss('leg2-requote-failed', failed);
+      quote2 = planned2;
+    }
+
+    const amountA = BigInt(best.amountA);
+    const floorA = (amountA * BigInt(10_000 - Math.min(10_000, params.sequentialLeg2MaxLossBps))) / 10_000n;
+    const leg2MinOutA = BigInt(quote2.otherAmountThreshold);
+    if (leg2MinOutA < floorA) {
+      const loss = {
+        leg2AmountB: leg2AmountB.toString(),
+        leg2MinOutA: leg2MinOutA.toString(),
+        amountA: amountA.toString(),
+        maxLossBps: params.sequentialLeg2MaxLossBps,
+      };
+      if (params.sequentialAbortMode === 'hold') {
+        await logAbort('leg2-requote-loss', loss);
+        return await hold('leg2-requote-loss', { leg2AmountB: leg2AmountB.toString() });
+      }
+      await acceptLoss('leg2-requote-loss', loss);
+    }
+
+    const leg2 = await buildLeg(1, { sig1 }, quote2);
+    if (!leg2) return await hold('rate-limited', { leg2AmountB: leg2AmountB.toString() });
 
     if (params.livePreflightSimulate) {
-      const sim2 = await simulateSignedTx({ connection: params.connection, tx: tx2 });
+      const sim2 = await simulateSignedTx({ connection: params.connection, tx: leg2.tx });
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'preflight',
         pair: params.pair.name,
-        provider: 'openocean',
+        provider: best.provider,
+        legProviders: logLegProviders,
         sequential: true,
         leg: 2,
         sim2Err: sim2.err,
       });
       if (sim2.err) {
-        console.log(
-          JSON.stringify({
-            ts: new Date().toISOString(),
-            pair: params.pair.name,
-            provider: 'openocean',
-            preflight: false,
-            sequential: true,
-            leg: 2,
-            sig1,
-            sim2Err: sim2.err,
-          }),
-        );
-        return { kind: 'skipped', reason: 'preflight-failed-leg2' };
+        await logAbort('preflight-failed-leg2', { sim2Err: sim2.err });
+        return await hold('preflight-failed-leg2', { leg2AmountB: leg2AmountB.toString() });
       }
     }
 
     const sig2 = await sendSignedTx({
+      trace: params.best.trace,
       connection: params.connection,
-      tx: tx2,
-      lastValidBlockHeight: swap2.lastValidBlockHeight ?? latest.lastValidBlockHeight,
+      tx: leg2.tx,
+      lastValidBlockHeight: leg2.lastValidBlockHeight ?? (await params.connection.getLatestBlockhash('confirmed')).lastValidBlockHeight,
     });
 
-    console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, provider: 'openocean', sig1, sig2 }));
-    await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, provider: 'openocean', sig1, sig2 });
-    const pnl = await emitPnl({ provider: 'openocean', extra: { sig1, sig2 } });
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        pair: params.pair.name,
+        provider: best.provider,
+        legProviders: logLegProviders,
+        sig1,
+        sig2,
+        leg2AmountB: leg2AmountB.toString(),
+      }),
+    );
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'executed',
+      pair: params.pair.name,
+      provider: best.provider,
+      legProviders: logLegProviders,
+      sig1,
+      sig2,
+      sequential: true,
+      leg1FilledB: filledB.toString(),
+      leg2AmountB: leg2AmountB.toString(),
+      leg2OutA: quote2.outAmount,
+    });
+    const pnl = await emitPnl({
+      provider: best.provider,
+      extra: { sig1, sig2, legProviders: logLegProviders, sequential: true, leg2AmountB: leg2AmountB.toString() },
+    });
     return { kind: 'executed', pnl };
   }
 
-  if (params.execJupiter.kind === 'ultra') {
+  // Ultra re-orders every leg itself, so it only takes over plain Jupiter candidates.
+  if (params.execJupiter.kind === 'ultra' && params.best.provider === 'jupiter') {
     const ultra = params.execJupiter;
     if (breaker?.isOpen(ultraBreakerKey)) {
       await params.logEvent({
@@ -778,15 +1373,16 @@ export async function executeCandidate(params: {
       return { kind: 'skipped', reason: 'ultra-requires-sequential' };
     }
 
-    if (params.pair.cMint) {
+    if (params.best.path.length > 2) {
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'skip',
         pair: params.pair.name,
         ultra: true,
-        reason: 'ultra-does-not-support-triangular',
+        reason: 'ultra-does-not-support-multi-leg',
+        legs: params.best.path.length,
       });
-      return { kind: 'skipped', reason: 'ultra-does-not-support-triangular' };
+      return { kind: 'skipped', reason: 'ultra-does-not-support-multi-leg' };
     }
 
     if (params.pair.aMint !== SOL_MINT) {
@@ -801,10 +1397,6 @@ export async function executeCandidate(params: {
       return { kind: 'skipped', reason: 'ultra-requires-sol-amint' };
     }
 
-    if (params.best.kind !== 'loop') {
-      throw new Error('Ultra execution only supports loop candidates');
-    }
-
     const taker = params.wallet.publicKey.toBase58();
     const excludeDexes = params.pair.excludeDexes?.length ? params.pair.excludeDexes.join(',') : undefined;
 
@@ -930,6 +1522,20 @@ export async function executeCandidate(params: {
       }
     }
 
+    if (bundleSequentialLegs) {
+      if (isFullySigned(tx1) && isFullySigned(tx2)) {
+        return await sendLegsAsBundle({ provider: 'ultra', legs: [tx1, tx2] });
+      }
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'jito_bundle',
+        pair: params.pair.name,
+        provider: 'ultra',
+        sequential: true,
+        skipped: 'ultra-order-needs-cosigner',
+      });
+    }
+
     const signed1 = Buffer.from(tx1.serialize()).toString('base64');
     const exec1 = await (async () => {
       try {
@@ -1033,40 +1639,267 @@ export async function executeCandidate(params: {
     return { kind: 'executed', pnl };
   }
 
-  if (params.best.kind === 'triangular' && params.executionStrategy !== 'atomic') {
+  if (params.best.quotes.length > 2 && params.executionStrategy !== 'atomic') {
     await params.logEvent({
       ts: new Date().toISOString(),
       type: 'skip',
       pair: params.pair.name,
-      reason: 'triangular-requires-atomic',
+      reason: 'multi-leg-requires-atomic',
+      legs: params.best.quotes.length,
     });
-    return { kind: 'skipped', reason: 'triangular-requires-atomic' };
+    return { kind: 'skipped', reason: 'multi-leg-requires-atomic' };
   }
 
-  const quotes: QuoteResponse[] =
-    params.best.kind === 'triangular' ? [params.best.quote1, params.best.quote2, params.best.quote3] : [params.best.quote1, params.best.quote2];
+  const quotes = params.best.quotes;
 
   if (params.executionStrategy === 'atomic') {
+    const notComposable = legProviders.find((p) => !p.capabilities.atomicComposable);
+    if (notComposable) {
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'skip',
+        pair: params.pair.name,
+        provider: params.best.provider,
+        legProviders: logLegProviders,
+        reason: `${notComposable.id}-requires-sequential`,
+      });
+      return { kind: 'skipped', reason: `${notComposable.id}-requires-sequential` };
+    }
+
     const wantJito = params.mode === 'live' && params.jitoEnabled;
     const tipLamports = wantJito ? params.best.jitoTipLamports : 0;
     const tipAccount =
       wantJito && tipLamports > 0 ? new PublicKey(getJitoTipAccountAddress(params.jitoTipAccount)) : undefined;
 
-    const built = await buildAtomicPathTransaction({
-      connection: params.connection,
-      wallet: params.wallet,
-      jupiter: params.execJupiter,
-      legs: quotes,
-      computeUnitLimit: params.computeUnitLimit,
-      computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
-      jitoTipLamports: tipAccount ? tipLamports : undefined,
-      jitoTipAccount: tipAccount,
-      lookupTableCache: params.lookupTableCache,
+    const buildAtomic = async (legs: ProviderQuote[]) =>
+      await buildAtomicPathTransaction({
+        connection: params.connection,
+        wallet: params.wallet,
+        router: params.providers,
+        legs,
+        computeUnitLimit: params.computeUnitLimit,
+        computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
+        jitoTipLamports: tipAccount ? tipLamports : undefined,
+        jitoTipAccount: tipAccount,
+        lookupTableCache: params.lookupTableCache,
+        ownLookupTables: params.lookupTableManager?.lookupTables(),
+        includeDexes: params.pair.includeDexes,
+        excludeDexes: params.pair.excludeDexes,
+        trace: params.best.trace,
+      });
+    const preflightMode = params.atomicPreflight ?? 'off';
+    const analyze = async (tx: VersionedTransaction) => {
+      const preflight = await analyzeAtomicTransaction({
+        connection: params.connection,
+        tx,
+        computeUnitLimit: params.computeUnitLimit,
+        simulate: preflightMode === 'simulate',
+      });
+      if (preflight.unitsConsumed !== undefined) params.best.trace.mark('preflight');
+      return preflight;
+    };
+
+    let legs = quotes;
+    let built = await buildAtomic(legs);
+    let preflight: AtomicPreflight | undefined;
+    if (preflightMode !== 'off') {
+      preflight = await analyze(built.tx);
+      const overflow = atomicOverflowReason(preflight);
+      if (overflow) {
+        await params.logEvent({
+          ts: new Date().toISOString(),
+          type: 'atomic_overflow',
+          pair: params.pair.name,
+          reason: overflow,
+          legs: legs.length,
+          routeHops: legs.map((q) => q.routeHops),
+          sizeBytes: preflight.sizeBytes,
+          maxBytes: preflight.maxBytes,
+          unitsConsumed: preflight.unitsConsumed,
+          computeUnitLimit: preflight.computeUnitLimit,
+        });
+
+        // Smaller routes first keep the loop atomic; each retry must still clear minProfit when the original did.
+        const maxAccounts = Math.max(0, Math.floor(params.atomicFallbackMaxAccounts ?? 0));
+        const attempts: Array<{ onlyDirectRoutes?: boolean; maxAccounts?: number }> = legProviders.some(
+          (p) => p.capabilities.routeLimits,
+        )
+          ? [...(maxAccounts > 0 ? [{ maxAccounts }] : []), { onlyDirectRoutes: true }]
+          : [];
+        let fitted = false;
+        for (const limits of attempts) {
+          let retried: Candidate;
+          try {
+            retried = await requoteWithRouteLimits({ providers: params.providers, pair: params.pair, best: params.best, limits });
+          } catch (error) {
+            await params.logEvent({
+              ts: new Date().toISOString(),
+              type: 'atomic_retry',
+              pair: params.pair.name,
+              ...limits,
+              result: 'quote-error',
+              error: String(error),
+            });
+            continue;
+          }
+          if (params.best.decision.profitable && !retried.decision.profitable) {
+            await params.logEvent({
+              ts: new Date().toISOString(),
+              type: 'atomic_retry',
+              pair: params.pair.name,
+              ...limits,
+              result: 'not-profitable',
+              conservativeProfit: retried.decision.conservativeProfit,
+            });
+            continue;
+          }
+          const rebuilt = await buildAtomic(retried.quotes);
+          const check = await analyze(rebuilt.tx);
+          const stillOverflows = atomicOverflowReason(check);
+          await params.logEvent({
+            ts: new Date().toISOString(),
+            type: 'atomic_retry',
+            pair: params.pair.name,
+            ...limits,
+            result: stillOverflows ?? 'fits',
+            routeHops: retried.quotes.map((q) => q.routeHops),
+            sizeBytes: check.sizeBytes,
+            unitsConsumed: check.unitsConsumed,
+            conservativeProfit: retried.decision.conservativeProfit,
+          });
+          if (stillOverflows) continue;
+          legs = retried.quotes;
+          built = rebuilt;
+          preflight = check;
+          fitted = true;
+          break;
+        }
+
+        if (!fitted) {
+          if (params.atomicFallbackSequential && quotes.length === 2) {
+            const best = withSequentialFees(params.pair, params.best);
+            await params.logEvent({
+              ts: new Date().toISOString(),
+              type: 'atomic_fallback',
+              pair: params.pair.name,
+              reason: overflow,
+              fallback: 'sequential',
+              feeEstimateLamports: best.feeEstimateLamports,
+              conservativeProfit: best.decision.conservativeProfit,
+              profitable: best.decision.profitable,
+            });
+            if (params.best.decision.profitable && !best.decision.profitable) {
+              await params.logEvent({ ts: new Date().toISOString(), type: 'skip', pair: params.pair.name, reason: 'atomic-fallback-not-profitable' });
+              return { kind: 'skipped', reason: 'atomic-fallback-not-profitable' };
+            }
+            return await executeCandidateInner({ ...params, best, executionStrategy: 'sequential' });
+          }
+          await params.logEvent({ ts: new Date().toISOString(), type: 'skip', pair: params.pair.name, reason: overflow });
+          return { kind: 'skipped', reason: overflow };
+        }
+      }
+    }
+
+    // COMPUTE_UNIT_FIT: the limit comes from a recent sample of the route or, without one, from simulating this build
+    // (the pre-flight's simulation when it ran one). A simulation that fails keeps the configured limit.
+    let computeUnitLimit = params.computeUnitLimit;
+    const cuHistory = params.computeUnitHistory;
+    const cuRouteKey = computeUnitRouteKey(legs);
+    if (cuHistory) {
+      let fitted = cuHistory.limitFor(cuRouteKey, params.computeUnitLimit);
+      let source: 'history' | 'simulation' = 'history';
+      let unitsConsumed: number | undefined;
+      let simErr: unknown;
+      if (fitted === undefined) {
+        source = 'simulation';
+        const sim =
+          preflight?.unitsConsumed !== undefined
+            ? preflight
+            : await analyzeAtomicTransaction({
+                connection: params.connection,
+                tx: built.tx,
+                computeUnitLimit: params.computeUnitLimit,
+                simulate: true,
+              });
+        params.best.trace.mark('preflight');
+        unitsConsumed = sim.unitsConsumed;
+        simErr = sim.simErr;
+        if (!sim.simErr && sim.unitsConsumed) {
+          cuHistory.record(cuRouteKey, sim.unitsConsumed);
+          fitted = cuHistory.limitFor(cuRouteKey, params.computeUnitLimit);
+        }
+      }
+      if (fitted !== undefined && fitted < computeUnitLimit) computeUnitLimit = fitted;
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'cu_fit',
+        pair: params.pair.name,
+        source,
+        unitsConsumed,
+        simErr,
+        computeUnitLimit,
+        maxComputeUnitLimit: params.computeUnitLimit,
+      });
+    }
+
+    const routeAccounts = swapRouteAccounts({
+      accounts: built.swapInstructionAccounts,
+      owner: params.wallet.publicKey,
+      mints: params.best.path,
     });
 
+    // PRIORITY_FEE_PER_ACCOUNT: the price is re-estimated for the writable accounts the assembled swaps lock. The fee
+    // difference from the scan's price (converted at the candidate's fee rate) moves the conservative profit, and a
+    // profitable candidate that no longer clears minProfit is dropped.
+    let computeUnitPriceMicroLamports = params.computeUnitPriceMicroLamports;
+    if (params.priorityFeeEstimator && params.pair.computeUnitPriceMicroLamports === undefined && routeAccounts.length) {
+      const estimate = await params.priorityFeeEstimator.getMicroLamports({
+        connection: params.connection,
+        lockedWritableAccounts: routeAccounts,
+      });
+      const price = params.priorityFeeBid ? Math.max(estimate, computeUnitPriceMicroLamports) : estimate;
+      if (price !== computeUnitPriceMicroLamports) {
+        const extraLamports = (BigInt(computeUnitLimit) * BigInt(price - computeUnitPriceMicroLamports)) / 1_000_000n;
+        const feeLamports = BigInt(params.best.feeEstimateLamports);
+        const extraInA =
+          params.best.feeEstimateInA === undefined
+            ? extraLamports
+            : feeLamports > 0n
+              ? (extraLamports * BigInt(params.best.feeEstimateInA)) / feeLamports
+              : 0n;
+        const conservativeProfit = BigInt(params.best.decision.conservativeProfit) - extraInA;
+        const minProfit = BigInt(
+          computeMinProfitA({ amountA: params.best.amountA, minProfitA: params.pair.minProfitA, minProfitBps: params.pair.minProfitBps }),
+        );
+        await params.logEvent({
+          ts: new Date().toISOString(),
+          type: 'priority_fee',
+          pair: params.pair.name,
+          accounts: routeAccounts.length,
+          scanMicroLamports: computeUnitPriceMicroLamports,
+          buildMicroLamports: price,
+          computeUnitLimit,
+          conservativeProfit: conservativeProfit.toString(),
+        });
+        if (params.best.decision.profitable && conservativeProfit < minProfit) {
+          await params.logEvent({ ts: new Date().toISOString(), type: 'skip', pair: params.pair.name, reason: 'priority-fee-not-profitable' });
+          return { kind: 'skipped', reason: 'priority-fee-not-profitable' };
+        }
+        computeUnitPriceMicroLamports = price;
+      }
+    }
+
+    if (computeUnitLimit !== params.computeUnitLimit || computeUnitPriceMicroLamports !== params.computeUnitPriceMicroLamports) {
+      built = { ...built, tx: built.withComputeBudget({ computeUnitLimit, computeUnitPriceMicroLamports }) };
+    }
+
+    params.lookupTableManager?.observe(built.lookupableKeys);
+    params.routeWatcher?.noteAccounts(params.pair.name, routeAccounts);
+
     if (params.mode === 'dry-run') {
       if (params.dryRunSimulate) {
         const sim = await simulateSignedTx({ connection: params.connection, tx: built.tx });
+        params.best.trace.mark('preflight');
         console.log(
           JSON.stringify(
             CONSOLE_VERBOSE
@@ -1082,10 +1915,19 @@ export async function executeCandidate(params: {
           ),
         );
         await params.logEvent({ ts: new Date().toISOString(), type: 'simulate', pair: params.pair.name, atomic: true, sim });
+        if (isComputeBudgetExceeded(sim)) cuHistory?.forget(cuRouteKey);
         return { kind: 'simulated' };
       }
       console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, atomic: true, lookupTables: built.lookupTableAddresses.length, lastValidBlockHeight: built.lastValidBlockHeight, note: 'dry-run build-only' }));
-      await params.logEvent({ ts: new Date().toISOString(), type: 'built', pair: params.pair.name, atomic: true, lookupTables: built.lookupTableAddresses.length });
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'built',
+        pair: params.pair.name,
+        atomic: true,
+        lookupTables: built.lookupTableAddresses.length,
+        sizeBytes: preflight?.sizeBytes,
+        unitsConsumed: preflight?.unitsConsumed,
+      });
       return { kind: 'built' };
     }
 
@@ -1093,6 +1935,7 @@ export async function executeCandidate(params: {
 
     if (params.livePreflightSimulate) {
       const sim = await simulateSignedTx({ connection: params.connection, tx: built.tx });
+      params.best.trace.mark('preflight');
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'preflight',
@@ -1103,6 +1946,8 @@ export async function executeCandidate(params: {
       });
 
       if (sim.err) {
+        // A fitted limit that no longer covers the route is dropped; the next build simulates again.
+        if (isComputeBudgetExceeded(sim)) cuHistory?.forget(cuRouteKey);
         console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, preflight: false, err: sim.err }));
         return { kind: 'skipped', reason: 'preflight-failed' };
       }
@@ -1111,18 +1956,24 @@ export async function executeCandidate(params: {
     if (wantJito) {
       const sentAt = Date.now();
       let bundleId: string | undefined;
+      let blockEngineUrl: string | undefined;
+      let region: string | undefined;
       let result: any | undefined;
       let jitoError: string | undefined;
 
       try {
         const sent = await sendBundleViaJito({
-          blockEngineUrl: params.jitoBlockEngineUrl,
+          pool: params.jitoSearcherPool ?? jitoSearcherPoolFor(params.jitoBlockEngineUrl),
           authKeypair: params.wallet,
-          transaction: built.tx,
+          transactions: [built.tx],
           waitMs: params.jitoWaitMs,
+          onAccepted: () => params.best.trace.mark('jito_accept'),
         });
         bundleId = sent.bundleId;
+        blockEngineUrl = sent.blockEngineUrl;
+        region = sent.region;
         result = sent.result;
+        if (result) params.best.trace.mark('jito_result');
       } catch (e) {
         jitoError = String(e);
       }
@@ -1132,6 +1983,9 @@ export async function executeCandidate(params: {
         type: 'jito_bundle',
         pair: params.pair.name,
         signature,
+        tipLamports,
+        blockEngineUrl,
+        region,
         bundleId,
         waitMs: params.jitoWaitMs,
         latencyMs: Date.now() - sentAt,
@@ -1149,20 +2003,25 @@ export async function executeCandidate(params: {
         const rebuilt = await buildAtomicPathTransaction({
           connection: params.connection,
           wallet: params.wallet,
-          jupiter: params.execJupiter,
-          legs: quotes,
-          computeUnitLimit: params.computeUnitLimit,
-          computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
+          router: params.providers,
+          legs,
+          computeUnitLimit,
+          computeUnitPriceMicroLamports,
           lookupTableCache: params.lookupTableCache,
+          ownLookupTables: params.lookupTableManager?.lookupTables(),
+          includeDexes: params.pair.includeDexes,
+          excludeDexes: params.pair.excludeDexes,
+          trace: params.best.trace,
         });
         const rpcSig = await sendSignedTx({
+          trace: params.best.trace,
           connection: params.connection,
           tx: rebuilt.tx,
           lastValidBlockHeight: rebuilt.lastValidBlockHeight,
         });
         console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, atomic: true, jito: true, bundleId, signature, fallbackRpc: true, rpcSig }));
         await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, atomic: true, jito: true, bundleId, signature, fallbackRpc: true, rpcSig });
-        const pnl = await emitPnl({ provider: 'jupiter', extra: { signature, rpcSig, atomic: true, jito: true, bundleId, fallbackRpc: true } });
+        const pnl = await emitPnl({ provider: params.best.provider, extra: { signature, rpcSig, atomic: true, jito: true, bundleId, fallbackRpc: true } });
         return { kind: 'executed', pnl };
       }
 
@@ -1171,72 +2030,208 @@ export async function executeCandidate(params: {
           { signature, blockhash: built.tx.message.recentBlockhash, lastValidBlockHeight: built.lastValidBlockHeight },
           'confirmed',
         );
+        params.best.trace.mark('confirm');
       } catch (e) {
         await params.logEvent({ ts: new Date().toISOString(), type: 'confirm_error', pair: params.pair.name, signature, error: String(e) });
       }
 
       console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, atomic: true, jito: true, bundleId, signature }));
       await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, atomic: true, jito: true, bundleId, signature });
-      const pnl = await emitPnl({ provider: 'jupiter', extra: { signature, atomic: true, jito: true, bundleId } });
+      const pnl = await emitPnl({ provider: params.best.provider, extra: { signature, atomic: true, jito: true, bundleId } });
       return { kind: 'executed', pnl };
     }
 
-    const sentSignature = await sendSignedTx({ connection: params.connection, tx: built.tx, lastValidBlockHeight: built.lastValidBlockHeight });
+    const sentSignature = await sendSignedTx({
+      connection: params.connection,
+      tx: built.tx,
+      lastValidBlockHeight: built.lastValidBlockHeight,
+      trace: params.best.trace,
+    });
     console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, atomic: true, signature: sentSignature }));
     await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, atomic: true, signature: sentSignature });
-    const pnl = await emitPnl({ provider: 'jupiter', extra: { signature: sentSignature, atomic: true } });
+    const pnl = await emitPnl({ provider: params.best.provider, extra: { signature: sentSignature, atomic: true } });
     return { kind: 'executed', pnl };
   }
 
-  if (params.best.kind === 'triangular') {
-    throw new Error('triangular execution reached sequential path unexpectedly');
+  if (quotes.length !== 2) {
+    throw new Error(`${quotes.length}-leg execution reached sequential path unexpectedly`);
   }
 
-  const swap1 = await params.execJupiter.buildSwapTransaction({
-    quote: quotes[0],
-    userPublicKey: params.wallet.publicKey.toBase58(),
-    computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
-  });
-  const swap2 = await params.execJupiter.buildSwapTransaction({
-    quote: quotes[1],
-    userPublicKey: params.wallet.publicKey.toBase58(),
-    computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
-  });
+  const primary = params.providers.primary;
+  const owner = params.wallet.publicKey;
+  const buildSigned = async (quote: ProviderQuote) => {
+    const built = await params.providers.buildSwapTransaction({
+      quote,
+      userPublicKey: owner.toBase58(),
+      computeUnitPriceMicroLamports: params.computeUnitPriceMicroLamports,
+      includeDexes: params.pair.includeDexes,
+      excludeDexes: params.pair.excludeDexes,
+    });
+    params.best.trace.mark('swap_instructions');
+    built.tx.sign([params.wallet]);
+    return built;
+  };
+
+  const swap1 = await buildSigned(quotes[0]);
 
   if (params.mode === 'live') {
+    // Leg 2 is only built after leg 1 lands, sized from the intermediate balance it actually delivered.
+    const leg2MaxWaitMs = params.sequentialLeg2MaxWaitMs;
+    const leg2PollMs = params.sequentialLeg2PollMs;
+    const leg2MaxLossBps = params.sequentialLeg2MaxLossBps;
+    const abortMode = params.sequentialAbortMode;
+
     if (params.livePreflightSimulate) {
-      const sim1 = await simulateV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap1.swapTransaction });
-      const sim2 = await simulateV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap2.swapTransaction });
+      const sim1 = await simulateSignedTx({ connection: params.connection, tx: swap1.tx });
+      params.best.trace.mark('preflight');
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'preflight',
         pair: params.pair.name,
         sequential: true,
+        leg: 1,
         sim1Err: sim1.err,
-        sim2Err: sim2.err,
       });
-      if (sim1.err || sim2.err) {
-        console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, preflight: false, sequential: true, sim1Err: sim1.err, sim2Err: sim2.err }));
+      if (sim1.err) {
+        console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, preflight: false, sequential: true, sim1Err: sim1.err }));
         return { kind: 'skipped', reason: 'preflight-failed' };
       }
     }
 
-    const sig1 = await signAndSendV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap1.swapTransaction, lastValidBlockHeight: swap1.lastValidBlockHeight });
-    const sig2 = await signAndSendV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap2.swapTransaction, lastValidBlockHeight: swap2.lastValidBlockHeight });
-    console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, sig1, sig2 }));
-    await params.logEvent({ ts: new Date().toISOString(), type: 'executed', pair: params.pair.name, sig1, sig2 });
-    const pnl = await emitPnl({ provider: 'jupiter', extra: { sig1, sig2, sequential: true } });
+    if (bundleSequentialLegs) {
+      // quotes[1] was quoted for leg 1's min-out, which is what the bundled leg 2 sells.
+      const swap2 = await buildSigned(quotes[1]);
+      params.best.trace.mark('sign');
+      return await sendLegsAsBundle({ provider: params.best.provider, legs: [swap1.tx, swap2.tx], lastValidBlockHeight: swap2.lastValidBlockHeight });
+    }
+
+    const intermediateMint = quotes[0].outputMint;
+    const baselineB = await readMintBalanceAtomic({ connection: params.connection, owner, mint: intermediateMint });
+    const latest = await params.connection.getLatestBlockhash('confirmed');
+    params.best.trace.mark('sign');
+    const sig1 = await sendSignedTx({
+      connection: params.connection,
+      tx: swap1.tx,
+      lastValidBlockHeight: swap1.lastValidBlockHeight ?? latest.lastValidBlockHeight,
+      trace: params.best.trace,
+    });
+
+    const { hold, logAbort, acceptLoss } = sequentialAbort(sig1, {});
+
+    const filledB = await waitForLegFill({
+      connection: params.connection,
+      signature: sig1,
+      owner,
+      mint: intermediateMint,
+      baseline: baselineB,
+      maxWaitMs: leg2MaxWaitMs,
+      pollMs: leg2PollMs,
+    });
+    // Without an observed fill there is nothing known to sell: leg 2 could only spend B the wallet already held.
+    if (filledB === undefined) {
+      await logAbort('leg1-fill-not-observed', { maxWaitMs: leg2MaxWaitMs });
+      return await hold('leg1-fill-not-observed', {});
+    }
+    const leg2AmountB = filledB;
+
+    let quote2: ProviderQuote;
+    try {
+      quote2 = await primary.quoteExactIn({
+        inputMint: intermediateMint,
+        outputMint: quotes[1].outputMint,
+        amount: leg2AmountB.toString(),
+        slippageBps: quotes[1].slippageBps,
+        includeDexes: params.pair.includeDexes,
+        excludeDexes: params.pair.excludeDexes,
+      });
+    } catch (e) {
+      const failed = { leg2AmountB: leg2AmountB.toString(), error: String(e) };
+      if (abortMode === 'hold' || leg2AmountB < BigInt(quotes[1].inAmount)) {
+        await logAbort('leg2-requote-failed', failed);
+        return await hold('leg2-requote-failed', { leg2AmountB: leg2AmountB.toString() });
+      }
+      await acceptLoss('leg2-requote-failed', failed);
+      quote2 = quotes[1];
+    }
+
+    const amountA = BigInt(params.best.amountA);
+    const floorA = (amountA * BigInt(10_000 - Math.min(10_000, leg2MaxLossBps))) / 10_000n;
+    const leg2MinOutA = BigInt(quote2.otherAmountThreshold);
+    if (leg2MinOutA < floorA) {
+      const loss = {
+        leg2AmountB: leg2AmountB.toString(),
+        leg2MinOutA: leg2MinOutA.toString(),
+        amountA: amountA.toString(),
+        maxLossBps: leg2MaxLossBps,
+      };
+      if (abortMode === 'hold') {
+        await logAbort('leg2-requote-loss', loss);
+        return await hold('leg2-requote-loss', { leg2AmountB: leg2AmountB.toString() });
+      }
+      await acceptLoss('leg2-requote-loss', loss);
+    }
+
+    const swap2 = await buildSigned(quote2);
+
+    if (params.livePreflightSimulate) {
+      const sim2 = await simulateSignedTx({ connection: params.connection, tx: swap2.tx });
+      params.best.trace.mark('preflight');
+      await params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'preflight',
+        pair: params.pair.name,
+        sequential: true,
+        leg: 2,
+        sim2Err: sim2.err,
+      });
+      if (sim2.err) {
+        await logAbort('preflight-failed-leg2', { sim2Err: sim2.err });
+        return await hold('preflight-failed-leg2', { leg2AmountB: leg2AmountB.toString() });
+      }
+    }
+
+    params.best.trace.mark('sign');
+    const sig2 = await sendSignedTx({
+      connection: params.connection,
+      tx: swap2.tx,
+      lastValidBlockHeight: swap2.lastValidBlockHeight ?? (await params.connection.getLatestBlockhash('confirmed')).lastValidBlockHeight,
+      trace: params.best.trace,
+    });
+    console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, sig1, sig2, leg2AmountB: leg2AmountB.toString() }));
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'executed',
+      pair: params.pair.name,
+      sig1,
+      sig2,
+      sequential: true,
+      leg1FilledB: filledB.toString(),
+      leg2AmountB: leg2AmountB.toString(),
+      leg2OutA: quote2.outAmount,
+    });
+    const pnl = await emitPnl({ provider: params.best.provider, extra: { sig1, sig2, sequential: true, leg2AmountB: leg2AmountB.toString() } });
     return { kind: 'executed', pnl };
   }
 
+  const swap2 = await buildSigned(quotes[1]);
+
   if (!params.dryRunSimulate) {
-    console.log(JSON.stringify({ ts: new Date().toISOString(), pair: params.pair.name, sequential: true, swap1B64Len: swap1.swapTransaction.length, swap2B64Len: swap2.swapTransaction.length, note: 'dry-run build-only' }));
+    console.log(
+      JSON.stringify({
+        ts: new Date().toISOString(),
+        pair: params.pair.name,
+        sequential: true,
+        tx1Bytes: swap1.tx.serialize().length,
+        tx2Bytes: swap2.tx.serialize().length,
+        note: 'dry-run build-only',
+      }),
+    );
     await params.logEvent({ ts: new Date().toISOString(), type: 'built', pair: params.pair.name, sequential: true });
     return { kind: 'built' };
   }
 
-  const sim1 = await simulateV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap1.swapTransaction });
-  const sim2 = await simulateV6Swap({ connection: params.connection, wallet: params.wallet, swapTransactionB64: swap2.swapTransaction });
+  const sim1 = await simulateSignedTx({ connection: params.connection, tx: swap1.tx });
+  const sim2 = await simulateSignedTx({ connection: params.connection, tx: swap2.tx });
   console.log(
     JSON.stringify(
       CONSOLE_VERBOSE
@@ -0,0 +1,302 @@
+import type { Connection } from '@solana/web3.js';
+
+import { fetchJson } from '../lib/http.js';
+import type { LogEvent, Logger } from '../lib/logger.js';
+import { jitoRegionFromUrl } from './jitoSender.js';
+
+export type JitoBundleOutcome = 'accepted' | 'rejected' | 'dropped' | 'landed';
+
+type OutcomeCounts = Record<JitoBundleOutcome, number>;
+
+type PendingBundle = {
+  bundleId: string;
+  pair?: string;
+  blockEngineUrl?: string;
+  region: string;
+  tipLamports: number;
+  signatures: string[];
+  sentAtMs: number;
+};
+
+type InflightStatus = { bundle_id: string; status: 'Invalid' | 'Pending' | 'Failed' | 'Landed'; landed_slot?: number | null };
+
+// getInflightBundleStatuses accepts at most 5 bundle ids per call.
+const INFLIGHT_BATCH = 5;
+
+function emptyCounts(): OutcomeCounts {
+  return { accepted: 0, rejected: 0, dropped: 0, landed: 0 };
+}
+
+// Tips are bucketed by power of two so dynamic/adaptive tips still aggregate into a handful of levels.
+export function jitoTipLevel(tipLamports: number) {
+  if (!Number.isFinite(tipLamports) || tipLamports <= 0) return 0;
+  return 2 ** Math.floor(Math.log2(tipLamports));
+}
+
+function asString(value: unknown) {
+  return typeof value === 'string' && value.length > 0 ? value : undefined;
+}
+
+// Follows every `jito_bundle` event until it lands, is rejected or is dropped (blockhash window passed), so landing
+// rates are known even with JITO_WAIT_MS=0. Landing is read from the RPC (any bundle signature confirmed means the
+// whole bundle landed); rejections come from the send error, the JITO_WAIT_MS stream or the block engine's
+// inflight status.
+export class JitoBundleTracker {
+  private readonly pending = new Map<string, PendingBundle>();
+  private readonly byTipLevel = new Map<number, OutcomeCounts>();
+  private readonly byRegion = new Map<string, OutcomeCounts>();
+  private readonly listeners: Array<(outcome: JitoBundleOutcome, bundle: { region: string; tipLamports: number }) => void> = [];
+  private timer: NodeJS.Timeout | undefined;
+  private polling = false;
+
+  constructor(
+    private readonly deps: { connection: Connection; logEvent: Logger },
+    private readonly config: { pollMs: number; resolveTimeoutMs: number },
+  ) {}
+
+  get size() {
+    return this.pending.size;
+  }
+
+  onOutcome(listener: (outcome: JitoBundleOutcome, bundle: { region: string; tipLamports: number }) => void) {
+    this.listeners.push(listener);
+  }
+
+  private count(outcome: JitoBundleOutcome, bundle: { region: string; tipLamports: number }) {
+    const level = jitoTipLevel(bundle.tipLamports);
+    const byTip = this.byTipLevel.get(level) ?? emptyCounts();
+    byTip[outcome] += 1;
+    this.byTipLevel.set(level, byTip);
+    const byRegion = this.byRegion.get(bundle.region) ?? emptyCounts();
+    byRegion[outcome] += 1;
+    this.byRegion.set(bundle.region, byRegion);
+    // `accepted` is an intermediate stage; only final outcomes drive tip tuning.
+    if (outcome !== 'accepted') for (const listener of this.listeners) listener(outcome, bundle);
+  }
+
+  observe(event: LogEvent) {
+    if (event['type'] !== 'jito_bundle' || event['skipped'] !== undefined) return;
+    const blockEngineUrl = asString(event['blockEngineUrl']);
+    const region = asString(event['region']) ?? (blockEngineUrl ? jitoRegionFromUrl(blockEngineUrl) : 'unknown');
+    const tipLamports = typeof event['tipLamports'] === 'number' ? event['tipLamports'] : 0;
+    const bundleId = asString(event['bundleId']);
+    if (!bundleId) {
+      // The block engine refused the bundle outright (send error).
+      this.count('rejected', { region, tipLamports });
+      return;
+    }
+
+    const bundle: PendingBundle = {
+      bundleId,
+      pair: asString(event['pair']),
+      blockEngineUrl,
+      region,
+      tipLamports,
+      signatures: Array.isArray(event['signatures'])
+        ? (event['signatures'] as unknown[]).filter((s): s is string => typeof s === 'string')
+        : [asString(event['signature'])].filter((s): s is string => Boolean(s)),
+      sentAtMs: Date.now(),
+    };
+    this.count('accepted', bundle);
+
+    const result = event['result'] as Record<string, unknown> | undefined;
+    if (result && typeof result === 'object') {
+      if (result['rejected']) return void this.resolve(bundle, 'rejected', { source: 'stream' });
+      if (result['dropped']) return void this.resolve(bundle, 'dropped', { source: 'stream' });
+      if (result['processed'] || result['finalized']) return void this.resolve(bundle, 'landed', { source: 'stream' });
+    }
+    this.pending.set(bundleId, bundle);
+  }
+
+  private async resolve(bundle: PendingBundle, outcome: Exclude<JitoBundleOutcome, 'accepted'>, extra: Record<string, unknown>) {
+    this.pending.delete(bundle.bundleId);
+    this.count(outcome, bundle);
+    await this.deps.logEvent({
+      ts: new Date().toISOString(),
+      type: 'jito_bundle_outcome',
+      pair: bundle.pair,
+      bundleId: bundle.bundleId,
+      outcome,
+      region: bundle.region,
+      tipLamports: bundle.tipLamports,
+      resolveMs: Date.now() - bundle.sentAtMs,
+      ...extra,
+    });
+  }
+
+  private async inflightStatuses(blockEngineUrl: string, bundles: PendingBundle[]) {
+    const url = `${blockEngineUrl.startsWith('http') ? blockEngineUrl : `https://${blockEngineUrl}`}/api/v1/bundles`;
+    const out = new Map<string, InflightStatus>();
+    for (let i = 0; i < bundles.length; i += INFLIGHT_BATCH) {
+      const ids = bundles.slice(i, i + INFLIGHT_BATCH).map((b) => b.bundleId);
+      const res = await fetchJson<{ result?: { value?: InflightStatus[] } }>(url, {
+        method: 'POST',
+        body: { jsonrpc: '2.0', id: 1, method: 'getInflightBundleStatuses', params: [ids] },
+        timeoutMs: 5_000,
+      });
+      for (const status of res.result?.value ?? []) if (status?.bundle_id) out.set(status.bundle_id, status);
+    }
+    return out;
+  }
+
+  // One pass over the pending bundles.
+  async poll() {
+    if (this.polling || this.pending.size === 0) return;
+    this.polling = true;
+    try {
+      const bundles = Array.from(this.pending.values());
+      const signatures = bundles.map((b) => b.signatures[0]).filter((s): s is string => Boolean(s));
+      const landed = new Set<string>();
+      if (signatures.length) {
+        const statuses = await this.deps.connection.getSignatureStatuses(signatures);
+        statuses.value.forEach((status, i) => {
+          if (status && !status.err) landed.add(signatures[i]!);
+        });
+      }
+
+      const byEngine = new Map<string, PendingBundle[]>();
+      for (const b of bundles) {
+        if (b.signatures[0] && landed.has(b.signatures[0])) {
+          await this.resolve(b, 'landed', { source: 'rpc' });
+          continue;
+        }
+        const engine = b.blockEngineUrl ?? '';
+        byEngine.set(engine, [...(byEngine.get(engine) ?? []), b]);
+      }
+
+      const now = Date.now();
+      for (const [engine, engineBundles] of byEngine) {
+        const inflight = engine
+          ? await this.inflightStatuses(engine, engineBundles).catch(() => new Map<string, InflightStatus>())
+          : new Map<string, InflightStatus>();
+        for (const b of engineBundles) {
+          const status = inflight.get(b.bundleId)?.status;
+          if (status === 'Landed') await this.resolve(b, 'landed', { source: 'block-engine' });
+          else if (status === 'Failed') await this.resolve(b, 'rejected', { source: 'block-engine' });
+          else if (now - b.sentAtMs >= this.config.resolveTimeoutMs) await this.resolve(b, 'dropped', { source: 'timeout', status });
+        }
+      }
+    } catch (error) {
+      await this.deps.logEvent({ ts: new Date().toISOString(), type: 'jito_bundle_tracker_error', error: String(error) });
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  start() {
+    if (this.timer) return;
+    const loop = () => {
+      this.timer = setTimeout(async () => {
+        await this.poll();
+        if (this.timer) loop();
+      }, Math.max(250, this.config.pollMs));
+      this.timer.unref();
+    };
+    loop();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  snapshot() {
+    const rate = (c: OutcomeCounts) => {
+      const resolved = c.landed + c.dropped + c.rejected;
+      return resolved > 0 ? c.landed / resolved : undefined;
+    };
+    return {
+      pending: this.pending.size,
+      byTipLevel: Object.fromEntries(
+        Array.from(this.byTipLevel.entries())
+          .sort(([a], [b]) => a - b)
+          .map(([level, c]) => [String(level), { ...c, landingRate: rate(c) }]),
+      ),
+      byRegion: Object.fromEntries(Array.from(this.byRegion.entries()).map(([region, c]) => [region, { ...c, landingRate: rate(c) }])),
+    };
+  }
+}
+
+// JITO_TIP_MODE=adaptive: nudges the tip up when the recent landing rate is below target and down when it is
+// comfortably above it, always within [min, max]. Rejections are left out of the rate because they are mostly
+// bundles that fail simulation (opportunity gone), which no tip can fix.
+export class AdaptiveJitoTip {
+  private readonly window: boolean[] = [];
+  private sinceAdjust = 0;
+  private tip: number;
+
+  constructor(
+    private readonly config: {
+      initialTipLamports: number;
+      minTipLamports: number;
+      maxTipLamports: number;
+      targetLandingRate: number;
+      windowSize: number;
+      stepBps: number;
+    },
+    private readonly logEvent?: Logger,
+  ) {
+    this.tip = this.clamp(config.initialTipLamports);
+  }
+
+  private clamp(tip: number) {
+    const min = Math.max(0, Math.floor(this.config.minTipLamports));
+    const max = Math.max(min, Math.floor(this.config.maxTipLamports));
+    return Math.max(min, Math.min(max, Math.round(tip)));
+  }
+
+  get tipLamports() {
+    return this.tip;
+  }
+
+  landingRate() {
+    if (!this.window.length) return undefined;
+    return this.window.filter(Boolean).length / this.window.length;
+  }
+
+  record(outcome: JitoBundleOutcome) {
+    if (outcome !== 'landed' && outcome !== 'dropped') return;
+    const windowSize = Math.max(1, Math.floor(this.config.windowSize));
+    this.window.push(outcome === 'landed');
+    while (this.window.length > windowSize) this.window.shift();
+    this.sinceAdjust += 1;
+
+    // Wait for half a window of evidence, then re-evaluate every quarter window.
+    if (this.window.length < Math.ceil(windowSize / 2) || this.sinceAdjust < Math.max(1, Math.floor(windowSize / 4))) return;
+    this.sinceAdjust = 0;
+
+    const rate = this.landingRate()!;
+    const step = Math.max(0, this.config.stepBps) / 10_000;
+    // 10pp dead band above the target so the tip does not oscillate around it.
+    const next =
+      rate < this.config.targetLandingRate
+        ? this.clamp(Math.max(this.tip + 1, this.tip * (1 + step)))
+        : rate > Math.min(1, this.config.targetLandingRate + 0.1)
+          ? this.clamp(this.tip * (1 - step))
+          : this.tip;
+    if (next === this.tip) return;
+
+    const prev = this.tip;
+    this.tip = next;
+    void this.logEvent?.({
+      ts: new Date().toISOString(),
+      type: 'jito_tip_adjust',
+      prevTipLamports: prev,
+      tipLamports: next,
+      landingRate: rate,
+      targetLandingRate: this.config.targetLandingRate,
+      samples: this.window.length,
+    });
+  }
+
+  snapshot() {
+    return {
+      tipLamports: this.tip,
+      landingRate: this.landingRate(),
+      targetLandingRate: this.config.targetLandingRate,
+      samples: this.window.length,
+      minTipLamports: this.config.minTipLamports,
+      maxTipLamports: this.config.maxTipLamports,
+    };
+  }
+}
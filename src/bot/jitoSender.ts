@@ -1,4 +1,7 @@
-import { PublicKey, type Keypair, type VersionedTransaction } from '@solana/web3.js';
+import { PublicKey, SystemProgram, TransactionMessage, VersionedTransaction, type Keypair } from '@solana/web3.js';
+
+// Block engines reject bundles with more than 5 transactions.
+export const JITO_MAX_BUNDLE_TRANSACTIONS = 5;
 
 const DEFAULT_TIP_ACCOUNTS = [
   '96gYZGLnJFVFzxGxSPXP4yw4sVQNgv24QLCUYzG3M55j',
@@ -30,6 +33,29 @@ export function getJitoTipAccountAddress(preferred?: string): string {
   return pickRandom(DEFAULT_TIP_ACCOUNTS);
 }
 
+// Standalone tip transfer, appended as the last transaction of a multi-tx bundle so the legs themselves stay untouched.
+export function buildJitoTipTransaction(params: {
+  payer: Keypair;
+  tipAccount: PublicKey;
+  tipLamports: number;
+  recentBlockhash: string;
+}) {
+  const message = new TransactionMessage({
+    payerKey: params.payer.publicKey,
+    recentBlockhash: params.recentBlockhash,
+    instructions: [
+      SystemProgram.transfer({
+        fromPubkey: params.payer.publicKey,
+        toPubkey: params.tipAccount,
+        lamports: Math.max(0, Math.floor(params.tipLamports)),
+      }),
+    ],
+  }).compileToV0Message();
+  const tx = new VersionedTransaction(message);
+  tx.sign([params.payer]);
+  return tx;
+}
+
 export type JitoBundleResultJson = {
   bundleId: string;
   accepted?: unknown;
@@ -39,54 +65,282 @@ export type JitoBundleResultJson = {
   dropped?: unknown;
 };
 
-export async function sendBundleViaJito(params: {
-  blockEngineUrl: string;
-  authKeypair: Keypair;
-  transaction: VersionedTransaction;
-  waitMs?: number;
-}): Promise<{ bundleId: string; result?: JitoBundleResultJson }> {
-  // Dynamic import to avoid module format issues at startup.
-  const { searcherClient } = (await import('jito-ts/dist/sdk/block-engine/searcher.js')) as any;
-  const { Bundle } = (await import('jito-ts/dist/sdk/block-engine/types.js')) as any;
-  const { BundleResult } = (await import('jito-ts/dist/gen/block-engine/bundle.js')) as any;
-
-  const url = params.blockEngineUrl.startsWith('http') ? params.blockEngineUrl : `https://${params.blockEngineUrl}`;
-  const client = searcherClient(url, params.authKeypair);
-  const bundle = new Bundle([params.transaction], 3);
-  const bundleId: string = await client.sendBundle(bundle);
-
-  const waitMs = Math.max(0, Math.floor(params.waitMs ?? 0));
-  if (waitMs === 0) return { bundleId };
-
-  const result = await new Promise<any | undefined>((resolve, reject) => {
-    let settled = false;
-    let cancel = () => {};
-
-    const timer = setTimeout(() => {
-      if (settled) return;
-      settled = true;
-      cancel();
-      resolve(undefined);
-    }, waitMs);
-
-    cancel = client.onBundleResult(
-      (msg: any) => {
-        if (settled) return;
-        if (msg?.bundleId !== bundleId) return;
-        settled = true;
-        clearTimeout(timer);
-        cancel();
-        resolve(BundleResult?.toJSON ? (BundleResult.toJSON(msg) as JitoBundleResultJson) : (msg as JitoBundleResultJson));
-      },
-      (e: Error) => {
+// "https://amsterdam.mainnet.block-engine.jito.wtf" -> "amsterdam".
+export function jitoRegionFromUrl(url: string) {
+  try {
+    const host = new URL(normalizeBlockEngineUrl(url)).hostname;
+    return host.split('.')[0] || host;
+  } catch {
+    return url;
+  }
+}
+
+function normalizeBlockEngineUrl(url: string) {
+  return url.startsWith('http') ? url : `https://${url}`;
+}
+
+// jito-ts returns `Result<T, E>` from client calls; older builds returned the bare value.
+function unwrapJitoResult<T>(res: unknown): T {
+  if (res && typeof res === 'object' && 'ok' in res) {
+    const r = res as { ok: boolean; value?: T; error?: unknown };
+    if (!r.ok) throw r.error instanceof Error ? r.error : new Error(String(r.error));
+    return r.value as T;
+  }
+  return res as T;
+}
+
+export type JitoSendPolicy = 'fastest' | 'fanout-all';
+
+type JitoRegion = {
+  url: string;
+  region: string;
+  // Searcher clients are long-lived gRPC channels, one per auth keypair (multi-wallet).
+  clients: Map<string, any>;
+  ewmaLatencyMs?: number;
+  lastLatencyMs?: number;
+  lastProbeAtMs?: number;
+  lastProbeOk?: boolean;
+  probes: number;
+  probeErrors: number;
+  sends: number;
+  accepted: number;
+  sendErrors: number;
+  lastError?: string;
+};
+
+type JitoSdk = { searcherClient: any; Bundle: any; BundleResult: any };
+
+// Latency weight of the newest probe in the moving average.
+const PROBE_EWMA_ALPHA = 0.3;
+
+// One searcher client per configured block engine region, reused across trades. Regions are probed periodically
+// (getTipAccounts round-trip) so `fastest` can send to the lowest-latency healthy region (failing over in order),
+// while `fanout-all` sends the same bundle to every region at once; the bundle id is identical everywhere, so
+// whichever region accepts first wins.
+export class JitoSearcherPool {
+  private readonly regions: JitoRegion[];
+  private sdkPromise: Promise<JitoSdk> | undefined;
+  private timer: NodeJS.Timeout | undefined;
+
+  constructor(
+    urls: string[],
+    readonly policy: JitoSendPolicy = 'fastest',
+  ) {
+    const unique = Array.from(new Set(urls.map((u) => normalizeBlockEngineUrl(u.trim())).filter((u) => u.length > 8)));
+    if (unique.length === 0) throw new Error('JitoSearcherPool requires at least 1 block engine URL');
+    this.regions = unique.map((url) => ({
+      url,
+      region: jitoRegionFromUrl(url),
+      clients: new Map(),
+      probes: 0,
+      probeErrors: 0,
+      sends: 0,
+      accepted: 0,
+      sendErrors: 0,
+    }));
+  }
+
+  private sdk() {
+    // Dynamic import to avoid module format issues at startup.
+    this.sdkPromise ??= (async () => {
+      const { searcherClient } = (await import('jito-ts/dist/sdk/block-engine/searcher.js')) as any;
+      const { Bundle } = (await import('jito-ts/dist/sdk/block-engine/types.js')) as any;
+      const { BundleResult } = (await import('jito-ts/dist/gen/block-engine/bundle.js')) as any;
+      return { searcherClient, Bundle, BundleResult };
+    })();
+    return this.sdkPromise;
+  }
+
+  private async client(region: JitoRegion, authKeypair?: Keypair) {
+    const key = authKeypair?.publicKey.toBase58() ?? '';
+    const hit = region.clients.get(key);
+    if (hit) return hit;
+    const { searcherClient } = await this.sdk();
+    const client = searcherClient(region.url, authKeypair);
+    region.clients.set(key, client);
+    return client;
+  }
+
+  // Healthy regions by latency first; unprobed regions keep their configured order after them.
+  private ordered() {
+    const score = (r: JitoRegion) => (r.lastProbeOk === false ? Infinity : (r.ewmaLatencyMs ?? Number.MAX_SAFE_INTEGER));
+    return this.regions
+      .map((r, i) => ({ r, i }))
+      .sort((a, b) => score(a.r) - score(b.r) || a.i - b.i)
+      .map(({ r }) => r);
+  }
+
+  async probe(authKeypair?: Keypair) {
+    await Promise.all(
+      this.regions.map(async (region) => {
+        const startedAt = Date.now();
+        region.probes += 1;
+        region.lastProbeAtMs = startedAt;
+        try {
+          unwrapJitoResult<string[]>(await (await this.client(region, authKeypair)).getTipAccounts());
+          const latency = Date.now() - startedAt;
+          region.lastLatencyMs = latency;
+          region.ewmaLatencyMs =
+            region.ewmaLatencyMs === undefined ? latency : region.ewmaLatencyMs * (1 - PROBE_EWMA_ALPHA) + latency * PROBE_EWMA_ALPHA;
+          region.lastProbeOk = true;
+        } catch (e) {
+          region.probeErrors += 1;
+          region.lastProbeOk = false;
+          region.lastError = String(e);
+        }
+      }),
+    );
+  }
+
+  start(params: { intervalMs: number; authKeypair?: Keypair }) {
+    if (this.timer || params.intervalMs <= 0) return;
+    const loop = () => {
+      this.timer = setTimeout(async () => {
+        await this.probe(params.authKeypair);
+        if (this.timer) loop();
+      }, params.intervalMs);
+      this.timer.unref();
+    };
+    void this.probe(params.authKeypair);
+    loop();
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  private async sendTo(region: JitoRegion, bundle: unknown, authKeypair: Keypair) {
+    region.sends += 1;
+    try {
+      const client = await this.client(region, authKeypair);
+      const bundleId = unwrapJitoResult<string>(await client.sendBundle(bundle));
+      region.accepted += 1;
+      return { region, client, bundleId };
+    } catch (e) {
+      region.sendErrors += 1;
+      region.lastError = String(e);
+      throw e;
+    }
+  }
+
+  async send(params: {
+    authKeypair: Keypair;
+    transactions: VersionedTransaction[];
+    waitMs?: number;
+    onAccepted?: (bundleId: string) => void;
+  }): Promise<{ bundleId: string; result?: JitoBundleResultJson; blockEngineUrl: string; region: string; fanout: number }> {
+    if (params.transactions.length === 0 || params.transactions.length > JITO_MAX_BUNDLE_TRANSACTIONS) {
+      throw new Error(`Jito bundle must have 1..${JITO_MAX_BUNDLE_TRANSACTIONS} transactions (got ${params.transactions.length})`);
+    }
+    const { Bundle, BundleResult } = await this.sdk();
+    const bundle = new Bundle(params.transactions, JITO_MAX_BUNDLE_TRANSACTIONS);
+
+    const ordered = this.ordered();
+    let winner: { region: JitoRegion; client: any; bundleId: string };
+    if (this.policy === 'fanout-all') {
+      try {
+        winner = await Promise.any(ordered.map((region) => this.sendTo(region, bundle, params.authKeypair)));
+      } catch (e) {
+        const errors = e instanceof AggregateError ? e.errors.map(String) : [String(e)];
+        throw new Error(`Jito bundle rejected by all ${ordered.length} regions: ${errors.join('; ')}`);
+      }
+    } else {
+      let lastError: unknown;
+      let sent: typeof winner | undefined;
+      for (const region of ordered) {
+        try {
+          sent = await this.sendTo(region, bundle, params.authKeypair);
+          break;
+        } catch (e) {
+          lastError = e;
+        }
+      }
+      if (!sent) throw lastError instanceof Error ? lastError : new Error(String(lastError));
+      winner = sent;
+    }
+
+    const { bundleId, client } = winner;
+    params.onAccepted?.(bundleId);
+    const base = { bundleId, blockEngineUrl: winner.region.url, region: winner.region.region, fanout: this.policy === 'fanout-all' ? ordered.length : 1 };
+
+    const waitMs = Math.max(0, Math.floor(params.waitMs ?? 0));
+    if (waitMs === 0) return base;
+
+    const result = await new Promise<any | undefined>((resolve, reject) => {
+      let settled = false;
+      let cancel = () => {};
+
+      const timer = setTimeout(() => {
         if (settled) return;
         settled = true;
-        clearTimeout(timer);
         cancel();
-        reject(e);
-      },
-    );
-  });
+        resolve(undefined);
+      }, waitMs);
+
+      cancel = client.onBundleResult(
+        (msg: any) => {
+          if (settled) return;
+          if (msg?.bundleId !== bundleId) return;
+          settled = true;
+          clearTimeout(timer);
+          cancel();
+          resolve(BundleResult?.toJSON ? (BundleResult.toJSON(msg) as JitoBundleResultJson) : (msg as JitoBundleResultJson));
+        },
+        (e: Error) => {
+          if (settled) return;
+          settled = true;
+          clearTimeout(timer);
+          cancel();
+          reject(e);
+        },
+      );
+    });
+
+    return { ...base, result };
+  }
+
+  snapshot() {
+    return {
+      policy: this.policy,
+      regions: this.regions.map((r) => ({
+        region: r.region,
+        url: r.url,
+        ewmaLatencyMs: r.ewmaLatencyMs === undefined ? undefined : Math.round(r.ewmaLatencyMs),
+        lastLatencyMs: r.lastLatencyMs,
+        lastProbeAt: r.lastProbeAtMs ? new Date(r.lastProbeAtMs).toISOString() : undefined,
+        lastProbeOk: r.lastProbeOk,
+        probes: r.probes,
+        probeErrors: r.probeErrors,
+        sends: r.sends,
+        accepted: r.accepted,
+        sendErrors: r.sendErrors,
+        lastError: r.lastError,
+      })),
+    };
+  }
+}
 
-  return { bundleId, result };
+const defaultPools = new Map<string, JitoSearcherPool>();
+
+// Pool for a JITO_BLOCK_ENGINE_URL value (comma-separated regions) when the caller did not pass a shared one.
+export function jitoSearcherPoolFor(blockEngineUrls: string) {
+  let pool = defaultPools.get(blockEngineUrls);
+  if (!pool) {
+    pool = new JitoSearcherPool(blockEngineUrls.split(','));
+    defaultPools.set(blockEngineUrls, pool);
+  }
+  return pool;
+}
+
+export async function sendBundleViaJito(params: {
+  pool: JitoSearcherPool;
+  authKeypair: Keypair;
+  // Executed in order, all-or-nothing.
+  transactions: VersionedTransaction[];
+  waitMs?: number;
+  // Called once a block engine accepts the bundle (before waiting for its result).
+  onAccepted?: (bundleId: string) => void;
+}) {
+  return await params.pool.send(params);
 }
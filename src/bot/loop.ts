@@ -2,13 +2,23 @@ import type { Connection, Keypair } from '@solana/web3.js';
 
 import type { BotPair } from '../lib/config.js';
 import type { Logger } from '../lib/logger.js';
-import { sleep } from '../lib/time.js';
+import { systemClock, type Clock } from '../lib/time.js';
 import type { JupiterClient } from '../jupiter/types.js';
-import type { OpenOceanClient } from '../openocean/client.js';
+import type { SwapProviderRegistry } from '../lib/swapProvider.js';
 import type { LookupTableCache } from '../solana/lookupTableCache.js';
+import type { LookupTableManager } from '../solana/lookupTableManager.js';
+import type { ExecutionLease } from '../lib/executionLease.js';
+import type { GlobalRiskGuard } from '../lib/globalRisk.js';
+import type { MintInfoCache } from '../solana/mint.js';
+import type { PriorityFeeEstimator } from '../solana/priorityFees.js';
 import type { ProviderCircuitBreaker } from '../lib/circuitBreaker.js';
-import { executeCandidate, type ExecutionResult } from './executor.js';
-import { scanPair } from './scanner.js';
+import { executeCandidate, reportTrace, type ExecutionResult } from './executor.js';
+import type { JitoSearcherPool } from './jitoSender.js';
+import { amountSearchRange } from './amountOptimizer.js';
+import { scanPair, type Candidate } from './scanner.js';
+import type { RouteAccountWatcher } from './routeWatcher.js';
+import type { ComputeUnitHistory } from './computeUnits.js';
+import type { PriorityFeeBidPolicy } from './priorityFeeBid.js';
 
 type ScanResult = ExecutionResult;
 
@@ -19,17 +29,41 @@ export type PairScanState = {
   openOceanTicks: { single: number; observe: number; execute: number };
 };
 
-export async function scanAndMaybeExecute(params: {
+// Every candidate of every scan gets its `trace` event: the executor reports the ones it receives, the rest are
+// reported as `not-executed` once the next scan starts (or the call returns).
+export async function scanAndMaybeExecute(params: Parameters<typeof scanAndMaybeExecuteInner>[0]): Promise<ScanResult> {
+  const pending: ScannedCandidates = { candidates: [] };
+  try {
+    return await scanAndMaybeExecuteInner(params, pending);
+  } finally {
+    await traceNotExecuted(params, pending);
+  }
+}
+
+type ScannedCandidates = { candidates: Candidate[]; best?: Candidate };
+
+async function traceNotExecuted(params: { logEvent: Logger; mode: string; pair: BotPair }, scanned: ScannedCandidates) {
+  const { candidates, best } = scanned;
+  scanned.candidates = [];
+  scanned.best = undefined;
+  for (const candidate of candidates) {
+    const reason = candidate !== best ? 'not-best' : candidate.decision.profitable ? 'not-triggered' : 'not-profitable';
+    await reportTrace({ logEvent: params.logEvent, pair: params.pair, mode: params.mode, best: candidate, result: 'not-executed', reason });
+  }
+}
+
+async function scanAndMaybeExecuteInner(params: {
   connection: Connection;
   wallet: Keypair;
   walletBalanceLamports: number;
   walletBalanceAAtomic?: string;
   quoteJupiter: Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
   execJupiter: JupiterClient;
-  openOcean?: OpenOceanClient;
+  providers: SwapProviderRegistry;
   providerCircuitBreaker?: ProviderCircuitBreaker;
   state?: PairScanState;
-  mode: 'dry-run' | 'live';
+  clock?: Clock;
+  mode: 'dry-run' | 'live' | 'replay';
   executionStrategy: 'atomic' | 'sequential';
   triggerStrategy: 'immediate' | 'avg-window' | 'vwap' | 'bollinger';
   triggerObserveMs: number;
@@ -42,8 +76,10 @@ export async function scanAndMaybeExecute(params: {
   triggerMomentumLookback: number;
   triggerTrailDropBps: number;
   triggerEmergencySigma: number;
-  triggerAmountMode: 'all' | 'rotate' | 'fixed';
+  triggerAmountMode: 'all' | 'rotate' | 'fixed' | 'optimize';
   triggerMaxAmountsPerTick: number;
+  amountOptimizerQuoteBudget?: number;
+  amountOptimizerGrid?: number;
   dryRunBuild: boolean;
   dryRunSimulate: boolean;
   livePreflightSimulate: boolean;
@@ -54,23 +90,28 @@ export async function scanAndMaybeExecute(params: {
   computeUnitPriceMicroLamports: number;
   jitoEnabled: boolean;
   jitoBlockEngineUrl: string;
+  jitoSearcherPool?: JitoSearcherPool;
   jitoTipLamports: number;
-  jitoTipMode: 'fixed' | 'dynamic';
+  jitoTipMode: 'fixed' | 'dynamic' | 'adaptive';
   jitoMinTipLamports: number;
   jitoMaxTipLamports: number;
   jitoTipBps: number;
   jitoWaitMs: number;
   jitoFallbackRpc: boolean;
+  jitoSequentialBundle: boolean;
+  sequentialLeg2MaxWaitMs: number;
+  sequentialLeg2PollMs: number;
+  sequentialLeg2MaxLossBps: number;
+  sequentialAbortMode: 'sell' | 'hold';
   jitoTipAccount?: string;
   openOceanObserveEnabled: boolean;
   openOceanExecuteEnabled: boolean;
   openOceanEveryNTicks: number;
   openOceanJupiterGateBps: number;
   openOceanJupiterNearGateBps: number;
-  openOceanSignaturesEstimate: number;
+  openOceanMixedLegs?: boolean;
   feeConversionCacheTtlMs: number;
   jup429CooldownMs: number;
-  openOcean429CooldownMs: number;
   minBalanceLamports: number;
   dynamicAmountMode?: 'off' | 'sol_balance' | 'token_balance';
   dynamicAmountBps?: number;
@@ -81,7 +122,22 @@ export async function scanAndMaybeExecute(params: {
   useRustCalc: boolean;
   rustCalcPath: string;
   lookupTableCache?: LookupTableCache;
-}): Promise<ScanResult> {
+  lookupTableManager?: LookupTableManager;
+  atomicPreflight?: 'off' | 'size' | 'simulate';
+  atomicFallbackMaxAccounts?: number;
+  atomicFallbackSequential?: boolean;
+  computeUnitHistory?: ComputeUnitHistory;
+  // PRIORITY_FEE_PER_ACCOUNT: per-route compute unit prices at scan and build time.
+  priorityFeeEstimator?: PriorityFeeEstimator;
+  // PRIORITY_FEE_BID: profitable candidates bid part of their profit as priority fee.
+  priorityFeeBid?: PriorityFeeBidPolicy;
+  mintInfo?: MintInfoCache;
+  executionLease?: ExecutionLease;
+  executionLeaseTtlMs?: number;
+  globalRisk?: GlobalRiskGuard;
+  // ACCOUNT_SCAN_ENABLED: receives the accounts of every scanned route.
+  routeWatcher?: RouteAccountWatcher;
+}, pending: ScannedCandidates): Promise<ScanResult> {
   function candidateConservativeProfitPpm(candidate: { amountA: string; decision: { conservativeProfit: string } }) {
     const amountA = BigInt(candidate.amountA);
     if (amountA <= 0n) return undefined;
@@ -119,6 +175,7 @@ export async function scanAndMaybeExecute(params: {
     return Array.from(new Set(values.filter((v) => /^\d+$/.test(v))));
   }
 
+  const clock = params.clock ?? systemClock;
   const maxAmountsPerTick = Math.max(0, Math.floor(params.triggerMaxAmountsPerTick));
   const configuredAmounts = normalizeAmountList(
     params.pair.amountASteps?.length ? params.pair.amountASteps : [params.pair.amountA],
@@ -203,10 +260,12 @@ export async function scanAndMaybeExecute(params: {
     return [amount.toString()];
   }
 
+  const amountSearchBounds = params.triggerAmountMode === 'optimize' ? amountSearchRange(params.pair) : undefined;
+
   function pickAmountsOverrideForTick(): string[] | undefined {
     const dynamic = dynamicAmountOverride();
     if (dynamic?.length) return dynamic;
-    if (params.triggerAmountMode === 'all') return undefined;
+    if (params.triggerAmountMode === 'all' || amountSearchBounds) return undefined;
     if (maxAmountsPerTick <= 0) return undefined;
     if (eligibleAmounts.length === 0) return undefined;
     if (maxAmountsPerTick >= eligibleAmounts.length) return eligibleAmounts;
@@ -225,8 +284,9 @@ export async function scanAndMaybeExecute(params: {
   const openOceanTicks: Record<ScanPhase, number> = state.openOceanTicks;
   const openOceanEveryNTicks = Math.max(1, Math.floor(params.openOceanEveryNTicks));
 
+  // The OPENOCEAN_* sampling knobs govern every secondary swap provider.
   function shouldUseOpenOcean(phase: ScanPhase, force: boolean) {
-    if (!params.openOcean) return false;
+    if (!params.providers.secondaries().length) return false;
     const phaseEnabled =
       phase === 'observe' ? params.openOceanObserveEnabled : params.openOceanExecuteEnabled;
     if (!phaseEnabled) return false;
@@ -238,23 +298,32 @@ export async function scanAndMaybeExecute(params: {
   }
 
   async function runScan(phase: ScanPhase, options: { forceOpenOcean?: boolean } = {}) {
-    const scanStartedAt = Date.now();
+    await traceNotExecuted(params, pending);
+    const scanStartedAt = clock.now();
     const forceOpenOcean = Boolean(options.forceOpenOcean);
     const enableOpenOcean = shouldUseOpenOcean(phase, forceOpenOcean);
     const openOceanJupiterGateBps = forceOpenOcean ? undefined : params.openOceanJupiterGateBps;
+    const amountsOverride = pickAmountsOverrideForTick();
     const scan = await scanPair({
       connection: params.connection,
       wallet: params.wallet,
       quoteJupiter: params.quoteJupiter,
-      openOcean: params.openOcean,
+      providers: params.providers,
       providerCircuitBreaker: params.providerCircuitBreaker,
-      jup429CooldownMs: params.jup429CooldownMs,
-      openOcean429CooldownMs: params.openOcean429CooldownMs,
-      amountsOverride: pickAmountsOverrideForTick(),
-      enableOpenOcean,
-      openOceanJupiterGateBps,
-      openOceanJupiterNearGateBps: params.openOceanJupiterNearGateBps,
-      openOceanSignaturesEstimate: params.openOceanSignaturesEstimate,
+      amountsOverride,
+      // A dynamic (balance-based) size wins over the search.
+      amountSearch:
+        amountSearchBounds && !amountsOverride
+          ? {
+              ...amountSearchBounds,
+              quoteBudget: Math.max(1, Math.floor(params.amountOptimizerQuoteBudget ?? 12)),
+              grid: Math.max(1, Math.floor(params.amountOptimizerGrid ?? 200)),
+            }
+          : undefined,
+      enableSecondaryProviders: enableOpenOcean,
+      secondaryGateBps: openOceanJupiterGateBps,
+      secondaryNearGateBps: params.openOceanJupiterNearGateBps,
+      enableMixedLegs: params.openOceanMixedLegs,
       executionStrategy: params.executionStrategy,
       pair: params.pair,
       logEvent: params.logEvent,
@@ -271,21 +340,33 @@ export async function scanAndMaybeExecute(params: {
       jitoTipBps: params.jitoTipBps,
       useRustCalc: params.useRustCalc,
       rustCalcPath: params.rustCalcPath,
+      mintInfo: params.mintInfo,
+      computeUnitHistory: params.computeUnitHistory,
+      priorityFeeEstimator: params.priorityFeeEstimator,
+      priorityFeeBid: params.priorityFeeBid,
     });
 
+    params.routeWatcher?.noteAccounts(
+      params.pair.name,
+      scan.candidates.flatMap((c) => c.quotes.flatMap((q) => q.routeAccounts ?? [])),
+    );
+
     await params.logEvent({
       ts: new Date().toISOString(),
       type: 'scan_summary',
       pair: params.pair.name,
       trigger: params.triggerStrategy,
       candidates: scan.candidates.length,
-      scanMs: Date.now() - scanStartedAt,
+      scanMs: clock.now() - scanStartedAt,
       openOceanEnabled: enableOpenOcean,
-      jupiterQuoteCalls: scan.jupiterQuoteCalls,
-      openOceanQuoteCalls: scan.openOceanQuoteCalls,
+      jupiterQuoteCalls: scan.quoteCalls['jupiter'] ?? 0,
+      openOceanQuoteCalls: scan.quoteCalls['openocean'] ?? 0,
+      quoteCalls: scan.quoteCalls,
       feeConversionQuoteCalls: scan.feeConversionQuoteCalls,
     });
 
+    pending.candidates = scan.candidates;
+    pending.best = scan.best;
     return scan;
   }
 
@@ -299,12 +380,12 @@ export async function scanAndMaybeExecute(params: {
       executeMs: params.triggerExecuteMs,
     });
 
-    const observeStart = Date.now();
+    const observeStart = clock.now();
     const positiveProfits: bigint[] = [];
     let maxProfit = 0n;
 
-    while (Date.now() - observeStart < params.triggerObserveMs) {
-      const tickStartedAt = Date.now();
+    while (clock.now() - observeStart < params.triggerObserveMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('observe');
 
       const best = scan.best;
@@ -316,9 +397,9 @@ export async function scanAndMaybeExecute(params: {
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerObserveIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     if (positiveProfits.length === 0) {
@@ -345,9 +426,9 @@ export async function scanAndMaybeExecute(params: {
       maxProfitLamports: maxProfit.toString(),
     });
 
-    const executeStart = Date.now();
-    while (Date.now() - executeStart < params.triggerExecuteMs) {
-      const tickStartedAt = Date.now();
+    const executeStart = clock.now();
+    while (clock.now() - executeStart < params.triggerExecuteMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('execute');
 
       if (scan.best) {
@@ -367,12 +448,10 @@ export async function scanAndMaybeExecute(params: {
           return await executeCandidate({
             connection: params.connection,
             wallet: params.wallet,
-            quoteJupiter: params.quoteJupiter,
             execJupiter: params.execJupiter,
-            openOcean: params.openOcean,
+            providers: params.providers,
             providerCircuitBreaker: params.providerCircuitBreaker,
             jup429CooldownMs: params.jup429CooldownMs,
-            openOcean429CooldownMs: params.openOcean429CooldownMs,
             mode: params.mode,
             executionStrategy: params.executionStrategy,
             dryRunBuild: params.dryRunBuild,
@@ -382,21 +461,38 @@ export async function scanAndMaybeExecute(params: {
             pair: params.pair,
             best: scan.best,
             computeUnitLimit: scan.computeUnitLimit,
-            computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+            computeUnitPriceMicroLamports: scan.best.computeUnitPriceMicroLamports,
             jitoEnabled: params.jitoEnabled,
             jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+            jitoSearcherPool: params.jitoSearcherPool,
             jitoTipAccount: params.jitoTipAccount,
             jitoWaitMs: params.jitoWaitMs,
             jitoFallbackRpc: params.jitoFallbackRpc,
+            jitoSequentialBundle: params.jitoSequentialBundle,
+            sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+            sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+            sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+            sequentialAbortMode: params.sequentialAbortMode,
             minBalanceLamports: params.minBalanceLamports,
             lookupTableCache: params.lookupTableCache,
+            lookupTableManager: params.lookupTableManager,
+            atomicPreflight: params.atomicPreflight,
+            atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+            atomicFallbackSequential: params.atomicFallbackSequential,
+            computeUnitHistory: params.computeUnitHistory,
+            priorityFeeEstimator: params.priorityFeeEstimator,
+            priorityFeeBid: params.priorityFeeBid,
+            routeWatcher: params.routeWatcher,
+            executionLease: params.executionLease,
+            executionLeaseTtlMs: params.executionLeaseTtlMs,
+            globalRisk: params.globalRisk,
           });
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerExecuteIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     await params.logEvent({
@@ -434,13 +530,13 @@ export async function scanAndMaybeExecute(params: {
       dropBps: params.triggerTrailDropBps,
     });
 
-    const observeStart = Date.now();
+    const observeStart = clock.now();
     let emaPpm: number | undefined;
     let samples = 0;
     let maxPpm: number | undefined;
 
-    while (Date.now() - observeStart < params.triggerObserveMs) {
-      const tickStartedAt = Date.now();
+    while (clock.now() - observeStart < params.triggerObserveMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('observe');
 
       if (scan.best) {
@@ -455,9 +551,9 @@ export async function scanAndMaybeExecute(params: {
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerObserveIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     if (emaPpm === undefined || samples < minSamples) {
@@ -485,13 +581,13 @@ export async function scanAndMaybeExecute(params: {
       maxBps: maxPpm === undefined ? undefined : ppmToBps(maxPpm),
     });
 
-    const executeStart = Date.now();
+    const executeStart = clock.now();
     let armed = false;
     let peakPpm = 0;
     let declineTicks = 0;
 
-    while (Date.now() - executeStart < params.triggerExecuteMs) {
-      const tickStartedAt = Date.now();
+    while (clock.now() - executeStart < params.triggerExecuteMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('execute', { forceOpenOcean: armed });
 
       const best = scan.best;
@@ -539,12 +635,10 @@ export async function scanAndMaybeExecute(params: {
             return await executeCandidate({
               connection: params.connection,
               wallet: params.wallet,
-              quoteJupiter: params.quoteJupiter,
               execJupiter: params.execJupiter,
-              openOcean: params.openOcean,
+              providers: params.providers,
               providerCircuitBreaker: params.providerCircuitBreaker,
               jup429CooldownMs: params.jup429CooldownMs,
-              openOcean429CooldownMs: params.openOcean429CooldownMs,
               mode: params.mode,
               executionStrategy: params.executionStrategy,
               dryRunBuild: params.dryRunBuild,
@@ -554,22 +648,39 @@ export async function scanAndMaybeExecute(params: {
               pair: params.pair,
               best,
               computeUnitLimit: scan.computeUnitLimit,
-              computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+              computeUnitPriceMicroLamports: best.computeUnitPriceMicroLamports,
               jitoEnabled: params.jitoEnabled,
               jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+              jitoSearcherPool: params.jitoSearcherPool,
               jitoTipAccount: params.jitoTipAccount,
               jitoWaitMs: params.jitoWaitMs,
               jitoFallbackRpc: params.jitoFallbackRpc,
+              jitoSequentialBundle: params.jitoSequentialBundle,
+              sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+              sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+              sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+              sequentialAbortMode: params.sequentialAbortMode,
               minBalanceLamports: params.minBalanceLamports,
               lookupTableCache: params.lookupTableCache,
+              lookupTableManager: params.lookupTableManager,
+              atomicPreflight: params.atomicPreflight,
+              atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+              atomicFallbackSequential: params.atomicFallbackSequential,
+              computeUnitHistory: params.computeUnitHistory,
+              priorityFeeEstimator: params.priorityFeeEstimator,
+              priorityFeeBid: params.priorityFeeBid,
+              routeWatcher: params.routeWatcher,
+              executionLease: params.executionLease,
+              executionLeaseTtlMs: params.executionLeaseTtlMs,
+              globalRisk: params.globalRisk,
             });
           }
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerExecuteIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     await params.logEvent({
@@ -610,14 +721,14 @@ export async function scanAndMaybeExecute(params: {
       emergencySigma,
     });
 
-    const observeStart = Date.now();
+    const observeStart = clock.now();
     let emaPpm: number | undefined;
     let ewmVar = 0;
     let samples = 0;
     let maxPpm: number | undefined;
 
-    while (Date.now() - observeStart < params.triggerObserveMs) {
-      const tickStartedAt = Date.now();
+    while (clock.now() - observeStart < params.triggerObserveMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('observe');
 
       if (scan.best) {
@@ -662,12 +773,10 @@ export async function scanAndMaybeExecute(params: {
             return await executeCandidate({
               connection: params.connection,
               wallet: params.wallet,
-              quoteJupiter: params.quoteJupiter,
               execJupiter: params.execJupiter,
-              openOcean: params.openOcean,
+              providers: params.providers,
               providerCircuitBreaker: params.providerCircuitBreaker,
               jup429CooldownMs: params.jup429CooldownMs,
-              openOcean429CooldownMs: params.openOcean429CooldownMs,
               mode: params.mode,
               executionStrategy: params.executionStrategy,
               dryRunBuild: params.dryRunBuild,
@@ -677,22 +786,39 @@ export async function scanAndMaybeExecute(params: {
               pair: params.pair,
               best: scan.best,
               computeUnitLimit: scan.computeUnitLimit,
-              computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+              computeUnitPriceMicroLamports: scan.best.computeUnitPriceMicroLamports,
               jitoEnabled: params.jitoEnabled,
               jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+              jitoSearcherPool: params.jitoSearcherPool,
               jitoTipAccount: params.jitoTipAccount,
               jitoWaitMs: params.jitoWaitMs,
               jitoFallbackRpc: params.jitoFallbackRpc,
+              jitoSequentialBundle: params.jitoSequentialBundle,
+              sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+              sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+              sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+              sequentialAbortMode: params.sequentialAbortMode,
               minBalanceLamports: params.minBalanceLamports,
               lookupTableCache: params.lookupTableCache,
+              lookupTableManager: params.lookupTableManager,
+              atomicPreflight: params.atomicPreflight,
+              atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+              atomicFallbackSequential: params.atomicFallbackSequential,
+              computeUnitHistory: params.computeUnitHistory,
+              priorityFeeEstimator: params.priorityFeeEstimator,
+              priorityFeeBid: params.priorityFeeBid,
+              routeWatcher: params.routeWatcher,
+              executionLease: params.executionLease,
+              executionLeaseTtlMs: params.executionLeaseTtlMs,
+              globalRisk: params.globalRisk,
             });
           }
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerObserveIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     if (emaPpm === undefined || samples < minSamples) {
@@ -723,13 +849,13 @@ export async function scanAndMaybeExecute(params: {
       maxBps: maxPpm === undefined ? undefined : ppmToBps(maxPpm),
     });
 
-    const executeStart = Date.now();
+    const executeStart = clock.now();
     let armed = false;
     let peakPpm = 0;
     let declineTicks = 0;
 
-    while (Date.now() - executeStart < params.triggerExecuteMs) {
-      const tickStartedAt = Date.now();
+    while (clock.now() - executeStart < params.triggerExecuteMs) {
+      const tickStartedAt = clock.now();
       const scan = await runScan('execute', { forceOpenOcean: armed });
 
       const best = scan.best;
@@ -777,12 +903,10 @@ export async function scanAndMaybeExecute(params: {
             return await executeCandidate({
               connection: params.connection,
               wallet: params.wallet,
-              quoteJupiter: params.quoteJupiter,
               execJupiter: params.execJupiter,
-              openOcean: params.openOcean,
+              providers: params.providers,
               providerCircuitBreaker: params.providerCircuitBreaker,
               jup429CooldownMs: params.jup429CooldownMs,
-              openOcean429CooldownMs: params.openOcean429CooldownMs,
               mode: params.mode,
               executionStrategy: params.executionStrategy,
               dryRunBuild: params.dryRunBuild,
@@ -792,14 +916,31 @@ export async function scanAndMaybeExecute(params: {
               pair: params.pair,
               best,
               computeUnitLimit: scan.computeUnitLimit,
-              computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+              computeUnitPriceMicroLamports: best.computeUnitPriceMicroLamports,
               jitoEnabled: params.jitoEnabled,
               jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+              jitoSearcherPool: params.jitoSearcherPool,
               jitoTipAccount: params.jitoTipAccount,
               jitoWaitMs: params.jitoWaitMs,
               jitoFallbackRpc: params.jitoFallbackRpc,
+              jitoSequentialBundle: params.jitoSequentialBundle,
+              sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+              sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+              sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+              sequentialAbortMode: params.sequentialAbortMode,
               minBalanceLamports: params.minBalanceLamports,
               lookupTableCache: params.lookupTableCache,
+              lookupTableManager: params.lookupTableManager,
+              atomicPreflight: params.atomicPreflight,
+              atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+              atomicFallbackSequential: params.atomicFallbackSequential,
+              computeUnitHistory: params.computeUnitHistory,
+              priorityFeeEstimator: params.priorityFeeEstimator,
+              priorityFeeBid: params.priorityFeeBid,
+              routeWatcher: params.routeWatcher,
+              executionLease: params.executionLease,
+              executionLeaseTtlMs: params.executionLeaseTtlMs,
+              globalRisk: params.globalRisk,
             });
           }
         }
@@ -820,9 +961,8 @@ export async function scanAndMaybeExecute(params: {
           return await executeCandidate({
             connection: params.connection,
             wallet: params.wallet,
-            quoteJupiter: params.quoteJupiter,
             execJupiter: params.execJupiter,
-            openOcean: params.openOcean,
+            providers: params.providers,
             mode: params.mode,
             executionStrategy: params.executionStrategy,
             dryRunBuild: params.dryRunBuild,
@@ -832,21 +972,38 @@ export async function scanAndMaybeExecute(params: {
             pair: params.pair,
             best,
             computeUnitLimit: scan.computeUnitLimit,
-            computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+            computeUnitPriceMicroLamports: best.computeUnitPriceMicroLamports,
             jitoEnabled: params.jitoEnabled,
             jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+            jitoSearcherPool: params.jitoSearcherPool,
             jitoTipAccount: params.jitoTipAccount,
             jitoWaitMs: params.jitoWaitMs,
             jitoFallbackRpc: params.jitoFallbackRpc,
+            jitoSequentialBundle: params.jitoSequentialBundle,
+            sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+            sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+            sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+            sequentialAbortMode: params.sequentialAbortMode,
             minBalanceLamports: params.minBalanceLamports,
             lookupTableCache: params.lookupTableCache,
+            lookupTableManager: params.lookupTableManager,
+            atomicPreflight: params.atomicPreflight,
+            atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+            atomicFallbackSequential: params.atomicFallbackSequential,
+            computeUnitHistory: params.computeUnitHistory,
+            priorityFeeEstimator: params.priorityFeeEstimator,
+            priorityFeeBid: params.priorityFeeBid,
+            routeWatcher: params.routeWatcher,
+            executionLease: params.executionLease,
+            executionLeaseTtlMs: params.executionLeaseTtlMs,
+            globalRisk: params.globalRisk,
           });
         }
       }
 
-      const elapsedMs = Date.now() - tickStartedAt;
+      const elapsedMs = clock.now() - tickStartedAt;
       const sleepMs = params.triggerExecuteIntervalMs - elapsedMs;
-      if (sleepMs > 0) await sleep(sleepMs);
+      if (sleepMs > 0) await clock.sleep(sleepMs);
     }
 
     await params.logEvent({
@@ -872,12 +1029,10 @@ export async function scanAndMaybeExecute(params: {
   return await executeCandidate({
     connection: params.connection,
     wallet: params.wallet,
-    quoteJupiter: params.quoteJupiter,
     execJupiter: params.execJupiter,
-    openOcean: params.openOcean,
+    providers: params.providers,
     providerCircuitBreaker: params.providerCircuitBreaker,
     jup429CooldownMs: params.jup429CooldownMs,
-    openOcean429CooldownMs: params.openOcean429CooldownMs,
     mode: params.mode,
     executionStrategy: params.executionStrategy,
     dryRunBuild: params.dryRunBuild,
@@ -887,13 +1042,30 @@ export async function scanAndMaybeExecute(params: {
     pair: params.pair,
     best: scan.best,
     computeUnitLimit: scan.computeUnitLimit,
-    computeUnitPriceMicroLamports: scan.computeUnitPriceMicroLamports,
+    computeUnitPriceMicroLamports: scan.best.computeUnitPriceMicroLamports,
     jitoEnabled: params.jitoEnabled,
     jitoBlockEngineUrl: params.jitoBlockEngineUrl,
+    jitoSearcherPool: params.jitoSearcherPool,
     jitoTipAccount: params.jitoTipAccount,
     jitoWaitMs: params.jitoWaitMs,
     jitoFallbackRpc: params.jitoFallbackRpc,
+    jitoSequentialBundle: params.jitoSequentialBundle,
+    sequentialLeg2MaxWaitMs: params.sequentialLeg2MaxWaitMs,
+    sequentialLeg2PollMs: params.sequentialLeg2PollMs,
+    sequentialLeg2MaxLossBps: params.sequentialLeg2MaxLossBps,
+    sequentialAbortMode: params.sequentialAbortMode,
     minBalanceLamports: params.minBalanceLamports,
     lookupTableCache: params.lookupTableCache,
+    lookupTableManager: params.lookupTableManager,
+    atomicPreflight: params.atomicPreflight,
+    atomicFallbackMaxAccounts: params.atomicFallbackMaxAccounts,
+    atomicFallbackSequential: params.atomicFallbackSequential,
+    computeUnitHistory: params.computeUnitHistory,
+    priorityFeeEstimator: params.priorityFeeEstimator,
+    priorityFeeBid: params.priorityFeeBid,
+    routeWatcher: params.routeWatcher,
+    executionLease: params.executionLease,
+    executionLeaseTtlMs: params.executionLeaseTtlMs,
+    globalRisk: params.globalRisk,
   });
 }
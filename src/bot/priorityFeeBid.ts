@@ -0,0 +1,78 @@
+import type { Decision } from './rustDecision.js';
+
+export type PriorityFeeBidPolicy = {
+  // Share of the conservative profit offered as extra priority fee (PRIORITY_FEE_BID_PROFIT_BPS).
+  profitBps: number;
+  maxMicroLamports: number;
+};
+
+type Bid = {
+  computeUnitPriceMicroLamports: number;
+  feeEstimateLamports: string;
+  feeEstimateInA: string;
+  decision: Decision;
+};
+
+function priorityLamports(computeUnitLimit: bigint, microLamports: bigint) {
+  return (computeUnitLimit * microLamports) / 1_000_000n;
+}
+
+// PRIORITY_FEE_BID=profit: raises the compute unit price of a profitable candidate above the estimate (the floor) by a
+// share of its conservative profit, never past what keeps it at minProfit nor past maxMicroLamports. The fee estimate
+// and decision are returned re-priced at the bid; unprofitable candidates (and candidates without a policy) keep the
+// floor. A-units and lamports are converted at the candidate's own fee conversion rate.
+export function bidPriorityFee(params: {
+  policy?: PriorityFeeBidPolicy;
+  computeUnitLimit: number;
+  floorMicroLamports: number;
+  txCount: number;
+  minProfit: string;
+  feeEstimateLamports: string;
+  feeEstimateInA: string;
+  decision: Decision;
+}): Bid {
+  const floor: Bid = {
+    computeUnitPriceMicroLamports: params.floorMicroLamports,
+    feeEstimateLamports: params.feeEstimateLamports,
+    feeEstimateInA: params.feeEstimateInA,
+    decision: params.decision,
+  };
+  const policy = params.policy;
+  if (!policy || policy.profitBps <= 0 || params.computeUnitLimit <= 0) return floor;
+
+  const conservativeProfit = BigInt(params.decision.conservativeProfit);
+  const minProfit = BigInt(params.minProfit);
+  const feeLamports = BigInt(params.feeEstimateLamports);
+  const feeInA = BigInt(params.feeEstimateInA);
+  if (conservativeProfit <= 0n || conservativeProfit < minProfit || feeLamports <= 0n || feeInA <= 0n) return floor;
+
+  const share = (conservativeProfit * BigInt(Math.floor(policy.profitBps))) / 10_000n;
+  const headroom = conservativeProfit - (minProfit > 0n ? minProfit : 0n);
+  const budgetInA = share < headroom ? share : headroom;
+  const budgetLamports = (budgetInA * feeLamports) / feeInA;
+
+  const limit = BigInt(Math.floor(params.computeUnitLimit));
+  const txCount = BigInt(Math.max(1, Math.floor(params.txCount)));
+  const floorPrice = BigInt(Math.max(0, Math.floor(params.floorMicroLamports)));
+  let price = floorPrice + (budgetLamports * 1_000_000n) / (limit * txCount);
+  const max = BigInt(Math.max(0, Math.floor(policy.maxMicroLamports)));
+  if (price > max) price = max;
+  if (price <= floorPrice) return floor;
+
+  const extraLamports = txCount * (priorityLamports(limit, price) - priorityLamports(limit, floorPrice));
+  // Rounded up, so the bid is never cheaper in A than it is in lamports.
+  const extraInA = (extraLamports * feeInA + feeLamports - 1n) / feeLamports;
+  const bidConservativeProfit = conservativeProfit - extraInA;
+  if (bidConservativeProfit < minProfit) return floor;
+
+  return {
+    computeUnitPriceMicroLamports: Number(price),
+    feeEstimateLamports: (feeLamports + extraLamports).toString(),
+    feeEstimateInA: (feeInA + extraInA).toString(),
+    decision: {
+      profitable: bidConservativeProfit >= minProfit,
+      profit: (BigInt(params.decision.profit) - extraInA).toString(),
+      conservativeProfit: bidConservativeProfit.toString(),
+    },
+  };
+}
@@ -0,0 +1,238 @@
+import { Keypair } from '@solana/web3.js';
+
+import type { BotConfig } from '../lib/config.js';
+import type { getEnv } from '../lib/env.js';
+import type { LogEvent, Logger } from '../lib/logger.js';
+import { loadQuoteTape } from '../lib/quoteTape.js';
+import { FakeClock } from '../lib/time.js';
+import { makeReplayJupiterClient } from '../jupiter/tape.js';
+import { ReplayOpenOceanClient } from '../openocean/tape.js';
+import { openOceanSwapProvider } from '../openocean/provider.js';
+import { jupiterSwapProvider } from '../jupiter/provider.js';
+import { SwapProviderRegistry } from '../lib/swapProvider.js';
+import { makeConnection } from '../solana/connection.js';
+import { scanAndMaybeExecute, type PairScanState } from './loop.js';
+
+type ReplayPairStats = {
+  scans: number;
+  candidates: number;
+  profitableCandidates: number;
+  candidateErrors: number;
+  fills: number;
+  fillsByProvider: Record<string, number>;
+  profitAAtomic: bigint;
+  conservativeProfitAAtomic: bigint;
+  skips: Record<string, number>;
+  errors: number;
+};
+
+export type ReplayPairReport = Omit<ReplayPairStats, 'profitAAtomic' | 'conservativeProfitAAtomic'> & {
+  profitAAtomic: string;
+  conservativeProfitAAtomic: string;
+};
+
+export type ReplayReport = {
+  tapePath: string;
+  tapeEntries: number;
+  startTs: string;
+  endTs: string;
+  pairs: Record<string, ReplayPairReport>;
+};
+
+function parseBigIntOr(value: unknown, fallback: bigint) {
+  if (typeof value !== 'string' || !/^\-?\d+$/.test(value)) return fallback;
+  return BigInt(value);
+}
+
+export async function runReplay(params: {
+  env: ReturnType<typeof getEnv>;
+  config: BotConfig;
+  tapePath: string;
+  logEvent: Logger;
+}): Promise<ReplayReport> {
+  const { env, config } = params;
+  const tape = await loadQuoteTape(params.tapePath, { maxAgeMs: env.replayQuoteMaxAgeMs });
+  if (tape.size === 0) throw new Error(`replay: tape ${params.tapePath} has no quotes`);
+
+  const clock = new FakeClock(tape.startMs);
+  const quoteJupiter = makeReplayJupiterClient({ tape, clock });
+  const providers = new SwapProviderRegistry(
+    jupiterSwapProvider({ quote: quoteJupiter, rateLimitCooldownMs: env.jup429CooldownMs }),
+  );
+  if (env.openOceanEnabled) {
+    providers.register(
+      openOceanSwapProvider({
+        client: new ReplayOpenOceanClient(tape, clock),
+        signaturesPerTx: env.openOceanSignaturesEstimate,
+        rateLimitCooldownMs: env.openOcean429CooldownMs,
+      }),
+    );
+  }
+  // Never used for network calls: replay fills stop before any build/send/balance read.
+  const connection = makeConnection({ rpcUrl: env.solanaRpcUrl, commitment: env.solanaCommitment });
+  const wallet = Keypair.generate();
+
+  const statsByPair = new Map<string, ReplayPairStats>();
+  const statsFor = (pairName: string) => {
+    const existing = statsByPair.get(pairName);
+    if (existing) return existing;
+    const created: ReplayPairStats = {
+      scans: 0,
+      candidates: 0,
+      profitableCandidates: 0,
+      candidateErrors: 0,
+      fills: 0,
+      fillsByProvider: {},
+      profitAAtomic: 0n,
+      conservativeProfitAAtomic: 0n,
+      skips: {},
+      errors: 0,
+    };
+    statsByPair.set(pairName, created);
+    return created;
+  };
+
+  const logEvent: Logger = async (event: LogEvent) => {
+    const pairName = typeof event['pair'] === 'string' ? (event['pair'] as string) : undefined;
+    if (pairName) {
+      const stats = statsFor(pairName);
+      switch (event['type']) {
+        case 'candidate':
+          stats.candidates += 1;
+          if (event['profitable'] === true) stats.profitableCandidates += 1;
+          break;
+        case 'candidate_error':
+          stats.candidateErrors += 1;
+          break;
+        case 'skip': {
+          const reason = typeof event['reason'] === 'string' ? (event['reason'] as string) : 'unknown';
+          stats.skips[reason] = (stats.skips[reason] ?? 0) + 1;
+          break;
+        }
+        case 'replay_fill': {
+          const provider = typeof event['provider'] === 'string' ? (event['provider'] as string) : 'unknown';
+          stats.fills += 1;
+          stats.fillsByProvider[provider] = (stats.fillsByProvider[provider] ?? 0) + 1;
+          stats.profitAAtomic += parseBigIntOr(event['profit'], 0n);
+          stats.conservativeProfitAAtomic += parseBigIntOr(event['conservativeProfit'], 0n);
+          break;
+        }
+      }
+    }
+    await params.logEvent({ ...event, replayTs: new Date(clock.now()).toISOString() });
+  };
+
+  const pairScanStateByName = new Map<string, PairScanState>();
+  const cooldowns = new Map<string, number>();
+  const pollIntervalMs = Math.max(1, Math.floor(env.pollIntervalMs));
+
+  while (clock.now() <= tape.endMs) {
+    for (const pair of config.pairs) {
+      if (clock.now() > tape.endMs) break;
+      if (clock.now() < (cooldowns.get(pair.name) ?? 0)) continue;
+
+      const state =
+        pairScanStateByName.get(pair.name) ??
+        ({
+          amountCursor: 0,
+          openOceanTicks: { single: 0, observe: 0, execute: 0 },
+        } satisfies PairScanState);
+      pairScanStateByName.set(pair.name, state);
+      statsFor(pair.name).scans += 1;
+
+      tape.beginScan();
+      try {
+        const result = await scanAndMaybeExecute({
+          connection,
+          wallet,
+          walletBalanceLamports: Number.MAX_SAFE_INTEGER,
+          quoteJupiter,
+          execJupiter: quoteJupiter,
+          providers,
+          state,
+          clock,
+          mode: 'replay',
+          executionStrategy: env.executionStrategy,
+          triggerStrategy: env.triggerStrategy,
+          triggerObserveMs: env.triggerObserveMs,
+          triggerObserveIntervalMs: env.triggerObserveIntervalMs,
+          triggerExecuteMs: env.triggerExecuteMs,
+          triggerExecuteIntervalMs: env.triggerExecuteIntervalMs,
+          triggerBollingerK: env.triggerBollingerK,
+          triggerEmaAlpha: env.triggerEmaAlpha,
+          triggerBollingerMinSamples: env.triggerBollingerMinSamples,
+          triggerMomentumLookback: env.triggerMomentumLookback,
+          triggerTrailDropBps: env.triggerTrailDropBps,
+          triggerEmergencySigma: env.triggerEmergencySigma,
+          triggerAmountMode: env.triggerAmountMode,
+          triggerMaxAmountsPerTick: env.triggerMaxAmountsPerTick,
+          amountOptimizerQuoteBudget: env.amountOptimizerQuoteBudget,
+          amountOptimizerGrid: env.amountOptimizerGrid,
+          dryRunBuild: false,
+          dryRunSimulate: false,
+          livePreflightSimulate: false,
+          logEvent,
+          baseFeeLamports: env.baseFeeLamports,
+          rentBufferLamports: env.rentBufferLamports,
+          computeUnitLimit: env.computeUnitLimit,
+          computeUnitPriceMicroLamports: env.computeUnitPriceMicroLamports,
+          jitoEnabled: env.jitoEnabled,
+          jitoBlockEngineUrl: env.jitoBlockEngineUrl,
+          jitoTipLamports: env.jitoEnabled ? env.jitoTipLamports : 0,
+          jitoTipMode: env.jitoTipMode,
+          jitoMinTipLamports: env.jitoMinTipLamports,
+          jitoMaxTipLamports: env.jitoMaxTipLamports,
+          jitoTipBps: env.jitoTipBps,
+          jitoWaitMs: 0,
+          jitoFallbackRpc: false,
+          jitoSequentialBundle: false,
+          sequentialLeg2MaxWaitMs: env.sequentialLeg2MaxWaitMs,
+          sequentialLeg2PollMs: env.sequentialLeg2PollMs,
+          sequentialLeg2MaxLossBps: env.sequentialLeg2MaxLossBps,
+          sequentialAbortMode: env.sequentialAbortMode,
+          jitoTipAccount: env.jitoTipAccount,
+          openOceanObserveEnabled: env.openOceanObserveEnabled,
+          openOceanExecuteEnabled: env.openOceanExecuteEnabled,
+          openOceanEveryNTicks: env.openOceanEveryNTicks,
+          openOceanJupiterGateBps: env.openOceanJupiterGateBps,
+          openOceanJupiterNearGateBps: env.openOceanJupiterNearGateBps,
+          openOceanMixedLegs: env.openOceanMixedLegs,
+          feeConversionCacheTtlMs: env.feeConversionCacheTtlMs,
+          jup429CooldownMs: env.jup429CooldownMs,
+          minBalanceLamports: 0,
+          pair,
+          useRustCalc: env.useRustCalc,
+          rustCalcPath: env.rustCalcPath,
+        });
+        if (result.reason === 'replay-fill') tape.consumeServed();
+        if (pair.cooldownMs > 0 && result.kind !== 'skipped') {
+          cooldowns.set(pair.name, clock.now() + pair.cooldownMs);
+        }
+      } catch (error) {
+        statsFor(pair.name).errors += 1;
+        await logEvent({ ts: new Date().toISOString(), type: 'error', pair: pair.name, error: String(error) });
+        if (pair.cooldownMs > 0) cooldowns.set(pair.name, clock.now() + pair.cooldownMs);
+      }
+    }
+    clock.advance(pollIntervalMs);
+  }
+
+  const pairs: Record<string, ReplayPairReport> = {};
+  for (const [name, stats] of statsByPair) {
+    pairs[name] = {
+      ...stats,
+      profitAAtomic: stats.profitAAtomic.toString(),
+      conservativeProfitAAtomic: stats.conservativeProfitAAtomic.toString(),
+    };
+  }
+
+  const report: ReplayReport = {
+    tapePath: params.tapePath,
+    tapeEntries: tape.size,
+    startTs: new Date(tape.startMs).toISOString(),
+    endTs: new Date(tape.endMs).toISOString(),
+    pairs,
+  };
+  await params.logEvent({ ts: new Date().toISOString(), type: 'replay_report', ...report });
+  return report;
+}
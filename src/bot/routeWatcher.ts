@@ -0,0 +1,140 @@
+import { PublicKey, type Connection } from '@solana/web3.js';
+
+import { getAssociatedTokenAddress, TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '../solana/tokenUtils.js';
+
+// Without a slot notification for this long the subscriptions are treated as down and pairs go back to polling.
+const SLOT_STALE_MS = 5_000;
+
+// Subscribes to the pool/market accounts each pair's recent routes touched and reports a pair as soon as one of them
+// changes (ACCOUNT_SCAN_ENABLED). Accounts come from the quotes' route plans and from the swap instructions the
+// executor builds; each pair keeps its `maxAccountsPerPair` most recently seen accounts.
+export class RouteAccountWatcher {
+  private readonly accountsByPair = new Map<string, Map<string, number>>();
+  private readonly subscriptions = new Map<string, { id: number; pairs: Set<string> }>();
+  private slotSubscription?: number;
+  private lastSlot?: number;
+  private lastSlotAtMs = 0;
+  private notifications = 0;
+
+  constructor(
+    private readonly params: {
+      connection: Connection;
+      maxAccountsPerPair: number;
+      onPairChanged: (pair: string) => void;
+    },
+  ) {}
+
+  start() {
+    if (this.slotSubscription !== undefined) return;
+    this.slotSubscription = this.params.connection.onSlotChange((info) => {
+      this.lastSlot = info.slot;
+      this.lastSlotAtMs = Date.now();
+    });
+  }
+
+  async stop() {
+    const ids = Array.from(this.subscriptions.values()).map((s) => s.id);
+    this.subscriptions.clear();
+    this.accountsByPair.clear();
+    const slotSubscription = this.slotSubscription;
+    this.slotSubscription = undefined;
+    await Promise.all([
+      ...ids.map((id) => this.params.connection.removeAccountChangeListener(id).catch(() => undefined)),
+      ...(slotSubscription !== undefined
+        ? [this.params.connection.removeSlotChangeListener(slotSubscription).catch(() => undefined)]
+        : []),
+    ]);
+  }
+
+  // Subscriptions are delivering (slot notifications are recent).
+  isLive(nowMs = Date.now()) {
+    return this.slotSubscription !== undefined && nowMs - this.lastSlotAtMs <= SLOT_STALE_MS;
+  }
+
+  // Whether a change to any account can wake this pair up.
+  isWatching(pair: string) {
+    return (this.accountsByPair.get(pair)?.size ?? 0) > 0;
+  }
+
+  noteAccounts(pair: string, accounts: string[]) {
+    const max = Math.max(0, Math.floor(this.params.maxAccountsPerPair));
+    if (!accounts.length || max === 0) return;
+    const nowMs = Date.now();
+    const seen = this.accountsByPair.get(pair) ?? new Map<string, number>();
+    for (const account of accounts) seen.set(account, nowMs);
+    if (seen.size > max) {
+      const byRecency = Array.from(seen.entries()).sort((a, b) => b[1] - a[1]);
+      for (const [account] of byRecency.slice(max)) seen.delete(account);
+    }
+    this.accountsByPair.set(pair, seen);
+    this.sync(pair);
+  }
+
+  // Drops a pair removed from the config.
+  forget(pair: string) {
+    if (!this.accountsByPair.delete(pair)) return;
+    this.sync(pair);
+  }
+
+  private sync(pair: string) {
+    const wanted = this.accountsByPair.get(pair) ?? new Map<string, number>();
+    for (const [account, sub] of Array.from(this.subscriptions.entries())) {
+      if (!sub.pairs.has(pair) || wanted.has(account)) continue;
+      sub.pairs.delete(pair);
+      if (sub.pairs.size) continue;
+      this.subscriptions.delete(account);
+      void this.params.connection.removeAccountChangeListener(sub.id).catch(() => undefined);
+    }
+    for (const account of wanted.keys()) {
+      const existing = this.subscriptions.get(account);
+      if (existing) {
+        existing.pairs.add(pair);
+        continue;
+      }
+      let pubkey: PublicKey;
+      try {
+        pubkey = new PublicKey(account);
+      } catch {
+        wanted.delete(account);
+        continue;
+      }
+      const pairs = new Set([pair]);
+      const id = this.params.connection.onAccountChange(pubkey, () => {
+        this.notifications += 1;
+        for (const p of pairs) this.params.onPairChanged(p);
+      });
+      this.subscriptions.set(account, { id, pairs });
+    }
+  }
+
+  snapshot() {
+    return {
+      live: this.isLive(),
+      lastSlot: this.lastSlot,
+      accounts: this.subscriptions.size,
+      notifications: this.notifications,
+      pairs: Object.fromEntries(Array.from(this.accountsByPair.entries()).map(([pair, seen]) => [pair, seen.size])),
+    };
+  }
+}
+
+// Writable, non-signer accounts of the swap instructions, minus the wallet and its token accounts for the path mints
+// (those change with every fill and say nothing about the pools).
+export function swapRouteAccounts(params: {
+  accounts: Array<{ pubkey: string; isSigner: boolean; isWritable: boolean }>;
+  owner: PublicKey;
+  mints: string[];
+}): string[] {
+  const own = new Set<string>([params.owner.toBase58()]);
+  for (const mint of params.mints) {
+    for (const tokenProgramId of [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]) {
+      own.add(getAssociatedTokenAddress({ owner: params.owner, mint: new PublicKey(mint), tokenProgramId }).toBase58());
+    }
+  }
+  const out = new Set<string>();
+  for (const a of params.accounts) {
+    if (a.isSigner || !a.isWritable || own.has(a.pubkey)) continue;
+    out.add(a.pubkey);
+  }
+  return Array.from(out);
+}
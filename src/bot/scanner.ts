@@ -1,48 +1,37 @@
 import type { Connection, Keypair } from '@solana/web3.js';
 
-import type { BotPair } from '../lib/config.js';
+import { pairLegSlippageBps, pairPath, type BotPair } from '../lib/config.js';
 import type { Logger } from '../lib/logger.js';
 import { isHttp429, type ProviderCircuitBreaker } from '../lib/circuitBreaker.js';
-import type { JupiterClient, QuoteResponse } from '../jupiter/types.js';
-import type { OpenOceanClient } from '../openocean/client.js';
-import type { OpenOceanQuote } from '../openocean/types.js';
+import type { JupiterClient } from '../jupiter/types.js';
+import type { ProviderQuote, QuoteExactInParams, SwapProvider, SwapProviderRegistry } from '../lib/swapProvider.js';
+import type { MintInfoCache } from '../solana/mint.js';
+import type { PriorityFeeEstimator } from '../solana/priorityFees.js';
+import { OpportunityTrace } from '../lib/trace.js';
+import { goldenSectionSearch } from './amountOptimizer.js';
+import { computeUnitRouteKey, type ComputeUnitHistory } from './computeUnits.js';
+import { bidPriorityFee, type PriorityFeeBidPolicy } from './priorityFeeBid.js';
 import { decideWithOptionalRust } from './rustDecision.js';
 
-export type LoopCandidate = {
-  kind: 'loop';
+type PathCandidateBase = {
   amountA: string;
-  quote1: QuoteResponse;
-  quote2: QuoteResponse;
-  decision: { profitable: boolean; profit: string; conservativeProfit: string };
-  feeEstimateLamports: string;
-  feeEstimateInA?: string;
-  jitoTipLamports: number;
-};
-
-export type OpenOceanLoopCandidate = {
-  kind: 'loop_openocean';
-  amountA: string;
-  quote1: OpenOceanQuote;
-  quote2: OpenOceanQuote;
+  // Mints of the cycle, starting at aMint; leg i swaps path[i] -> path[i + 1] (the last leg back into aMint).
+  path: string[];
   decision: { profitable: boolean; profit: string; conservativeProfit: string };
   feeEstimateLamports: string;
   feeEstimateInA?: string;
   jitoTipLamports: number;
+  // Compute unit price the fee estimate used (per route with PRIORITY_FEE_PER_ACCOUNT, bid up with PRIORITY_FEE_BID);
+  // builds use it too.
+  computeUnitPriceMicroLamports: number;
+  trace: OpportunityTrace;
 };
 
-export type TriangularCandidate = {
-  kind: 'triangular';
-  amountA: string;
-  quote1: QuoteResponse;
-  quote2: QuoteResponse;
-  quote3: QuoteResponse;
-  decision: { profitable: boolean; profit: string; conservativeProfit: string };
-  feeEstimateLamports: string;
-  feeEstimateInA?: string;
-  jitoTipLamports: number;
-};
+// One quote per leg; leg i+1 is quoted for leg i's min-out (after transfer fees). `provider` is the id shared by every
+// leg, or 'mixed' when the legs come from different providers (see quotes[i].provider).
+export type PathCandidate = PathCandidateBase & { provider: string; quotes: ProviderQuote[] };
 
-export type Candidate = LoopCandidate | OpenOceanLoopCandidate | TriangularCandidate;
+export type Candidate = PathCandidate;
 
 export type ScanSummary = {
   amountsTried: number;
@@ -52,8 +41,8 @@ export type ScanSummary = {
   computeUnitPriceMicroLamports: number;
   baseFeeLamports: number;
   rentBufferLamports: number;
-  jupiterQuoteCalls: number;
-  openOceanQuoteCalls: number;
+  // Quote calls by provider id.
+  quoteCalls: Record<string, number>;
   feeConversionQuoteCalls: number;
 };
 
@@ -101,7 +90,7 @@ function estimateFeeLamports(params: {
   return (base + rent + priority * txCount + tip).toString();
 }
 
-function computeMinProfitA(params: { amountA: string; minProfitA: string; minProfitBps?: number }): string {
+export function computeMinProfitA(params: { amountA: string; minProfitA: string; minProfitBps?: number }): string {
   const minProfitAbs = BigInt(params.minProfitA);
   const bps = params.minProfitBps;
   if (bps === undefined || bps <= 0) return minProfitAbs.toString();
@@ -133,7 +122,7 @@ function clampNumber(value: number, min: number, max: number) {
 
 function computeJitoTipLamports(params: {
   jitoEnabled: boolean;
-  jitoTipMode: 'fixed' | 'dynamic';
+  jitoTipMode: 'fixed' | 'dynamic' | 'adaptive';
   fixedTipLamports: number;
   minTipLamports: number;
   maxTipLamports: number;
@@ -145,7 +134,8 @@ function computeJitoTipLamports(params: {
   if (!params.jitoEnabled) return 0;
   if (params.fixedTipLamports <= 0 && params.jitoTipMode === 'fixed') return 0;
 
-  if (params.jitoTipMode === 'fixed') return Math.max(0, Math.floor(params.fixedTipLamports));
+  // Adaptive mode hands in the tuned tip as the fixed value (see AdaptiveJitoTip).
+  if (params.jitoTipMode === 'fixed' || params.jitoTipMode === 'adaptive') return Math.max(0, Math.floor(params.fixedTipLamports));
 
   // Dynamic tip is only safe to reason about for SOL-based loops, because the tip is paid in SOL.
   if (params.pair.aMint !== SOL_MINT) return Math.max(0, Math.floor(params.fixedTipLamports));
@@ -163,27 +153,10 @@ function computeJitoTipLamports(params: {
   return clampNumber(asNumber, 0, Math.max(0, Math.floor(params.maxTipLamports)));
 }
 
-function decidePathInTs(params: {
-  amountIn: string;
-  finalOut: string;
-  finalMinOut: string;
-  minProfit: string;
-  feeEstimateInA: string;
-}) {
-  const amountIn = BigInt(params.amountIn);
-  const out = BigInt(params.finalOut);
-  const outMin = BigInt(params.finalMinOut);
-  const minProfit = BigInt(params.minProfit);
-  const feeEstimate = BigInt(params.feeEstimateInA);
-
-  const profit = out - amountIn - feeEstimate;
-  const conservativeProfit = outMin - amountIn - feeEstimate;
-
-  return {
-    profitable: conservativeProfit >= minProfit,
-    profit: profit.toString(),
-    conservativeProfit: conservativeProfit.toString(),
-  };
+// Per-leg transfer fees (keyed by `leg<n>`) for candidate logs; undefined when no leg pays one.
+function summarizeTransferFees(fees: Record<string, string>) {
+  const nonZero = Object.entries(fees).filter(([, fee]) => fee !== '0');
+  return nonZero.length ? Object.fromEntries(nonZero) : undefined;
 }
 
 type FeeConversionCacheEntry = { expiresAt: number; value: Promise<string> };
@@ -243,16 +216,20 @@ async function convertFeeLamportsToAAtomic(params: {
 export async function scanPair(params: {
   connection: Connection;
   wallet: Keypair;
+  // SOL->A price for fee conversion.
   quoteJupiter: Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
-  openOcean?: OpenOceanClient;
+  providers: SwapProviderRegistry;
   providerCircuitBreaker?: ProviderCircuitBreaker;
-  jup429CooldownMs?: number;
-  openOcean429CooldownMs?: number;
   amountsOverride?: string[];
-  enableOpenOcean?: boolean;
-  openOceanJupiterGateBps?: number;
-  openOceanJupiterNearGateBps?: number;
-  openOceanSignaturesEstimate?: number;
+  // TRIGGER_AMOUNT_MODE=optimize: golden-section search over the size range instead of the amount list.
+  amountSearch?: { minAtomic: bigint; maxAtomic: bigint; quoteBudget: number; grid: number };
+  // Whether the secondary providers are consulted this scan, and the primary-profit window (bps of amountA) they
+  // are consulted in.
+  enableSecondaryProviders?: boolean;
+  secondaryGateBps?: number;
+  secondaryNearGateBps?: number;
+  // Also score A->B->A loops that buy on one provider and sell on another.
+  enableMixedLegs?: boolean;
   executionStrategy: 'atomic' | 'sequential';
   pair: BotPair;
   logEvent: Logger;
@@ -263,42 +240,83 @@ export async function scanPair(params: {
   feeConversionCacheTtlMs?: number;
   jitoEnabled: boolean;
   jitoTipLamports: number;
-  jitoTipMode: 'fixed' | 'dynamic';
+  jitoTipMode: 'fixed' | 'dynamic' | 'adaptive';
   jitoMinTipLamports: number;
   jitoMaxTipLamports: number;
   jitoTipBps: number;
   useRustCalc: boolean;
   rustCalcPath: string;
+  // When set, Token-2022 transfer fees are deducted from every leg output before chaining and deciding.
+  mintInfo?: MintInfoCache;
+  // COMPUTE_UNIT_FIT: atomic routes with a recent sample are costed at their fitted limit.
+  computeUnitHistory?: ComputeUnitHistory;
+  // PRIORITY_FEE_PER_ACCOUNT: candidates are priced from the fees recently paid on their route's pool accounts.
+  priorityFeeEstimator?: PriorityFeeEstimator;
+  // PRIORITY_FEE_BID=profit: profitable candidates bid part of their profit above the estimated price.
+  priorityFeeBid?: PriorityFeeBidPolicy;
 }): Promise<ScanSummary> {
   const amounts = parseAmountList(params.pair, params.amountsOverride);
   const breaker = params.providerCircuitBreaker;
-  const jupiterBreakerKey = `jupiter:${params.pair.name}`;
-  const openOceanBreakerKey = `openocean:${params.pair.name}`;
-  const jup429CooldownMs = Math.max(0, Math.floor(params.jup429CooldownMs ?? 30_000));
-  const openOcean429CooldownMs = Math.max(0, Math.floor(params.openOcean429CooldownMs ?? 60_000));
+  const path = pairPath(params.pair);
+  // Pairs fully covered by a local-quote provider (on-chain pools) are scanned with it instead of the primary.
+  const primary = params.providers.quoteSourceFor(path);
+  const breakerKey = (provider: SwapProvider) => `${provider.id}:${params.pair.name}`;
 
-  let jupiterQuoteCalls = 0;
-  let openOceanQuoteCalls = 0;
+  const quoteCalls: Record<string, number> = {};
   let feeConversionQuoteCalls = 0;
 
-  const jupQuote = async (p: Parameters<typeof params.quoteJupiter.quoteExactIn>[0]) => {
-    jupiterQuoteCalls += 1;
-    return await params.quoteJupiter.quoteExactIn(p);
+  const quote = async (provider: SwapProvider, p: QuoteExactInParams) => {
+    quoteCalls[provider.id] = (quoteCalls[provider.id] ?? 0) + 1;
+    return await provider.quoteExactIn(p);
   };
-  const ooQuote = async (p: Parameters<OpenOceanClient['quoteExactIn']>[0]) => {
-    openOceanQuoteCalls += 1;
-    return await (params.openOcean as OpenOceanClient).quoteExactIn(p);
+  // Opens the provider's breaker on HTTP 429; true when it did.
+  const noteRateLimit = async (provider: SwapProvider, error: unknown) => {
+    if (!breaker || !isHttp429(error)) return false;
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'rate_limit',
+      pair: params.pair.name,
+      provider: provider.id,
+      status: 429,
+      where: 'quote',
+    });
+    breaker.open(breakerKey(provider), provider.rateLimitCooldownMs);
+    return true;
+  };
+  // Net amounts credited to the wallet for a leg output ({ out, outMin } after the mint's transfer fee).
+  const afterTransferFee = async (mint: string, quote: { outAmount: string; otherAmountThreshold: string }) => {
+    if (!params.mintInfo) {
+      return { out: quote.outAmount, outMin: quote.otherAmountThreshold, fee: '0' };
+    }
+    const out = await params.mintInfo.amountAfterTransferFee(params.connection, mint, BigInt(quote.outAmount));
+    const outMin = await params.mintInfo.amountAfterTransferFee(params.connection, mint, BigInt(quote.otherAmountThreshold));
+    return { out: out.amount.toString(), outMin: outMin.amount.toString(), fee: out.fee.toString() };
   };
 
   const computeUnitLimit = params.pair.computeUnitLimit ?? params.computeUnitLimit;
+  // A pair override wins; routes without reported accounts keep the loop-wide price.
+  const routeComputeUnitPrice = async (quotes: ProviderQuote[]) => {
+    if (!params.priorityFeeEstimator || params.pair.computeUnitPriceMicroLamports !== undefined) {
+      return computeUnitPriceMicroLamports;
+    }
+    const accounts = uniqStrings(quotes.flatMap((q) => q.routeAccounts ?? []));
+    if (!accounts.length) return computeUnitPriceMicroLamports;
+    return await params.priorityFeeEstimator.getMicroLamports({
+      connection: params.connection,
+      lockedWritableAccounts: accounts,
+    });
+  };
+  // A pair's fixed price is never bid up.
+  const priorityFeeBid = params.pair.computeUnitPriceMicroLamports === undefined ? params.priorityFeeBid : undefined;
+  const routeComputeUnitLimit = (quotes: ProviderQuote[]) =>
+    (params.executionStrategy === 'atomic'
+      ? params.computeUnitHistory?.limitFor(computeUnitRouteKey(quotes), computeUnitLimit)
+      : undefined) ?? computeUnitLimit;
   const computeUnitPriceMicroLamports =
     params.pair.computeUnitPriceMicroLamports ?? params.computeUnitPriceMicroLamports;
   const baseFeeLamports = params.pair.baseFeeLamports ?? params.baseFeeLamports;
   const rentBufferLamports = params.pair.rentBufferLamports ?? params.rentBufferLamports;
-  const openOceanSignaturesEstimate = Math.max(1, Math.floor(params.openOceanSignaturesEstimate ?? 3));
-  const slippageBpsLeg1 = params.pair.slippageBpsLeg1 ?? params.pair.slippageBps;
-  const slippageBpsLeg2 = params.pair.slippageBpsLeg2 ?? params.pair.slippageBps;
-  const slippageBpsLeg3 = params.pair.slippageBpsLeg3 ?? params.pair.slippageBps;
+  const slippageBpsLegs = pairLegSlippageBps(params.pair);
   const feeConversionCacheTtlMs = Math.max(
     10_000,
     Math.floor(Math.max(params.feeConversionCacheTtlMs ?? 60_000, params.pair.cooldownMs ?? 0)),
@@ -307,216 +325,64 @@ export async function scanPair(params: {
   const includeDexes = params.pair.includeDexes;
   const excludeDexes = params.pair.excludeDexes;
 
-  if (breaker?.isOpen(jupiterBreakerKey)) {
+  const candidates: Candidate[] = [];
+  let amountsTried = 0;
+  const summarize = (): ScanSummary => ({
+    amountsTried,
+    candidates,
+    best: pickBestCandidate(candidates),
+    computeUnitLimit,
+    computeUnitPriceMicroLamports,
+    baseFeeLamports,
+    rentBufferLamports,
+    quoteCalls,
+    feeConversionQuoteCalls,
+  });
+
+  if (breaker?.isOpen(breakerKey(primary))) {
     await params.logEvent({
       ts: new Date().toISOString(),
       type: 'skip',
       pair: params.pair.name,
-      provider: 'jupiter',
+      provider: primary.id,
       reason: 'rate-limited',
-      cooldownMsRemaining: breaker.remainingMs(jupiterBreakerKey),
+      cooldownMsRemaining: breaker.remainingMs(breakerKey(primary)),
     });
-    return {
-      amountsTried: 0,
-      candidates: [],
-      best: undefined,
-      computeUnitLimit,
-      computeUnitPriceMicroLamports,
-      baseFeeLamports,
-      rentBufferLamports,
-      jupiterQuoteCalls,
-      openOceanQuoteCalls,
-      feeConversionQuoteCalls,
-    };
+    return summarize();
   }
 
-  if (params.pair.cMint) {
-    const candidates: Candidate[] = [];
-    for (const amountA of amounts) {
-      if (params.pair.maxNotionalA && toBigInt(amountA) > toBigInt(params.pair.maxNotionalA)) {
-        continue;
-      }
-      if (breaker?.isOpen(jupiterBreakerKey)) break;
-
-      try {
-        const quote1 = await jupQuote({
-          inputMint: params.pair.aMint,
-          outputMint: params.pair.bMint,
-          amount: amountA,
-          slippageBps: slippageBpsLeg1,
-          includeDexes,
-          excludeDexes,
-        });
-
-        const quote2 = await jupQuote({
-          inputMint: params.pair.bMint,
-          outputMint: params.pair.cMint,
-          amount: quote1.otherAmountThreshold,
-          slippageBps: slippageBpsLeg2,
-          includeDexes,
-          excludeDexes,
-        });
+  // Secondary providers only quote plain A->B->A loops; providers that cannot compose instructions need
+  // EXECUTION_STRATEGY=sequential (each leg is its own transaction).
+  const secondaries = params.providers
+    .secondaries()
+    .filter((p) => params.executionStrategy === 'sequential' || p.capabilities.atomicComposable);
+  const canUseSecondaries = (params.enableSecondaryProviders ?? true) && secondaries.length > 0 && path.length === 2;
 
-        const quote3 = await jupQuote({
-          inputMint: params.pair.cMint,
-          outputMint: params.pair.aMint,
-          amount: quote2.otherAmountThreshold,
-          slippageBps: slippageBpsLeg3,
-          includeDexes,
-          excludeDexes,
-        });
-
-        const jitoTipLamports = computeJitoTipLamports({
-          jitoEnabled: params.jitoEnabled,
-          jitoTipMode: params.jitoTipMode,
-          fixedTipLamports: params.jitoTipLamports,
-          minTipLamports: params.jitoMinTipLamports,
-          maxTipLamports: params.jitoMaxTipLamports,
-          tipBps: params.jitoTipBps,
-          pair: params.pair,
-          amountA,
-          finalMinOut: quote3.otherAmountThreshold,
-        });
-
-        const feeEstimateLamports = estimateFeeLamports({
-          baseFeeLamports,
-          rentBufferLamports,
-          computeUnitLimit,
-          computeUnitPriceMicroLamports,
-          jitoTipLamports,
-          txCount: 1,
-          signaturesPerTx: 1,
-        });
-
-        feeConversionQuoteCalls += 1;
-        const feeEstimateInA = await convertFeeLamportsToAAtomic({
-          quoteJupiter: params.quoteJupiter,
-          pairKey: params.pair.name,
-          aMint: params.pair.aMint,
-          feeLamports: feeEstimateLamports,
-          slippageBps: params.pair.slippageBps,
-          cacheTtlMs: feeConversionCacheTtlMs,
-        });
-
-        const minProfitA = computeMinProfitA({
-          amountA,
-          minProfitA: params.pair.minProfitA,
-          minProfitBps: params.pair.minProfitBps,
-        });
-        const decision = decidePathInTs({
-          amountIn: amountA,
-          finalOut: quote3.outAmount,
-          finalMinOut: quote3.otherAmountThreshold,
-          minProfit: minProfitA,
-          feeEstimateInA,
-        });
-
-        await params.logEvent({
-          ts: new Date().toISOString(),
-          type: 'candidate',
-          pair: params.pair.name,
-          triangular: true,
-          amountA,
+  // Quotes every leg of the path for one size and records the candidate; 'rate-limited' once the primary returns 429.
+  const scanAmount = async (amountA: string): Promise<Candidate | 'rate-limited' | undefined> => {
+    const trace = new OpportunityTrace();
+    try {
+      const quotes: ProviderQuote[] = [];
+      const nets: Array<{ out: string; outMin: string; fee: string }> = [];
+      let amountIn = amountA;
+      for (let i = 0; i < path.length; i++) {
+        const outputMint = path[(i + 1) % path.length]!;
+        const legQuote = await quote(primary, {
+          inputMint: path[i]!,
+          outputMint,
+          amount: amountIn,
+          slippageBps: slippageBpsLegs[i]!,
           includeDexes,
           excludeDexes,
-          slippageBps: params.pair.slippageBps,
-          slippageBpsLeg1,
-          slippageBpsLeg2,
-          slippageBpsLeg3,
-          outB: quote1.outAmount,
-          outBMin: quote1.otherAmountThreshold,
-          outC: quote2.outAmount,
-          outCMin: quote2.otherAmountThreshold,
-          outA: quote3.outAmount,
-          outAMin: quote3.otherAmountThreshold,
-          feeEstimateLamports,
-          feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
-          jitoTipLamports,
-          profit: decision.profit,
-          conservativeProfit: decision.conservativeProfit,
-          profitable: decision.profitable,
-        });
-
-        candidates.push({
-          kind: 'triangular',
-          amountA,
-          quote1,
-          quote2,
-          quote3,
-          decision,
-          feeEstimateLamports,
-          feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
-          jitoTipLamports,
-        });
-      } catch (error) {
-        await params.logEvent({
-          ts: new Date().toISOString(),
-          type: 'candidate_error',
-          pair: params.pair.name,
-          triangular: true,
-          amountA,
-          error: String(error),
         });
-
-        if (breaker && isHttp429(error)) {
-          await params.logEvent({
-            ts: new Date().toISOString(),
-            type: 'rate_limit',
-            pair: params.pair.name,
-            provider: 'jupiter',
-            status: 429,
-            where: 'quote',
-          });
-          breaker.open(jupiterBreakerKey, jup429CooldownMs);
-          break;
-        }
+        const net = await afterTransferFee(outputMint, legQuote);
+        quotes.push(legQuote);
+        nets.push(net);
+        amountIn = net.outMin;
       }
-    }
-
-    return {
-      amountsTried: amounts.length,
-      candidates,
-      best: pickBestCandidate(candidates),
-      computeUnitLimit,
-      computeUnitPriceMicroLamports,
-      baseFeeLamports,
-      rentBufferLamports,
-      jupiterQuoteCalls,
-      openOceanQuoteCalls,
-      feeConversionQuoteCalls,
-    };
-  }
-
-  const candidates: Candidate[] = [];
-
-  const enableOpenOcean = params.enableOpenOcean ?? true;
-  const canUseOpenOcean = enableOpenOcean && params.executionStrategy === 'sequential' && Boolean(params.openOcean);
-
-  for (const amountA of amounts) {
-    if (params.pair.maxNotionalA && toBigInt(amountA) > toBigInt(params.pair.maxNotionalA)) {
-      continue;
-    }
-    if (breaker?.isOpen(jupiterBreakerKey)) break;
-
-      try {
-        const quote1 = await jupQuote({
-          inputMint: params.pair.aMint,
-          outputMint: params.pair.bMint,
-          amount: amountA,
-          slippageBps: slippageBpsLeg1,
-          includeDexes,
-          excludeDexes,
-        });
-
-        const quote1OutMin = quote1.otherAmountThreshold;
-        const quote2 = await jupQuote({
-          inputMint: params.pair.bMint,
-          outputMint: params.pair.aMint,
-          amount: quote1OutMin,
-          slippageBps: slippageBpsLeg2,
-          includeDexes,
-          excludeDexes,
-        });
+      trace.mark('quote');
+      const first = nets[0]!;
+      const final = nets[nets.length - 1]!;
 
       const jitoTipLamports = computeJitoTipLamports({
         jitoEnabled: params.jitoEnabled,
@@ -527,344 +393,434 @@ export async function scanPair(params: {
         tipBps: params.jitoTipBps,
         pair: params.pair,
         amountA,
-        finalMinOut: quote2.otherAmountThreshold,
+        finalMinOut: final.outMin,
       });
 
-      const feeEstimateLamports = estimateFeeLamports({
+      // Only 2-leg loops may run sequentially; longer paths are always one atomic transaction.
+      const legsComputeUnitLimit = routeComputeUnitLimit(quotes);
+      const floorComputeUnitPrice = await routeComputeUnitPrice(quotes);
+      const txCount = params.executionStrategy === 'sequential' && path.length === 2 ? 2 : 1;
+      const floorFeeEstimateLamports = estimateFeeLamports({
         baseFeeLamports,
         rentBufferLamports,
-        computeUnitLimit,
-        computeUnitPriceMicroLamports,
+        computeUnitLimit: legsComputeUnitLimit,
+        computeUnitPriceMicroLamports: floorComputeUnitPrice,
         jitoTipLamports,
-        txCount: params.executionStrategy === 'sequential' ? 2 : 1,
-        signaturesPerTx: 1,
+        txCount,
+        signaturesPerTx: primary.capabilities.signaturesPerTx,
       });
 
       feeConversionQuoteCalls += 1;
-      const feeEstimateInA = await convertFeeLamportsToAAtomic({
+      const floorFeeEstimateInA = await convertFeeLamportsToAAtomic({
         quoteJupiter: params.quoteJupiter,
         pairKey: params.pair.name,
         aMint: params.pair.aMint,
-        feeLamports: feeEstimateLamports,
+        feeLamports: floorFeeEstimateLamports,
         slippageBps: params.pair.slippageBps,
         cacheTtlMs: feeConversionCacheTtlMs,
       });
+      trace.mark('fee_conversion');
 
-      const decision = await decideWithOptionalRust({
+      const minProfit = computeMinProfitA({
+        amountA,
+        minProfitA: params.pair.minProfitA,
+        minProfitBps: params.pair.minProfitBps,
+      });
+      const floorDecision = await decideWithOptionalRust({
         useRust: params.useRustCalc,
         rustCalcPath: params.rustCalcPath,
         amountIn: amountA,
-        quote1Out: quote1.outAmount,
-        quote1MinOut: quote1.otherAmountThreshold,
-        quote2Out: quote2.outAmount,
-        quote2MinOut: quote2.otherAmountThreshold,
-        minProfit: computeMinProfitA({
-          amountA,
-          minProfitA: params.pair.minProfitA,
-          minProfitBps: params.pair.minProfitBps,
-        }),
-        feeEstimateInInputUnits: feeEstimateInA,
+        quote1Out: first.out,
+        quote1MinOut: first.outMin,
+        quote2Out: final.out,
+        quote2MinOut: final.outMin,
+        minProfit,
+        feeEstimateInInputUnits: floorFeeEstimateInA,
+      });
+      const {
+        computeUnitPriceMicroLamports: legsComputeUnitPrice,
+        feeEstimateLamports,
+        feeEstimateInA,
+        decision,
+      } = bidPriorityFee({
+        policy: priorityFeeBid,
+        computeUnitLimit: legsComputeUnitLimit,
+        floorMicroLamports: floorComputeUnitPrice,
+        txCount,
+        minProfit,
+        feeEstimateLamports: floorFeeEstimateLamports,
+        feeEstimateInA: floorFeeEstimateInA,
+        decision: floorDecision,
       });
+      trace.mark('decision');
 
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'candidate',
         pair: params.pair.name,
-        provider: 'jupiter',
+        traceId: trace.id,
+        provider: primary.id,
         amountA,
+        path,
         includeDexes,
         excludeDexes,
         slippageBps: params.pair.slippageBps,
-        slippageBpsLeg1,
-        slippageBpsLeg2,
+        slippageBpsLegs,
+        legOut: quotes.map((q) => q.outAmount),
+        legOutMin: quotes.map((q) => q.otherAmountThreshold),
+        computeUnitLimit: legsComputeUnitLimit,
+        computeUnitPriceMicroLamports: legsComputeUnitPrice,
+        priorityFeeFloorMicroLamports: priorityFeeBid ? floorComputeUnitPrice : undefined,
         feeEstimateLamports,
         feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
         jitoTipLamports,
+        transferFees: summarizeTransferFees(Object.fromEntries(nets.map((n, i) => [`leg${i + 1}`, n.fee]))),
         profit: decision.profit,
         conservativeProfit: decision.conservativeProfit,
         profitable: decision.profitable,
       });
 
-      candidates.push({
-        kind: 'loop',
+      const candidate: Candidate = {
+        provider: primary.id,
         amountA,
-        quote1,
-        quote2,
+        path,
+        quotes,
         decision,
         feeEstimateLamports,
         feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
         jitoTipLamports,
-      });
+        computeUnitPriceMicroLamports: legsComputeUnitPrice,
+        trace,
+      };
+      candidates.push(candidate);
+      return candidate;
     } catch (error) {
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'candidate_error',
         pair: params.pair.name,
-        provider: 'jupiter',
+        traceId: trace.id,
+        provider: primary.id,
         amountA,
+        path,
         error: String(error),
       });
 
-      if (breaker && isHttp429(error)) {
+      return (await noteRateLimit(primary, error)) ? 'rate-limited' : undefined;
+    }
+  };
+
+  amountsTried = amounts.length;
+  if (params.amountSearch) {
+    // Each evaluation quotes every leg; the fee conversion quote is cached and not counted against the budget.
+    const search = await goldenSectionSearch({
+      minAtomic: params.amountSearch.minAtomic,
+      maxAtomic: params.amountSearch.maxAtomic,
+      grid: params.amountSearch.grid,
+      maxEvaluations: Math.max(2, Math.floor(params.amountSearch.quoteBudget / path.length)),
+      evaluate: async (amountA) => {
+        if (breaker?.isOpen(breakerKey(primary))) return undefined;
+        const candidate = await scanAmount(amountA);
+        return typeof candidate === 'object' ? BigInt(candidate.decision.conservativeProfit) : undefined;
+      },
+    });
+    amountsTried = search.evaluations;
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'amount_curve',
+      pair: params.pair.name,
+      provider: primary.id,
+      minAmountA: params.amountSearch.minAtomic.toString(),
+      maxAmountA: params.amountSearch.maxAtomic.toString(),
+      evaluations: search.evaluations,
+      quoteCalls: quoteCalls[primary.id] ?? 0,
+      bestAmountA: search.best?.amountA,
+      bestConservativeProfit: search.best?.objective,
+      points: search.points.map((p) => ({ amountA: p.amountA, conservativeProfit: p.objective })),
+    });
+  } else {
+    for (const amountA of amounts) {
+      if (params.pair.maxNotionalA && toBigInt(amountA) > toBigInt(params.pair.maxNotionalA)) {
+        continue;
+      }
+      if (breaker?.isOpen(breakerKey(primary))) break;
+      if ((await scanAmount(amountA)) === 'rate-limited') break;
+    }
+  }
+
+  if (!canUseSecondaries) return summarize();
+
+  const bestPrimary = pickBestCandidate(candidates);
+  if (!bestPrimary) {
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'secondary_skip',
+      pair: params.pair.name,
+      reason: 'no_primary_candidate',
+    });
+    return summarize();
+  }
+
+  const gateBps = params.secondaryGateBps;
+  const nearGateBps = params.secondaryNearGateBps;
+  if (gateBps !== undefined) {
+    try {
+      const profit = BigInt(bestPrimary.decision.conservativeProfit);
+      const amountA = BigInt(bestPrimary.amountA);
+      const bps = amountA > 0n ? Number((profit * 10_000n) / amountA) : undefined;
+      if (bps !== undefined && Number.isFinite(bps) && bps < gateBps) {
+        await params.logEvent({
+          ts: new Date().toISOString(),
+          type: 'secondary_skip',
+          pair: params.pair.name,
+          reason: 'primary_gate',
+          primaryBps: bps,
+          gateBps,
+          amountA: bestPrimary.amountA,
+        });
+        return summarize();
+      }
+      if (
+        nearGateBps !== undefined &&
+        Number.isFinite(nearGateBps) &&
+        Math.floor(nearGateBps) > 0 &&
+        bps !== undefined &&
+        Number.isFinite(bps) &&
+        bps > gateBps + Math.floor(nearGateBps)
+      ) {
         await params.logEvent({
           ts: new Date().toISOString(),
-          type: 'rate_limit',
+          type: 'secondary_skip',
           pair: params.pair.name,
-          provider: 'jupiter',
-          status: 429,
-          where: 'quote',
+          reason: 'primary_not_near_gate',
+          primaryBps: bps,
+          gateBps,
+          nearGateBps: Math.floor(nearGateBps),
+          amountA: bestPrimary.amountA,
         });
-        breaker.open(jupiterBreakerKey, jup429CooldownMs);
-        break;
+        return summarize();
       }
+    } catch {
+      // ignore gate parse errors
     }
   }
 
-  if (canUseOpenOcean) {
-    if (breaker?.isOpen(openOceanBreakerKey)) {
-      await params.logEvent({
-        ts: new Date().toISOString(),
-        type: 'openocean_skip',
-        pair: params.pair.name,
-        reason: 'rate-limited',
-        cooldownMsRemaining: breaker.remainingMs(openOceanBreakerKey),
-      });
-      return {
-        amountsTried: amounts.length,
-        candidates,
-        best: pickBestCandidate(candidates),
-        computeUnitLimit,
-        computeUnitPriceMicroLamports,
-        baseFeeLamports,
-        rentBufferLamports,
-        jupiterQuoteCalls,
-        openOceanQuoteCalls,
-        feeConversionQuoteCalls,
-      };
-    }
+  const referenceAmountA = bestPrimary.amountA;
+
+  type LoopNet = { out: string; outMin: string; fee: string };
+
+  // Scores one A->B->A loop with the same fee model and decision as the primary legs. A loop whose legs come from
+  // different providers is recorded as provider 'mixed'.
+  const recordLoop = async (trace: OpportunityTrace, legs: [ProviderQuote, ProviderQuote], nets: [LoopNet, LoopNet]) => {
+    const [net1, net2] = nets;
+    const legProviders = legs.map((q) => q.provider);
+    const provider = legProviders[0] === legProviders[1] ? legProviders[0]! : 'mixed';
+
+    const jitoTipLamports = computeJitoTipLamports({
+      jitoEnabled: params.jitoEnabled,
+      jitoTipMode: params.jitoTipMode,
+      fixedTipLamports: params.jitoTipLamports,
+      minTipLamports: params.jitoMinTipLamports,
+      maxTipLamports: params.jitoMaxTipLamports,
+      tipBps: params.jitoTipBps,
+      pair: params.pair,
+      amountA: referenceAmountA,
+      finalMinOut: net2.outMin,
+    });
+
+    // Legs may carry different signature counts (OpenOcean transactions have several); use their average, rounded up.
+    const signatures = legProviders.reduce((acc, id) => acc + params.providers.get(id).capabilities.signaturesPerTx, 0);
+    const legsComputeUnitLimit = routeComputeUnitLimit(legs);
+    const floorComputeUnitPrice = await routeComputeUnitPrice(legs);
+    const txCount = params.executionStrategy === 'sequential' ? 2 : 1;
+    const floorFeeEstimateLamports = estimateFeeLamports({
+      baseFeeLamports,
+      rentBufferLamports,
+      computeUnitLimit: legsComputeUnitLimit,
+      computeUnitPriceMicroLamports: floorComputeUnitPrice,
+      jitoTipLamports,
+      txCount,
+      signaturesPerTx: Math.ceil(signatures / legs.length),
+    });
+
+    feeConversionQuoteCalls += 1;
+    const floorFeeEstimateInA = await convertFeeLamportsToAAtomic({
+      quoteJupiter: params.quoteJupiter,
+      pairKey: params.pair.name,
+      aMint: params.pair.aMint,
+      feeLamports: floorFeeEstimateLamports,
+      slippageBps: params.pair.slippageBps,
+      cacheTtlMs: feeConversionCacheTtlMs,
+    });
+    trace.mark('fee_conversion');
+
+    const minProfit = computeMinProfitA({
+      amountA: referenceAmountA,
+      minProfitA: params.pair.minProfitA,
+      minProfitBps: params.pair.minProfitBps,
+    });
+    const floorDecision = await decideWithOptionalRust({
+      useRust: params.useRustCalc,
+      rustCalcPath: params.rustCalcPath,
+      amountIn: referenceAmountA,
+      quote1Out: net1.out,
+      quote1MinOut: net1.outMin,
+      quote2Out: net2.out,
+      quote2MinOut: net2.outMin,
+      minProfit,
+      feeEstimateInInputUnits: floorFeeEstimateInA,
+    });
+    const {
+      computeUnitPriceMicroLamports: legsComputeUnitPrice,
+      feeEstimateLamports,
+      feeEstimateInA,
+      decision,
+    } = bidPriorityFee({
+      policy: priorityFeeBid,
+      computeUnitLimit: legsComputeUnitLimit,
+      floorMicroLamports: floorComputeUnitPrice,
+      txCount,
+      minProfit,
+      feeEstimateLamports: floorFeeEstimateLamports,
+      feeEstimateInA: floorFeeEstimateInA,
+      decision: floorDecision,
+    });
+    trace.mark('decision');
+
+    await params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'candidate',
+      pair: params.pair.name,
+      traceId: trace.id,
+      provider,
+      legProviders: provider === 'mixed' ? legProviders : undefined,
+      amountA: referenceAmountA,
+      path,
+      slippageBps: params.pair.slippageBps,
+      slippageBpsLegs,
+      legOut: legs.map((q) => q.outAmount),
+      legOutMin: legs.map((q) => q.otherAmountThreshold),
+      dexId1: legs[0].dexId,
+      dexId2: legs[1].dexId,
+      computeUnitLimit: legsComputeUnitLimit,
+      computeUnitPriceMicroLamports: legsComputeUnitPrice,
+      priorityFeeFloorMicroLamports: priorityFeeBid ? floorComputeUnitPrice : undefined,
+      feeEstimateLamports,
+      feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
+      jitoTipLamports,
+      transferFees: summarizeTransferFees({ leg1: net1.fee, leg2: net2.fee }),
+      profit: decision.profit,
+      conservativeProfit: decision.conservativeProfit,
+      profitable: decision.profitable,
+    });
+
+    candidates.push({
+      provider,
+      amountA: referenceAmountA,
+      path,
+      quotes: legs,
+      decision,
+      feeEstimateLamports,
+      feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
+      jitoTipLamports,
+      computeUnitPriceMicroLamports: legsComputeUnitPrice,
+      trace,
+    });
+  };
 
-    const bestJupiter = pickBestCandidate(candidates);
-    if (!bestJupiter) {
+  const firstLegs: Array<{ provider: SwapProvider; quote: ProviderQuote; net?: LoopNet }> = [
+    { provider: primary, quote: bestPrimary.quotes[0]! },
+  ];
+  for (const secondary of secondaries) {
+    if (breaker?.isOpen(breakerKey(secondary))) {
       await params.logEvent({
         ts: new Date().toISOString(),
-        type: 'openocean_skip',
+        type: 'secondary_skip',
         pair: params.pair.name,
-        reason: 'no_jupiter_candidate',
+        provider: secondary.id,
+        reason: 'rate-limited',
+        cooldownMsRemaining: breaker.remainingMs(breakerKey(secondary)),
       });
-      return {
-        amountsTried: amounts.length,
-        candidates,
-        best: pickBestCandidate(candidates),
-        computeUnitLimit,
-        computeUnitPriceMicroLamports,
-        baseFeeLamports,
-        rentBufferLamports,
-        jupiterQuoteCalls,
-        openOceanQuoteCalls,
-        feeConversionQuoteCalls,
-      };
-    }
-
-    const gateBps = params.openOceanJupiterGateBps;
-    const nearGateBps = params.openOceanJupiterNearGateBps;
-    if (gateBps !== undefined) {
-      try {
-        const profit = BigInt(bestJupiter.decision.conservativeProfit);
-        const amountA = BigInt(bestJupiter.amountA);
-        const bps = amountA > 0n ? Number((profit * 10_000n) / amountA) : undefined;
-        if (bps !== undefined && Number.isFinite(bps) && bps < gateBps) {
-          await params.logEvent({
-            ts: new Date().toISOString(),
-            type: 'openocean_skip',
-            pair: params.pair.name,
-            reason: 'jupiter_gate',
-            jupiterBps: bps,
-            gateBps,
-            amountA: bestJupiter.amountA,
-          });
-          return {
-            amountsTried: amounts.length,
-            candidates,
-            best: pickBestCandidate(candidates),
-            computeUnitLimit,
-            computeUnitPriceMicroLamports,
-            baseFeeLamports,
-            rentBufferLamports,
-            jupiterQuoteCalls,
-            openOceanQuoteCalls,
-            feeConversionQuoteCalls,
-          };
-        }
-        if (
-          nearGateBps !== undefined &&
-          Number.isFinite(nearGateBps) &&
-          Math.floor(nearGateBps) > 0 &&
-          bps !== undefined &&
-          Number.isFinite(bps) &&
-          bps > gateBps + Math.floor(nearGateBps)
-        ) {
-          await params.logEvent({
-            ts: new Date().toISOString(),
-            type: 'openocean_skip',
-            pair: params.pair.name,
-            reason: 'jupiter_not_near_gate',
-            jupiterBps: bps,
-            gateBps,
-            nearGateBps: Math.floor(nearGateBps),
-            amountA: bestJupiter.amountA,
-          });
-          return {
-            amountsTried: amounts.length,
-            candidates,
-            best: pickBestCandidate(candidates),
-            computeUnitLimit,
-            computeUnitPriceMicroLamports,
-            baseFeeLamports,
-            rentBufferLamports,
-            jupiterQuoteCalls,
-            openOceanQuoteCalls,
-            feeConversionQuoteCalls,
-          };
-        }
-      } catch {
-        // ignore gate parse errors
-      }
+      continue;
     }
 
-    const referenceAmountA = bestJupiter.amountA ?? amounts[0];
-
+    const trace = new OpportunityTrace();
     try {
-      const openOcean = params.openOcean as OpenOceanClient;
-
-      const quote1 = await ooQuote({
+      const quote1 = await quote(secondary, {
         inputMint: params.pair.aMint,
         outputMint: params.pair.bMint,
-        amountAtomic: referenceAmountA,
-        slippageBps: slippageBpsLeg1,
+        amount: referenceAmountA,
+        slippageBps: slippageBpsLegs[0]!,
+        includeDexes,
+        excludeDexes,
       });
+      const net1 = await afterTransferFee(params.pair.bMint, quote1);
+      firstLegs.push({ provider: secondary, quote: quote1, net: net1 });
 
-      const quote2 = await ooQuote({
+      const quote2 = await quote(secondary, {
         inputMint: params.pair.bMint,
         outputMint: params.pair.aMint,
-        amountAtomic: quote1.otherAmountThreshold,
-        slippageBps: slippageBpsLeg2,
-      });
-
-      const jitoTipLamports = computeJitoTipLamports({
-        jitoEnabled: params.jitoEnabled,
-        jitoTipMode: params.jitoTipMode,
-        fixedTipLamports: params.jitoTipLamports,
-        minTipLamports: params.jitoMinTipLamports,
-        maxTipLamports: params.jitoMaxTipLamports,
-        tipBps: params.jitoTipBps,
-        pair: params.pair,
-        amountA: referenceAmountA,
-        finalMinOut: quote2.otherAmountThreshold,
-      });
-
-      const feeEstimateLamports = estimateFeeLamports({
-        baseFeeLamports,
-        rentBufferLamports,
-        computeUnitLimit,
-        computeUnitPriceMicroLamports,
-        jitoTipLamports,
-        txCount: 2,
-        signaturesPerTx: openOceanSignaturesEstimate,
-      });
-
-      feeConversionQuoteCalls += 1;
-      const feeEstimateInA = await convertFeeLamportsToAAtomic({
-        quoteJupiter: params.quoteJupiter,
-        pairKey: params.pair.name,
-        aMint: params.pair.aMint,
-        feeLamports: feeEstimateLamports,
-        slippageBps: params.pair.slippageBps,
-        cacheTtlMs: feeConversionCacheTtlMs,
-      });
-
-      const decision = await decideWithOptionalRust({
-        useRust: params.useRustCalc,
-        rustCalcPath: params.rustCalcPath,
-        amountIn: referenceAmountA,
-        quote1Out: quote1.outAmount,
-        quote1MinOut: quote1.otherAmountThreshold,
-        quote2Out: quote2.outAmount,
-        quote2MinOut: quote2.otherAmountThreshold,
-        minProfit: computeMinProfitA({
-          amountA: referenceAmountA,
-          minProfitA: params.pair.minProfitA,
-          minProfitBps: params.pair.minProfitBps,
-        }),
-        feeEstimateInInputUnits: feeEstimateInA,
-      });
-
-      await params.logEvent({
-        ts: new Date().toISOString(),
-        type: 'candidate',
-        pair: params.pair.name,
-        provider: 'openocean',
-        amountA: referenceAmountA,
-        slippageBps: params.pair.slippageBps,
-        slippageBpsLeg1,
-        slippageBpsLeg2,
-        outB: quote1.outAmount,
-        outBMin: quote1.otherAmountThreshold,
-        outA: quote2.outAmount,
-        outAMin: quote2.otherAmountThreshold,
-        dexId1: quote1.dexId,
-        dexId2: quote2.dexId,
-        feeEstimateLamports,
-        feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
-        jitoTipLamports,
-        profit: decision.profit,
-        conservativeProfit: decision.conservativeProfit,
-        profitable: decision.profitable,
+        amount: net1.outMin,
+        slippageBps: slippageBpsLegs[1]!,
+        includeDexes,
+        excludeDexes,
       });
+      const net2 = await afterTransferFee(params.pair.aMint, quote2);
+      trace.mark('quote');
 
-      candidates.push({
-        kind: 'loop_openocean',
-        amountA: referenceAmountA,
-        quote1,
-        quote2,
-        decision,
-        feeEstimateLamports,
-        feeEstimateInA: params.pair.aMint === SOL_MINT ? undefined : feeEstimateInA,
-        jitoTipLamports,
-      });
+      await recordLoop(trace, [quote1, quote2], [net1, net2]);
     } catch (error) {
       await params.logEvent({
         ts: new Date().toISOString(),
         type: 'candidate_error',
         pair: params.pair.name,
-        provider: 'openocean',
+        traceId: trace.id,
+        provider: secondary.id,
         amountA: referenceAmountA,
         error: String(error),
       });
+      await noteRateLimit(secondary, error);
+    }
+  }
 
-      if (breaker && isHttp429(error)) {
-        await params.logEvent({
-          ts: new Date().toISOString(),
-          type: 'rate_limit',
-          pair: params.pair.name,
-          provider: 'openocean',
-          status: 429,
-          where: 'quote',
-        });
-        breaker.open(openOceanBreakerKey, openOcean429CooldownMs);
+  // Mixed loops reuse each provider's leg 1 and only quote leg 2 on the other providers.
+  if (params.enableMixedLegs ?? true) {
+    const sellers = [primary, ...secondaries];
+    for (const first of firstLegs) {
+      for (const second of sellers) {
+        if (second === first.provider || breaker?.isOpen(breakerKey(second))) continue;
+
+        const trace = new OpportunityTrace();
+        try {
+          const net1 = first.net ?? (await afterTransferFee(params.pair.bMint, first.quote));
+          const quote2 = await quote(second, {
+            inputMint: params.pair.bMint,
+            outputMint: params.pair.aMint,
+            amount: net1.outMin,
+            slippageBps: slippageBpsLegs[1]!,
+            includeDexes,
+            excludeDexes,
+          });
+          const net2 = await afterTransferFee(params.pair.aMint, quote2);
+          trace.mark('quote');
+
+          await recordLoop(trace, [first.quote, quote2], [net1, net2]);
+        } catch (error) {
+          await params.logEvent({
+            ts: new Date().toISOString(),
+            type: 'candidate_error',
+            pair: params.pair.name,
+            traceId: trace.id,
+            provider: 'mixed',
+            legProviders: [first.provider.id, second.id],
+            amountA: referenceAmountA,
+            error: String(error),
+          });
+          await noteRateLimit(second, error);
+        }
       }
     }
   }
 
-  return {
-    amountsTried: amounts.length,
-    candidates,
-    best: pickBestCandidate(candidates),
-    computeUnitLimit,
-    computeUnitPriceMicroLamports,
-    baseFeeLamports,
-    rentBufferLamports,
-    jupiterQuoteCalls,
-    openOceanQuoteCalls,
-    feeConversionQuoteCalls,
-  };
+  return summarize();
 }
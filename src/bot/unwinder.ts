@@ -0,0 +1,369 @@
+import type { Connection, Keypair } from '@solana/web3.js';
+
+import type { Logger, LogEvent } from '../lib/logger.js';
+import type { JupiterClient } from '../jupiter/types.js';
+import type { TokenBalanceCache } from '../solana/tokenBalanceCache.js';
+import { readTxMintDelta, signAndSendV6Swap } from './executor.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+type StrandedPosition = {
+  pair: string;
+  wallet: string;
+  aMint: string;
+  mint: string;
+  amountAtomic: bigint;
+  // A spent to acquire the position (0 when it is pure over-delivery of a profitable loop).
+  costBasisA: bigint;
+  referenceAmountA: bigint;
+  attempts: number;
+  nextAttemptAtMs: number;
+  firstSeenAtMs: number;
+};
+
+// Leg 1 of an aborted sequential loop whose B had not landed when its `pnl` was taken.
+type PendingFill = {
+  pair: string;
+  wallet: string;
+  aMint: string;
+  mint: string;
+  sig1: string;
+  costBasisA: bigint;
+  referenceAmountA: bigint;
+  attempts: number;
+  nextAttemptAtMs: number;
+};
+
+// A configured pair, for scanning the wallets for balances of its non-A mints.
+export type UnwindReconcileTarget = {
+  pair: string;
+  aMint: string;
+  mints: string[];
+  amountA: bigint;
+};
+
+export type UnwinderConfig = {
+  maxLossBps: number;
+  slippageBps: number;
+  maxAttempts: number;
+  retryBaseMs: number;
+  retryMaxMs: number;
+  dustBps: number;
+  computeUnitPriceMicroLamports?: number;
+  // SEQUENTIAL_ABORT_MODE: with 'hold', B kept by an aborted leg 2 stays in the wallet.
+  sequentialAbortMode: 'sell' | 'hold';
+};
+
+function parseSignedBigInt(value: unknown) {
+  if (typeof value !== 'string' || !/^\-?\d+$/.test(value)) return undefined;
+  return BigInt(value);
+}
+
+// Sells B/C tokens left behind by failed or over-filled loops back to A via Jupiter.
+// Positions come from `pnl` events (built from fetchPnlSnapshot pre/post balances) and are sold from the
+// wallet that executed the loop. The queue lives in memory: `reconcile` rebuilds it from wallet balances at startup,
+// and an aborted leg 1 whose B arrives after its `pnl` is picked up from the leg-1 transaction later.
+export class Unwinder {
+  private readonly positions = new Map<string, StrandedPosition>();
+  private readonly pendingFills = new Map<string, PendingFill>();
+
+  constructor(
+    private readonly config: UnwinderConfig,
+    private readonly deps: {
+      connection: Connection;
+      wallets: Keypair[];
+      jupiter: Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
+      tokenBalanceCache: TokenBalanceCache;
+      logEvent: Logger;
+    },
+  ) {}
+
+  get size() {
+    return this.positions.size + this.pendingFills.size;
+  }
+
+  observe(event: LogEvent) {
+    if (event['type'] !== 'pnl') return;
+    if (this.config.sequentialAbortMode === 'hold' && event['leg2Aborted'] !== undefined) return;
+    const pair = typeof event['pair'] === 'string' ? (event['pair'] as string) : undefined;
+    const aMint = typeof event['aMint'] === 'string' ? (event['aMint'] as string) : undefined;
+    if (!pair || !aMint) return;
+    const wallet = this.resolveWallet(event['wallet']);
+    if (!wallet) return;
+
+    const deltaA = parseSignedBigInt(event['deltaAAtomic']) ?? 0n;
+    const amountA = parseSignedBigInt(event['amountA']) ?? 0n;
+    let basisLeft = deltaA < 0n ? -deltaA : 0n;
+
+    const bMint = typeof event['bMint'] === 'string' ? (event['bMint'] as string) : undefined;
+    const sig1 = typeof event['sig1'] === 'string' ? (event['sig1'] as string) : undefined;
+    if (event['leg2Aborted'] !== undefined && sig1 && bMint && bMint !== aMint && (parseSignedBigInt(event['deltaBAtomic']) ?? 0n) <= 0n) {
+      // Leg 2 never went out and the snapshot saw no B yet: read what leg 1 delivered once its transaction is served.
+      this.pendingFills.set(sig1, {
+        pair,
+        wallet: wallet.publicKey.toBase58(),
+        aMint,
+        mint: bMint,
+        sig1,
+        costBasisA: basisLeft,
+        referenceAmountA: amountA,
+        attempts: 0,
+        nextAttemptAtMs: Date.now() + Math.max(0, this.config.retryBaseMs),
+      });
+      return;
+    }
+
+    const legs: Array<{ mint: unknown; delta: unknown }> = [
+      { mint: event['bMint'], delta: event['deltaBAtomic'] },
+      { mint: event['cMint'], delta: event['deltaCAtomic'] },
+      ...(Array.isArray(event['extraMints'])
+        ? (event['extraMints'] as Array<Record<string, unknown>>).map((m) => ({ mint: m?.['mint'], delta: m?.['deltaAtomic'] }))
+        : []),
+    ];
+    for (const leg of legs) {
+      const mint = typeof leg.mint === 'string' ? leg.mint : undefined;
+      const delta = parseSignedBigInt(leg.delta);
+      if (!mint || mint === aMint || delta === undefined || delta <= 0n) continue;
+      this.add({
+        pair,
+        wallet: wallet.publicKey.toBase58(),
+        aMint,
+        mint,
+        amountAtomic: delta,
+        costBasisA: basisLeft,
+        referenceAmountA: amountA,
+      });
+      basisLeft = 0n;
+    }
+  }
+
+  // Events without a `wallet` field predate multi-wallet support and belong to the primary wallet.
+  private resolveWallet(value: unknown) {
+    if (typeof value !== 'string') return this.deps.wallets[0];
+    return this.deps.wallets.find((w) => w.publicKey.toBase58() === value);
+  }
+
+  private add(params: {
+    pair: string;
+    wallet: string;
+    aMint: string;
+    mint: string;
+    amountAtomic: bigint;
+    costBasisA: bigint;
+    referenceAmountA: bigint;
+  }) {
+    const key = `${params.wallet}:${params.aMint}:${params.mint}`;
+    const now = Date.now();
+    const existing = this.positions.get(key);
+    if (existing) {
+      existing.amountAtomic += params.amountAtomic;
+      existing.costBasisA += params.costBasisA;
+      if (params.referenceAmountA > existing.referenceAmountA) existing.referenceAmountA = params.referenceAmountA;
+      existing.attempts = 0;
+      existing.nextAttemptAtMs = now;
+      return existing;
+    }
+    const position = { ...params, attempts: 0, nextAttemptAtMs: now, firstSeenAtMs: now };
+    this.positions.set(key, position);
+    return position;
+  }
+
+  // Queues every balance of a configured non-A mint held by a loaded wallet, so B/C stranded before a restart (the queue
+  // is not persisted) is still sold. Native SOL is skipped: it also pays the fees, so a leftover cannot be told apart.
+  // The A spent on these balances is unknown, so UNWIND_MAX_LOSS_BPS does not apply to them; dust is still dropped.
+  async reconcile(targets: UnwindReconcileTarget[]) {
+    if (this.config.sequentialAbortMode === 'hold') return;
+    for (const wallet of this.deps.wallets) {
+      const walletKey = wallet.publicKey.toBase58();
+      const seen = new Set<string>();
+      for (const target of targets) {
+        for (const mint of target.mints) {
+          if (mint === target.aMint || mint === SOL_MINT || seen.has(mint)) continue;
+          seen.add(mint);
+          if (Array.from(this.positions.values()).some((p) => p.wallet === walletKey && p.mint === mint)) continue;
+          let balance: bigint;
+          try {
+            balance = await this.readBalanceAtomic(wallet, mint);
+          } catch (e) {
+            await this.deps.logEvent({
+              ts: new Date().toISOString(),
+              type: 'unwind',
+              pair: target.pair,
+              status: 'reconcile-failed',
+              wallet: walletKey,
+              mint,
+              error: String(e),
+            });
+            continue;
+          }
+          if (balance <= 0n) continue;
+          const position = this.add({
+            pair: target.pair,
+            wallet: walletKey,
+            aMint: target.aMint,
+            mint,
+            amountAtomic: balance,
+            costBasisA: 0n,
+            referenceAmountA: target.amountA,
+          });
+          await this.emit(position, 'reconciled');
+        }
+      }
+    }
+  }
+
+  // Resolves a pending leg-1 fill into a position. Returns false while the transaction meta is not served yet.
+  private async resolveFill(fill: PendingFill): Promise<boolean> {
+    const wallet = this.deps.wallets.find((w) => w.publicKey.toBase58() === fill.wallet);
+    if (!wallet) return true;
+    let amount = await readTxMintDelta({ connection: this.deps.connection, signature: fill.sig1, owner: wallet.publicKey, mint: fill.mint });
+    if (amount === undefined) {
+      if (fill.attempts < this.config.maxAttempts) return false;
+      // Out of retries without the meta: fall back to whatever the wallet holds now.
+      amount = await this.readBalanceAtomic(wallet, fill.mint);
+    }
+    if (amount > 0n) {
+      this.add({
+        pair: fill.pair,
+        wallet: fill.wallet,
+        aMint: fill.aMint,
+        mint: fill.mint,
+        amountAtomic: amount,
+        costBasisA: fill.costBasisA,
+        referenceAmountA: fill.referenceAmountA,
+      });
+    }
+    return true;
+  }
+
+  private walletOf(position: StrandedPosition) {
+    const wallet = this.deps.wallets.find((w) => w.publicKey.toBase58() === position.wallet);
+    if (!wallet) throw new Error(`unwind: wallet ${position.wallet} is no longer loaded`);
+    return wallet;
+  }
+
+  private async readBalanceAtomic(wallet: Keypair, mint: string) {
+    const owner = wallet.publicKey;
+    if (mint === SOL_MINT) return BigInt(await this.deps.connection.getBalance(owner, 'confirmed'));
+    const balance = await this.deps.tokenBalanceCache.get({ connection: this.deps.connection, owner, mint, ttlMs: 0 });
+    return balance?.amountAtomic && /^\d+$/.test(balance.amountAtomic) ? BigInt(balance.amountAtomic) : 0n;
+  }
+
+  private async emit(position: StrandedPosition, status: string, extra: Record<string, unknown> = {}) {
+    await this.deps.logEvent({
+      ts: new Date().toISOString(),
+      type: 'unwind',
+      pair: position.pair,
+      status,
+      wallet: position.wallet,
+      aMint: position.aMint,
+      mint: position.mint,
+      amountAtomic: position.amountAtomic.toString(),
+      costBasisA: position.costBasisA.toString(),
+      attempt: position.attempts,
+      ...extra,
+    });
+  }
+
+  private scheduleRetry(position: StrandedPosition, nowMs: number) {
+    const delay = Math.min(this.config.retryMaxMs, this.config.retryBaseMs * Math.pow(2, Math.max(0, position.attempts - 1)));
+    position.nextAttemptAtMs = nowMs + Math.max(0, delay);
+  }
+
+  // Attempts every due position once. Call between scan batches so no loop is mid-flight on the same mints.
+  async tick() {
+    const now = Date.now();
+    for (const [sig1, fill] of Array.from(this.pendingFills.entries())) {
+      if (fill.nextAttemptAtMs > now) continue;
+      fill.attempts += 1;
+      const done = await this.resolveFill(fill).catch(() => false);
+      if (done || fill.attempts > this.config.maxAttempts) this.pendingFills.delete(sig1);
+      else fill.nextAttemptAtMs = Date.now() + Math.max(0, this.config.retryBaseMs);
+    }
+    for (const [key, position] of Array.from(this.positions.entries())) {
+      if (position.nextAttemptAtMs > now) continue;
+      position.attempts += 1;
+      try {
+        const done = await this.unwindOne(position);
+        if (done) this.positions.delete(key);
+        else this.scheduleRetry(position, Date.now());
+      } catch (e) {
+        await this.emit(position, 'failed', { error: String(e) });
+        this.scheduleRetry(position, Date.now());
+      }
+
+      if (this.positions.has(key) && position.attempts >= this.config.maxAttempts) {
+        await this.emit(position, 'abandoned', { maxAttempts: this.config.maxAttempts });
+        this.positions.delete(key);
+      }
+    }
+  }
+
+  private async unwindOne(position: StrandedPosition): Promise<boolean> {
+    const wallet = this.walletOf(position);
+    const balance = await this.readBalanceAtomic(wallet, position.mint);
+    const amount = position.amountAtomic < balance ? position.amountAtomic : balance;
+    if (amount <= 0n) {
+      await this.emit(position, 'gone', { balanceAtomic: balance.toString() });
+      return true;
+    }
+
+    const quote = await this.deps.jupiter.quoteExactIn({
+      inputMint: position.mint,
+      outputMint: position.aMint,
+      amount: amount.toString(),
+      slippageBps: this.config.slippageBps,
+    });
+    const outA = BigInt(quote.otherAmountThreshold);
+
+    const dustThresholdA = (position.referenceAmountA * BigInt(Math.max(0, this.config.dustBps))) / 10_000n;
+    if (outA <= dustThresholdA) {
+      await this.emit(position, 'dust', { quoteOutA: outA.toString(), dustThresholdA: dustThresholdA.toString() });
+      return true;
+    }
+
+    // Basis is pro-rated when only part of the position is still in the wallet.
+    const basisA = position.amountAtomic > 0n ? (position.costBasisA * amount) / position.amountAtomic : 0n;
+    const lossBps = basisA > 0n && outA < basisA ? Number(((basisA - outA) * 10_000n) / basisA) : 0;
+    if (lossBps > this.config.maxLossBps) {
+      await this.emit(position, 'skipped-loss', {
+        amountInAtomic: amount.toString(),
+        quoteOutA: outA.toString(),
+        basisA: basisA.toString(),
+        lossBps,
+        maxLossBps: this.config.maxLossBps,
+      });
+      return false;
+    }
+
+    const owner = wallet.publicKey;
+    const preA = await this.readBalanceAtomic(wallet, position.aMint);
+    const preSol = position.aMint === SOL_MINT ? preA : BigInt(await this.deps.connection.getBalance(owner, 'confirmed'));
+    const swap = await this.deps.jupiter.buildSwapTransaction({
+      quote,
+      userPublicKey: owner.toBase58(),
+      computeUnitPriceMicroLamports: this.config.computeUnitPriceMicroLamports,
+    });
+    // Throws when the swap fails on-chain; tick() then keeps the position for a retry.
+    const signature = await signAndSendV6Swap({
+      connection: this.deps.connection,
+      wallet,
+      swapTransactionB64: swap.swapTransaction,
+      lastValidBlockHeight: swap.lastValidBlockHeight,
+    });
+    const postA = await this.readBalanceAtomic(wallet, position.aMint);
+    const postSol = position.aMint === SOL_MINT ? postA : BigInt(await this.deps.connection.getBalance(owner, 'confirmed'));
+
+    await this.emit(position, 'sold', {
+      signature,
+      amountInAtomic: amount.toString(),
+      quoteOutA: quote.outAmount,
+      minOutA: quote.otherAmountThreshold,
+      basisA: basisA.toString(),
+      lossBps,
+      deltaAAtomic: (postA - preA).toString(),
+      deltaSolLamports: Number(postSol - preSol),
+    });
+    return true;
+  }
+}
@@ -1,26 +1,51 @@
 import 'dotenv/config';
 
-import { loadConfig } from './lib/config.js';
-import { sleep } from './lib/time.js';
-import { loadWallet } from './solana/wallet.js';
+import { loadConfig, pairPath, type BotPair } from './lib/config.js';
+import { Wakeup } from './lib/time.js';
+import { loadWallets } from './solana/wallet.js';
+import { WalletPool } from './solana/walletPool.js';
 import { makeConnection } from './solana/connection.js';
 import { makeJupiterClient } from './jupiter/client.js';
 import { withJupiterQuoteCache } from './jupiter/cache.js';
 import { withJupiterRateLimit } from './jupiter/limit.js';
+import { withJupiterQuoteTape } from './jupiter/tape.js';
 import { scanAndMaybeExecute, type PairScanState } from './bot/loop.js';
+import { runReplay } from './bot/replay.js';
+import { Unwinder } from './bot/unwinder.js';
+import { AdaptiveJitoTip, JitoBundleTracker } from './bot/jitoBundleTracker.js';
+import { JitoSearcherPool } from './bot/jitoSender.js';
+import { RouteAccountWatcher } from './bot/routeWatcher.js';
+import { ComputeUnitHistory } from './bot/computeUnits.js';
 import { getEnv } from './lib/env.js';
 import { createJsonlLogger, type LogEvent, type Logger } from './lib/logger.js';
 import { setupWalletTokenAccounts } from './solana/setupWallet.js';
 import { forEachLimit } from './lib/concurrency.js';
 import { LookupTableCache } from './solana/lookupTableCache.js';
+import { LookupTableManager } from './solana/lookupTableManager.js';
 import { PriorityFeeEstimator } from './solana/priorityFees.js';
 import { OpenOceanClient } from './openocean/client.js';
+import { openOceanSwapProvider } from './openocean/provider.js';
+import { jupiterSwapProvider } from './jupiter/provider.js';
+import { SwapProviderRegistry } from './lib/swapProvider.js';
+import { AmmQuoteEngine } from './amm/engine.js';
+import { loadAmmPools } from './amm/pools.js';
+import { ammSwapProvider } from './amm/provider.js';
 import { ProviderCircuitBreaker } from './lib/circuitBreaker.js';
 import { AdaptiveTokenBucketRateLimiter } from './lib/rateLimiter.js';
 import { startHealthServer } from './lib/health.js';
 import { BalanceCache } from './solana/balanceCache.js';
 import { MetricsCollector } from './lib/metrics.js';
 import { TokenBalanceCache } from './solana/tokenBalanceCache.js';
+import { mintInfoCache } from './solana/mint.js';
+import { createQuoteTapeRecorder } from './lib/quoteTape.js';
+import {
+  createRiskStateStore,
+  type PersistedPairSchedule,
+  type PersistedRiskState,
+  type PersistedSchedule,
+} from './lib/riskStateStore.js';
+import { createExecutionLease } from './lib/executionLease.js';
+import { GlobalRiskGuard } from './lib/globalRisk.js';
 import { stat, readFile } from 'node:fs/promises';
 
 const SOL_MINT = 'So11111111111111111111111111111111111111112';
@@ -36,10 +61,17 @@ function hashString32(value: string) {
 }
 
 function parseArgs(argv: string[]) {
-  const args = new Set(argv.slice(2));
+  const list = argv.slice(2);
+  const args = new Set(list);
+  const replayIndex = list.indexOf('--replay');
+  const replayPath = replayIndex >= 0 ? list[replayIndex + 1] : undefined;
+  if (replayIndex >= 0 && (!replayPath || replayPath.startsWith('--'))) {
+    throw new Error('--replay requires a quote tape path (eg. --replay ./logs/quotes.jsonl)');
+  }
   return {
     once: args.has('--once'),
     setupWallet: args.has('--setup-wallet'),
+    replayPath,
   };
 }
 
@@ -85,25 +117,39 @@ async function main() {
       ...config,
       pairs: config.pairs.filter((pair) => {
         if (blacklist.pairs.has(pair.name)) return false;
-        if (blacklist.mints.has(pair.aMint)) return false;
-        if (blacklist.mints.has(pair.bMint)) return false;
-        if (pair.cMint && blacklist.mints.has(pair.cMint)) return false;
-        return true;
+        return !pairPath(pair).some((mint) => blacklist.mints.has(mint));
       }),
     };
   }
 
   let blacklist = await loadBlacklist();
   let config = applyBlacklist(await loadConfig(env.configPath), blacklist);
+  if (args.replayPath) {
+    const replayLogEvent = createJsonlLogger(env.logPath, {
+      rotateMaxBytes: env.logRotateMaxBytes,
+      rotateMaxFiles: env.logRotateMaxFiles,
+    });
+    const report = await runReplay({ env, config, tapePath: args.replayPath, logEvent: replayLogEvent });
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
   let configStat: { mtimeMs: number; size: number } | undefined;
   let lastReloadAtMs = 0;
   let lastBlacklistReloadAtMs = 0;
   const connection = makeConnection({ rpcUrl: env.solanaRpcUrl, wsUrl: env.solanaWsUrl, commitment: env.solanaCommitment });
-  const wallet = loadWallet(env.walletSecretKey);
+  const walletPool = new WalletPool(loadWallets(env.walletSecretKey), env.walletAssignment);
+  walletPool.assertAssignable(config.pairs);
+  // The primary (first) wallet keeps the single-wallet roles: startup balance, low-balance alert and risk-state key.
+  const wallet = walletPool.primary;
   const balanceLamports = await connection.getBalance(wallet.publicKey, 'confirmed');
   let walletBalanceLamportsSnapshot = balanceLamports;
   let autoTuneSnapshot: Record<string, unknown> = {};
   const metrics = new MetricsCollector();
+  const globalRisk = new GlobalRiskGuard();
+  globalRisk.setLimits(config.risk);
+  let unwinder: Unwinder | undefined;
+  let jitoBundleTracker: JitoBundleTracker | undefined;
   const baseLogEvent = createJsonlLogger(env.logPath, {
     rotateMaxBytes: env.logRotateMaxBytes,
     rotateMaxFiles: env.logRotateMaxFiles,
@@ -118,11 +164,38 @@ async function main() {
       };
   const logEvent: Logger = async (event: LogEvent) => {
     metrics.observe(event);
+    globalRisk.observe(event);
+    unwinder?.observe(event);
+    jitoBundleTracker?.observe(event);
     await writeLogEvent(event);
   };
 
   const effectiveJitoEnabled = env.jitoEnabled && (env.mode === 'live' || env.dryRunIncludeJitoTip);
   const effectiveJitoTipLamports = effectiveJitoEnabled ? env.jitoTipLamports : 0;
+  if (env.jitoEnabled && env.mode === 'live') {
+    jitoBundleTracker = new JitoBundleTracker(
+      { connection, logEvent },
+      { pollMs: env.jitoBundlePollMs, resolveTimeoutMs: env.jitoBundleResolveTimeoutMs },
+    );
+    jitoBundleTracker.start();
+  }
+  const jitoSearcherPool = new JitoSearcherPool(env.jitoBlockEngineUrls, env.jitoSendPolicy);
+  if (env.jitoEnabled && env.mode === 'live') jitoSearcherPool.start({ intervalMs: env.jitoProbeIntervalMs, authKeypair: wallet });
+  const adaptiveJitoTip =
+    effectiveJitoEnabled && env.jitoTipMode === 'adaptive'
+      ? new AdaptiveJitoTip(
+          {
+            initialTipLamports: env.jitoTipLamports,
+            minTipLamports: env.jitoMinTipLamports,
+            maxTipLamports: env.jitoMaxTipLamports,
+            targetLandingRate: env.jitoTargetLandingRate,
+            windowSize: env.jitoAdaptiveWindow,
+            stepBps: env.jitoAdaptiveStepBps,
+          },
+          logEvent,
+        )
+      : undefined;
+  if (adaptiveJitoTip) jitoBundleTracker?.onOutcome((outcome) => adaptiveJitoTip.record(outcome));
   const priorityFeeEstimator = new PriorityFeeEstimator({
     strategy: env.priorityFeeStrategy,
     level: env.priorityFeeLevel,
@@ -131,13 +204,23 @@ async function main() {
     heliusApiKey: env.heliusApiKey,
     heliusRpcUrl: env.heliusRpcUrl,
     targetAccountLimit: env.priorityFeeTargetAccountLimit,
+    accountRefreshMs: env.priorityFeeAccountRefreshMs,
   });
 
   const allowPriorityFees = !(effectiveJitoEnabled && !env.priorityFeeWithJito);
+  const dynamicPriorityFees =
+    allowPriorityFees && env.computeUnitPriceMicroLamports === 0 && env.priorityFeeStrategy !== 'off';
   let dynamicComputeUnitPriceMicroLamports = allowPriorityFees ? env.computeUnitPriceMicroLamports : 0;
-  if (allowPriorityFees && dynamicComputeUnitPriceMicroLamports === 0 && env.priorityFeeStrategy !== 'off') {
+  if (dynamicPriorityFees) {
     dynamicComputeUnitPriceMicroLamports = await priorityFeeEstimator.getMicroLamports({ connection });
   }
+  // The loop-wide estimate above stays the price for routes whose accounts are unknown.
+  const routePriorityFeeEstimator = dynamicPriorityFees && env.priorityFeePerAccount ? priorityFeeEstimator : undefined;
+  // Bids start at the price above (or the route's) and stop at the same ceiling as the estimates.
+  const priorityFeeBid =
+    allowPriorityFees && env.priorityFeeBid === 'profit'
+      ? { profitBps: env.priorityFeeBidProfitBps, maxMicroLamports: env.priorityFeeMaxMicroLamports }
+      : undefined;
 
   const jupBaseRps =
     env.jupRps > 0 ? env.jupRps : 1000 / Math.max(1, env.jupMinIntervalMs);
@@ -160,7 +243,16 @@ async function main() {
     maxDelayMs: env.jupBackoffMaxMs,
     limiter: jupiterLimiter,
   });
-  const cachedQuoteJupiter = withJupiterQuoteCache(rateLimitedQuoteJupiter, env.quoteCacheTtlMs);
+  const quoteTapeRecorder = env.quoteTapePath
+    ? createQuoteTapeRecorder(env.quoteTapePath, {
+        rotateMaxBytes: env.logRotateMaxBytes,
+        rotateMaxFiles: env.logRotateMaxFiles,
+      })
+    : undefined;
+  const cachedQuoteJupiter = withJupiterQuoteCache(
+    quoteTapeRecorder ? withJupiterQuoteTape(rateLimitedQuoteJupiter, quoteTapeRecorder) : rateLimitedQuoteJupiter,
+    env.quoteCacheTtlMs,
+  );
 
   const execJupiter = makeJupiterClient({
     swapBaseUrl: env.jupSwapBaseUrl,
@@ -194,12 +286,113 @@ async function main() {
         disabledDexIds: env.openOceanDisabledDexIds,
         referrer: env.openOceanReferrer,
         referrerFee: env.openOceanReferrerFee,
+        recordQuote: quoteTapeRecorder,
       })
     : undefined;
+  const swapProviders = new SwapProviderRegistry(
+    jupiterSwapProvider({
+      quote: cachedQuoteJupiter,
+      build: rateLimitedExecJupiter.kind === 'ultra' ? undefined : rateLimitedExecJupiter,
+      rateLimitCooldownMs: env.jup429CooldownMs,
+    }),
+  );
+  if (openOcean) {
+    swapProviders.register(
+      openOceanSwapProvider({
+        client: openOcean,
+        signaturesPerTx: env.openOceanSignaturesEstimate,
+        rateLimitCooldownMs: env.openOcean429CooldownMs,
+      }),
+    );
+  }
+  const ammEngine = env.ammPoolsPath
+    ? new AmmQuoteEngine({ connection, pools: await loadAmmPools(env.ammPoolsPath), logEvent })
+    : undefined;
+  if (ammEngine) {
+    await ammEngine.start();
+    swapProviders.register(
+      ammSwapProvider({ engine: ammEngine, executor: swapProviders.primary, crossCheckMaxBps: env.ammCrossCheckMaxBps }),
+    );
+    await logEvent({ ts: new Date().toISOString(), type: 'amm_engine_started', pools: ammEngine.snapshot() });
+  }
+  const nextScanAtMs = new Map<string, number>();
+  const lastScanStartedAtMs = new Map<string, number>();
+
+  // ACCOUNT_SCAN_ENABLED: a change on any pool a pair's recent routes touched pulls its next scan forward (at most once
+  // per ACCOUNT_SCAN_MIN_INTERVAL_MS) and wakes the loop; polling stays as the fallback.
+  const scanWakeup = new Wakeup();
+  const routeWatcher =
+    env.accountScanEnabled && !args.once
+      ? new RouteAccountWatcher({
+          connection,
+          maxAccountsPerPair: env.accountScanMaxAccountsPerPair,
+          onPairChanged: (name) => {
+            const current = nextScanAtMs.get(name);
+            if (current === undefined) return;
+            const at = Math.max(Date.now(), (lastScanStartedAtMs.get(name) ?? 0) + env.accountScanMinIntervalMs);
+            if (at >= current) return;
+            nextScanAtMs.set(name, at);
+            scanWakeup.wake();
+          },
+        })
+      : undefined;
+  routeWatcher?.start();
+  // With live subscriptions a watched pair only needs the (slower) fallback poll.
+  const scanIntervalMs = (name: string) =>
+    routeWatcher?.isLive() && routeWatcher.isWatching(name)
+      ? Math.max(env.pollIntervalMs, env.accountScanFallbackPollMs)
+      : env.pollIntervalMs;
   const lookupTableCache = new LookupTableCache(env.lutCacheTtlMs);
+  const lookupTableManager = env.altManagerEnabled
+    ? new LookupTableManager({
+        connection,
+        authority: wallet,
+        mode: env.mode,
+        minOccurrences: env.altMinKeyOccurrences,
+        maxTables: env.altMaxTables,
+        maintainIntervalMs: env.altMaintainIntervalMs,
+        statePath: env.altStatePath,
+        logEvent,
+      })
+    : undefined;
+  await lookupTableManager?.load();
+  const computeUnitHistory =
+    env.computeUnitFit === 'simulate'
+      ? new ComputeUnitHistory({ marginBps: env.computeUnitFitMarginBps, ttlMs: env.computeUnitFitTtlMs })
+      : undefined;
+  const executionLease = createExecutionLease({
+    kind: env.executionLease,
+    path: env.executionLeasePath,
+    redisUrl: env.executionLeaseRedisUrl,
+  });
   const providerCircuitBreaker = new ProviderCircuitBreaker();
   const balanceCache = new BalanceCache();
   const tokenBalanceCache = new TokenBalanceCache();
+  if (env.unwindEnabled && env.mode === 'live') {
+    unwinder = new Unwinder(
+      {
+        maxLossBps: env.unwindMaxLossBps,
+        slippageBps: env.unwindSlippageBps,
+        maxAttempts: env.unwindMaxAttempts,
+        retryBaseMs: env.unwindRetryBaseMs,
+        retryMaxMs: env.unwindRetryMaxMs,
+        dustBps: env.unwindDustBps,
+        computeUnitPriceMicroLamports: allowPriorityFees ? dynamicComputeUnitPriceMicroLamports : 0,
+        sequentialAbortMode: env.sequentialAbortMode,
+      },
+      {
+        connection,
+        wallets: walletPool.wallets,
+        // Ultra cannot sell an arbitrary amount through swap-v1 builders; unwind with the quote client instead.
+        jupiter: rateLimitedExecJupiter.kind === 'ultra' ? rateLimitedQuoteJupiter : rateLimitedExecJupiter,
+        tokenBalanceCache,
+        logEvent,
+      },
+    );
+    await unwinder.reconcile(
+      config.pairs.map((pair) => ({ pair: pair.name, aMint: pair.aMint, mints: pairPath(pair), amountA: BigInt(pair.amountA) })),
+    );
+  }
 
   startHealthServer({
     port: env.healthcheckPort,
@@ -211,6 +404,7 @@ async function main() {
       jupQuoteKind: cachedQuoteJupiter.kind,
       jupExecKind: rateLimitedExecJupiter.kind,
       walletBalanceLamports: walletBalanceLamportsSnapshot,
+      wallets: { ...walletPool.snapshot(), balancesLamports: balanceCache.snapshot() },
       jupiterLimiter: jupiterLimiter.snapshot(),
       openOceanLimiter: openOceanLimiter.snapshot(),
       autoTune: autoTuneSnapshot,
@@ -218,15 +412,36 @@ async function main() {
         const j = jupiterLimiter.snapshot();
         const o = openOceanLimiter.snapshot();
         return {
-          lowBalance: env.minBalanceLamports > 0 ? walletBalanceLamportsSnapshot < env.minBalanceLamports : false,
+          lowBalance:
+            env.minBalanceLamports > 0
+              ? [walletBalanceLamportsSnapshot, ...Object.values(balanceCache.lamportsByWallet())].some(
+                  (lamports) => lamports < env.minBalanceLamports,
+                )
+              : false,
           jupiterPenalty: j.penaltyMsRemaining > 0,
           openOceanPenalty: o.penaltyMsRemaining > 0,
         };
       })(),
       blacklist: { mints: blacklist.mints.size, pairs: blacklist.pairs.size, path: env.blacklistPath },
       configReload: { enabled: env.configReloadMs > 0, ms: env.configReloadMs },
+      globalRisk: globalRisk.snapshot(),
+      unwinder: { enabled: Boolean(unwinder), pending: unwinder?.size ?? 0 },
+      lookupTables: lookupTableManager?.snapshot(),
+      computeUnits: computeUnitHistory?.snapshot(),
+      priorityFees: routePriorityFeeEstimator?.snapshot(),
+      jito: jitoBundleTracker ? { ...jitoBundleTracker.snapshot(), adaptiveTip: adaptiveJitoTip?.snapshot() } : undefined,
+      jitoRegions: env.jitoEnabled ? jitoSearcherPool.snapshot() : undefined,
+      ammPools: ammEngine?.snapshot(),
+      accountScan: routeWatcher?.snapshot(),
+      riskState: { store: env.riskStateStore, path: env.riskStateStore === 'off' ? undefined : env.riskStatePath },
+      executionLease: { backend: env.executionLease, ttlMs: env.executionLeaseTtlMs },
       metrics: metrics.snapshot(),
     }),
+    getPrometheus: () =>
+      metrics.renderPrometheus({
+        walletBalances: balanceCache.lamportsByWallet(),
+        limiters: { jupiter: jupiterLimiter.snapshot(), openocean: openOceanLimiter.snapshot() },
+      }),
   });
 
   if (env.openOceanEnabled && env.executionStrategy !== 'sequential') {
@@ -240,6 +455,17 @@ async function main() {
     await logEvent(warning);
   }
 
+  if ((ammEngine || routeWatcher) && !env.solanaWsUrl) {
+    const warning = {
+      ts: new Date().toISOString(),
+      type: 'warning',
+      warning: 'account-subscriptions-without-ws-url',
+      note: 'account subscriptions use the WebSocket derived from SOLANA_RPC_URL',
+    };
+    console.warn(JSON.stringify(warning));
+    await logEvent(warning);
+  }
+
   if (rateLimitedExecJupiter.kind === 'ultra' && env.executionStrategy === 'atomic') {
     const warning = {
       ts: new Date().toISOString(),
@@ -264,13 +490,13 @@ async function main() {
       await logEvent(warning);
     }
 
-    const triangular = config.pairs.filter((p) => Boolean(p.cMint));
-    if (triangular.length) {
+    const multiLeg = config.pairs.filter((p) => pairPath(p).length > 2);
+    if (multiLeg.length) {
       const warning = {
         ts: new Date().toISOString(),
         type: 'warning',
-        warning: 'ultra-does-not-support-triangular',
-        pairs: triangular.map((p) => p.name),
+        warning: 'ultra-does-not-support-multi-leg',
+        pairs: multiLeg.map((p) => p.name),
       };
       console.warn(JSON.stringify(warning));
       await logEvent(warning);
@@ -287,6 +513,8 @@ async function main() {
         jupQuoteKind: cachedQuoteJupiter.kind,
         jupExecKind: rateLimitedExecJupiter.kind,
         pubkey: wallet.publicKey.toBase58(),
+        wallets: walletPool.wallets.map((w) => w.publicKey.toBase58()),
+        walletAssignment: env.walletAssignment,
         balanceLamports,
         pairConcurrency: env.pairConcurrency,
         triggerStrategy: env.triggerStrategy,
@@ -300,6 +528,7 @@ async function main() {
         openOceanEveryNTicks: env.openOceanEveryNTicks,
         openOceanJupiterGateBps: env.openOceanJupiterGateBps,
         openOceanJupiterNearGateBps: env.openOceanJupiterNearGateBps,
+        openOceanMixedLegs: env.openOceanMixedLegs,
         dryRunIncludeJitoTip: env.dryRunIncludeJitoTip,
         jitoEnabled: effectiveJitoEnabled,
         priorityFeeStrategy: env.priorityFeeStrategy,
@@ -319,6 +548,8 @@ async function main() {
     executionStrategy: env.executionStrategy,
     pairs: config.pairs.length,
     pubkey: wallet.publicKey.toBase58(),
+    wallets: walletPool.wallets.map((w) => w.publicKey.toBase58()),
+    walletAssignment: env.walletAssignment,
     balanceLamports,
     triggerStrategy: env.triggerStrategy,
     triggerAmountMode: env.triggerAmountMode,
@@ -331,15 +562,24 @@ async function main() {
     openOceanEveryNTicks: env.openOceanEveryNTicks,
     openOceanJupiterGateBps: env.openOceanJupiterGateBps,
     openOceanJupiterNearGateBps: env.openOceanJupiterNearGateBps,
+    openOceanMixedLegs: env.openOceanMixedLegs,
     dryRunIncludeJitoTip: env.dryRunIncludeJitoTip,
     jitoEnabled: effectiveJitoEnabled,
     jupQuoteKind: cachedQuoteJupiter.kind,
     jupExecKind: rateLimitedExecJupiter.kind,
   });
 
-  if (args.setupWallet) {
+  async function setupAllWallets() {
     const mints = config.pairs.flatMap((pair) => [pair.aMint, pair.bMint]);
-    const signatures = await setupWalletTokenAccounts({ connection, wallet, mintAddresses: mints });
+    const signatures: string[] = [];
+    for (const w of walletPool.wallets) {
+      signatures.push(...(await setupWalletTokenAccounts({ connection, wallet: w, mintAddresses: mints })));
+    }
+    return signatures;
+  }
+
+  if (args.setupWallet) {
+    const signatures = await setupAllWallets();
     console.log(JSON.stringify({ ts: new Date().toISOString(), setupWallet: true, signatures }, null, 2));
     return;
   }
@@ -348,8 +588,7 @@ async function main() {
     if (env.mode !== 'live') {
       console.log(JSON.stringify({ ts: new Date().toISOString(), autoSetupWallet: true, skipped: true, reason: 'MODE!=live' }));
     } else {
-      const mints = config.pairs.flatMap((pair) => [pair.aMint, pair.bMint]);
-      const signatures = await setupWalletTokenAccounts({ connection, wallet, mintAddresses: mints });
+      const signatures = await setupAllWallets();
       console.log(JSON.stringify({ ts: new Date().toISOString(), autoSetupWallet: true, signatures }, null, 2));
       await logEvent({ ts: new Date().toISOString(), type: 'auto_setup_wallet', signatures });
     }
@@ -357,14 +596,14 @@ async function main() {
 
   const cooldowns = new Map<string, number>();
   const pairScanStateByName = new Map<string, PairScanState>();
-  const nextScanAtMs = new Map<string, number>();
 
   type PairRiskState = {
     hourTradesMs: number[];
     dayKey: string;
     dailyLossAAtomic: bigint;
   };
-  const pairRiskByName = new Map<string, PairRiskState>();
+  // Wallet pubkey -> pair name: each wallet keeps (and persists) what it executed; pair limits apply to the sum.
+  const pairRiskByWallet = new Map<string, Map<string, PairRiskState>>();
 
   function utcDayKey(tsMs: number) {
     return new Date(tsMs).toISOString().slice(0, 10);
@@ -376,12 +615,17 @@ async function main() {
     return d.getTime();
   }
 
-  function upsertRiskState(pairName: string, nowMs: number) {
-    const existing = pairRiskByName.get(pairName);
+  function upsertRiskState(walletKey: string, pairName: string, nowMs: number) {
+    let byPair = pairRiskByWallet.get(walletKey);
+    if (!byPair) {
+      byPair = new Map();
+      pairRiskByWallet.set(walletKey, byPair);
+    }
+    const existing = byPair.get(pairName);
     const dayKey = utcDayKey(nowMs);
     if (!existing) {
       const created: PairRiskState = { hourTradesMs: [], dayKey, dailyLossAAtomic: 0n };
-      pairRiskByName.set(pairName, created);
+      byPair.set(pairName, created);
       return created;
     }
     if (existing.dayKey !== dayKey) {
@@ -391,10 +635,83 @@ async function main() {
     return existing;
   }
 
+  function pairRiskTotals(pairName: string, nowMs: number) {
+    const hourCutoff = nowMs - 60 * 60 * 1000;
+    let tradesLastHour = 0;
+    let dailyLossAAtomic = 0n;
+    for (const [walletKey, byPair] of pairRiskByWallet) {
+      if (!byPair.has(pairName)) continue;
+      const risk = upsertRiskState(walletKey, pairName, nowMs);
+      while (risk.hourTradesMs.length && risk.hourTradesMs[0]! < hourCutoff) risk.hourTradesMs.shift();
+      tradesLastHour += risk.hourTradesMs.length;
+      dailyLossAAtomic += risk.dailyLossAAtomic;
+    }
+    return { tradesLastHour, dailyLossAAtomic };
+  }
+
   function setCooldownMs(pairName: string, untilMs: number) {
     const current = cooldowns.get(pairName) ?? 0;
     cooldowns.set(pairName, Math.max(current, untilMs));
   }
+
+  // Risk state survives restarts, otherwise a crash/restart would reset maxDailyLossA / maxTradesPerHour accounting.
+  // Every loaded wallet stores the trades it executed (keyed by pubkey + pair name). The global limits and the pair
+  // schedule (cooldowns, next scan) belong to the process, so they sit under RISK_STATE_KEY, which does not change when
+  // wallets are added or removed.
+  const riskStateStore = createRiskStateStore({ kind: env.riskStateStore, path: env.riskStatePath });
+  const riskStateWallets = walletPool.wallets.map((w) => w.publicKey.toBase58());
+  const riskStateKey = env.riskStateKey;
+
+  function snapshotRiskState(walletKey: string): PersistedRiskState {
+    const out: PersistedRiskState = {};
+    for (const [name, risk] of pairRiskByWallet.get(walletKey) ?? []) {
+      out[name] = {
+        hourTradesMs: risk.hourTradesMs.slice(),
+        dayKey: risk.dayKey,
+        dailyLossAAtomic: risk.dailyLossAAtomic.toString(),
+      };
+    }
+    return out;
+  }
+
+  function snapshotSchedule(): PersistedSchedule {
+    const out: PersistedSchedule = {};
+    for (const name of new Set([...cooldowns.keys(), ...nextScanAtMs.keys()])) {
+      out[name] = { cooldownUntilMs: cooldowns.get(name), nextScanAtMs: nextScanAtMs.get(name) };
+    }
+    return out;
+  }
+
+  // Pubkeys of the wallets holding at least the pair's smallest amount of A (balances cached for BALANCE_REFRESH_MS).
+  async function fundedWallets(pair: BotPair) {
+    const amounts = (pair.amountASteps?.length ? pair.amountASteps : [pair.amountA]).map((a) => BigInt(a));
+    const minAmountA = amounts.reduce((acc, a) => (a < acc ? a : acc), amounts[0]!);
+    const ttlMs = Math.max(0, Math.floor(env.balanceRefreshMs));
+    const funded = new Set<string>();
+    for (const w of walletPool.wallets) {
+      const balanceA =
+        pair.aMint === SOL_MINT
+          ? BigInt(await balanceCache.getLamports({ connection, pubkey: w.publicKey, ttlMs }))
+          : BigInt((await tokenBalanceCache.get({ connection, owner: w.publicKey, mint: pair.aMint, ttlMs }))?.amountAtomic ?? '0');
+      if (balanceA >= minAmountA) funded.add(w.publicKey.toBase58());
+    }
+    return funded;
+  }
+
+  async function persistRiskState() {
+    if (!riskStateStore) return;
+    try {
+      await riskStateStore.saveAll({
+        wallets: Object.fromEntries(riskStateWallets.map((walletKey) => [walletKey, snapshotRiskState(walletKey)])),
+        key: riskStateKey,
+        global: globalRisk.exportState(),
+        schedule: snapshotSchedule(),
+      });
+    } catch (e) {
+      await logEvent({ ts: new Date().toISOString(), type: 'risk_state_error', op: 'save', store: riskStateStore.kind, error: String(e) });
+    }
+  }
+
   const schedulerSpreadMs = Math.max(1, Math.floor(env.pollIntervalMs));
   if (!args.once) {
     const now = Date.now();
@@ -404,6 +721,61 @@ async function main() {
     }
   }
 
+  if (riskStateStore) {
+    try {
+      let persistedGlobal = await riskStateStore.loadGlobal(riskStateKey);
+      let globalMigratedFrom: string | undefined;
+      if (!persistedGlobal) {
+        // Files written before RISK_STATE_KEY kept the global state under the wallet pubkey(s).
+        for (const legacyKey of [riskStateWallets.slice().sort().join('+'), ...riskStateWallets]) {
+          persistedGlobal = await riskStateStore.loadGlobal(legacyKey);
+          if (persistedGlobal) {
+            globalMigratedFrom = legacyKey;
+            break;
+          }
+        }
+      }
+      const nowMs = Date.now();
+      if (persistedGlobal) globalRisk.importState(persistedGlobal, nowMs);
+      const hourCutoff = nowMs - 60 * 60 * 1000;
+      const loadedPairs = new Set<string>();
+      const restoreSchedule = (pairName: string, saved: PersistedPairSchedule) => {
+        if (saved.cooldownUntilMs !== undefined && saved.cooldownUntilMs > nowMs) setCooldownMs(pairName, saved.cooldownUntilMs);
+        if (!args.once && saved.nextScanAtMs !== undefined && saved.nextScanAtMs > (nextScanAtMs.get(pairName) ?? 0)) {
+          nextScanAtMs.set(pairName, saved.nextScanAtMs);
+        }
+      };
+      for (const [pairName, saved] of Object.entries(await riskStateStore.loadSchedule(riskStateKey))) restoreSchedule(pairName, saved);
+      for (const walletKey of riskStateWallets) {
+        const persisted = await riskStateStore.load(walletKey);
+        const byPair = pairRiskByWallet.get(walletKey) ?? new Map<string, PairRiskState>();
+        pairRiskByWallet.set(walletKey, byPair);
+        for (const [pairName, saved] of Object.entries(persisted)) {
+          loadedPairs.add(pairName);
+          byPair.set(pairName, {
+            hourTradesMs: saved.hourTradesMs.filter((t) => t >= hourCutoff).sort((a, b) => a - b),
+            dayKey: saved.dayKey,
+            dailyLossAAtomic: BigInt(saved.dailyLossAAtomic),
+          });
+          restoreSchedule(pairName, saved);
+        }
+      }
+      await logEvent({
+        ts: new Date().toISOString(),
+        type: 'risk_state_loaded',
+        store: riskStateStore.kind,
+        path: env.riskStatePath,
+        wallets: riskStateWallets.length,
+        pairs: loadedPairs.size,
+        key: riskStateKey,
+        global: Boolean(persistedGlobal),
+        globalMigratedFrom,
+      });
+    } catch (e) {
+      await logEvent({ ts: new Date().toISOString(), type: 'risk_state_error', op: 'load', store: riskStateStore.kind, error: String(e) });
+    }
+  }
+
   let totalErrors = 0;
   let consecutiveErrors = 0;
   do {
@@ -426,15 +798,22 @@ async function main() {
         const changed = !configStat || configStat.mtimeMs !== key.mtimeMs || configStat.size !== key.size;
         if (changed) {
           const next = applyBlacklist(await loadConfig(env.configPath), blacklist);
+          walletPool.assertAssignable(next.pairs);
           const prevCount = config.pairs.length;
           config = next;
           configStat = key;
+          globalRisk.setLimits(config.risk);
 
           // Drop state for removed pairs; init state for new ones
           const active = new Set(config.pairs.map((p) => p.name));
           for (const name of Array.from(pairScanStateByName.keys())) if (!active.has(name)) pairScanStateByName.delete(name);
           for (const name of Array.from(cooldowns.keys())) if (!active.has(name)) cooldowns.delete(name);
           for (const name of Array.from(nextScanAtMs.keys())) if (!active.has(name)) nextScanAtMs.delete(name);
+          for (const name of Array.from(lastScanStartedAtMs.keys())) {
+            if (active.has(name)) continue;
+            lastScanStartedAtMs.delete(name);
+            routeWatcher?.forget(name);
+          }
 
           if (!args.once) {
             for (const pair of config.pairs) {
@@ -485,11 +864,11 @@ async function main() {
         if (nextAt > 0 && nextAt < nextWakeAt) nextWakeAt = nextAt;
       }
       const sleepMs = Math.max(5, Math.min(env.pollIntervalMs, nextWakeAt - now));
-      await sleep(sleepMs);
+      await scanWakeup.sleep(sleepMs);
       continue;
     }
 
-    if (allowPriorityFees && env.computeUnitPriceMicroLamports === 0 && env.priorityFeeStrategy !== 'off') {
+    if (dynamicPriorityFees) {
       dynamicComputeUnitPriceMicroLamports = await priorityFeeEstimator.getMicroLamports({ connection });
     }
 
@@ -521,12 +900,14 @@ async function main() {
 
     await forEachLimit(eligiblePairs, effectivePairConcurrency, async (pair) => {
       if (stopRequested) return;
-      if (!args.once) nextScanAtMs.set(pair.name, Date.now() + env.pollIntervalMs);
+      if (!args.once) {
+        lastScanStartedAtMs.set(pair.name, Date.now());
+        nextScanAtMs.set(pair.name, Date.now() + scanIntervalMs(pair.name));
+      }
+      let releaseWallet: (() => void) | undefined;
       try {
         const now2 = Date.now();
-        const risk = upsertRiskState(pair.name, now2);
-        const hourCutoff = now2 - 60 * 60 * 1000;
-        while (risk.hourTradesMs.length && risk.hourTradesMs[0]! < hourCutoff) risk.hourTradesMs.shift();
+        const risk = pairRiskTotals(pair.name, now2);
 
         if (pair.maxTradesPerHour !== undefined && pair.maxTradesPerHour >= 0) {
           const limit = Math.floor(pair.maxTradesPerHour);
@@ -534,13 +915,13 @@ async function main() {
             await logEvent({ ts: new Date().toISOString(), type: 'pair_limit_skip', pair: pair.name, reason: 'max_trades_per_hour=0' });
             return;
           }
-          if (risk.hourTradesMs.length >= limit) {
+          if (risk.tradesLastHour >= limit) {
             await logEvent({
               ts: new Date().toISOString(),
               type: 'pair_limit_skip',
               pair: pair.name,
               reason: 'max_trades_per_hour',
-              tradesLastHour: risk.hourTradesMs.length,
+              tradesLastHour: risk.tradesLastHour,
               maxTradesPerHour: limit,
             });
             return;
@@ -552,6 +933,7 @@ async function main() {
           if (maxLoss > 0n && risk.dailyLossAAtomic >= maxLoss) {
             const until = nextUtcMidnightMs(now2);
             setCooldownMs(pair.name, until);
+            await persistRiskState();
             await logEvent({
               ts: new Date().toISOString(),
               type: 'pair_limit_skip',
@@ -565,6 +947,12 @@ async function main() {
           }
         }
 
+        const globalCheck = globalRisk.check({ nowMs: now2 });
+        if (!globalCheck.ok) {
+          await logEvent({ ts: new Date().toISOString(), type: 'global_limit_skip', pair: pair.name, ...globalCheck.block });
+          return;
+        }
+
         const state =
           pairScanStateByName.get(pair.name) ??
           ({
@@ -573,24 +961,39 @@ async function main() {
           } satisfies PairScanState);
         pairScanStateByName.set(pair.name, state);
 
+        const lease = walletPool.acquire(pair, walletPool.needsFundingCheck(pair) ? await fundedWallets(pair) : undefined);
+        if (!lease) {
+          await logEvent({ ts: new Date().toISOString(), type: 'skip', pair: pair.name, reason: 'no-funded-wallet', aMint: pair.aMint });
+          return;
+        }
+        releaseWallet = lease.release;
+        const leaseBalanceLamports =
+          lease.wallet === wallet
+            ? walletBalanceLamportsLive
+            : await balanceCache.getLamports({
+                connection,
+                pubkey: lease.wallet.publicKey,
+                ttlMs: Math.max(0, Math.floor(env.balanceRefreshMs)),
+              });
+
         const result = await scanAndMaybeExecute({
           connection,
-          wallet,
-          walletBalanceLamports: walletBalanceLamportsLive,
+          wallet: lease.wallet,
+          walletBalanceLamports: leaseBalanceLamports,
           walletBalanceAAtomic:
             env.dynamicAmountMode === 'token_balance'
               ? pair.aMint === SOL_MINT
-                ? walletBalanceLamportsLive.toString()
+                ? leaseBalanceLamports.toString()
                 : (await tokenBalanceCache.get({
                     connection,
-                    owner: wallet.publicKey,
+                    owner: lease.wallet.publicKey,
                     mint: pair.aMint,
                     ttlMs: Math.max(0, Math.floor(env.balanceRefreshMs)),
                   }))?.amountAtomic
               : undefined,
           quoteJupiter: cachedQuoteJupiter,
           execJupiter: rateLimitedExecJupiter,
-          openOcean,
+          providers: swapProviders,
           providerCircuitBreaker,
           state,
           mode: env.mode,
@@ -608,6 +1011,8 @@ async function main() {
           triggerEmergencySigma: env.triggerEmergencySigma,
           triggerAmountMode: env.triggerAmountMode,
           triggerMaxAmountsPerTick: env.triggerMaxAmountsPerTick,
+          amountOptimizerQuoteBudget: env.amountOptimizerQuoteBudget,
+          amountOptimizerGrid: env.amountOptimizerGrid,
           dryRunBuild: env.dryRunBuild,
           dryRunSimulate: env.dryRunSimulate,
           livePreflightSimulate: env.livePreflightSimulate,
@@ -618,23 +1023,28 @@ async function main() {
           computeUnitPriceMicroLamports: dynamicComputeUnitPriceMicroLamports,
           jitoEnabled: effectiveJitoEnabled,
           jitoBlockEngineUrl: env.jitoBlockEngineUrl,
-          jitoTipLamports: effectiveJitoTipLamports,
+          jitoSearcherPool,
+          jitoTipLamports: adaptiveJitoTip ? adaptiveJitoTip.tipLamports : effectiveJitoTipLamports,
           jitoTipMode: env.jitoTipMode,
           jitoMinTipLamports: env.jitoMinTipLamports,
           jitoMaxTipLamports: env.jitoMaxTipLamports,
           jitoTipBps: env.jitoTipBps,
           jitoWaitMs: env.jitoWaitMs,
           jitoFallbackRpc: env.jitoFallbackRpc,
+          jitoSequentialBundle: env.jitoSequentialBundle,
+          sequentialLeg2MaxWaitMs: env.sequentialLeg2MaxWaitMs,
+          sequentialLeg2PollMs: env.sequentialLeg2PollMs,
+          sequentialLeg2MaxLossBps: env.sequentialLeg2MaxLossBps,
+          sequentialAbortMode: env.sequentialAbortMode,
           jitoTipAccount: env.jitoTipAccount,
           openOceanObserveEnabled: env.openOceanObserveEnabled,
           openOceanExecuteEnabled: env.openOceanExecuteEnabled,
           openOceanEveryNTicks: effectiveOpenOceanEveryNTicks,
           openOceanJupiterGateBps: env.openOceanJupiterGateBps,
           openOceanJupiterNearGateBps: effectiveOpenOceanNearGateBps,
-          openOceanSignaturesEstimate: env.openOceanSignaturesEstimate,
+          openOceanMixedLegs: env.openOceanMixedLegs,
           feeConversionCacheTtlMs: env.feeConversionCacheTtlMs,
           jup429CooldownMs: env.jup429CooldownMs,
-          openOcean429CooldownMs: env.openOcean429CooldownMs,
           minBalanceLamports: env.minBalanceLamports,
           dynamicAmountMode: env.dynamicAmountMode,
           dynamicAmountBps: env.dynamicAmountBps,
@@ -645,20 +1055,36 @@ async function main() {
           useRustCalc: env.useRustCalc,
           rustCalcPath: env.rustCalcPath,
           lookupTableCache,
+          lookupTableManager,
+          atomicPreflight: env.atomicPreflight,
+          atomicFallbackMaxAccounts: env.atomicFallbackMaxAccounts,
+          atomicFallbackSequential: env.atomicFallbackSequential,
+          computeUnitHistory,
+          priorityFeeEstimator: routePriorityFeeEstimator,
+          priorityFeeBid,
+          mintInfo: mintInfoCache,
+          executionLease,
+          executionLeaseTtlMs: env.executionLeaseTtlMs,
+          globalRisk,
+          routeWatcher,
         });
         consecutiveErrors = 0;
+        let riskChanged = false;
         if (pair.cooldownMs > 0 && result.kind !== 'skipped') {
           setCooldownMs(pair.name, Date.now() + pair.cooldownMs);
+          riskChanged = true;
         }
         if (result.kind === 'executed') {
-          risk.hourTradesMs.push(Date.now());
+          const walletRisk = upsertRiskState(lease.pubkey, pair.name, Date.now());
+          walletRisk.hourTradesMs.push(Date.now());
+          riskChanged = true;
 
           const pnl = result.pnl;
           if (pnl?.deltaAAtomic && /^\-?\d+$/.test(pnl.deltaAAtomic)) {
             try {
               const deltaA = BigInt(pnl.deltaAAtomic);
               if (deltaA < 0n) {
-                risk.dailyLossAAtomic += -deltaA;
+                walletRisk.dailyLossAAtomic += -deltaA;
                 if (pair.cooldownOnLossMs && pair.cooldownOnLossMs > 0) {
                   setCooldownMs(pair.name, Date.now() + Math.max(0, Math.floor(pair.cooldownOnLossMs)));
                 }
@@ -668,12 +1094,14 @@ async function main() {
             }
           }
         }
+        if (riskChanged) await persistRiskState();
       } catch (error) {
         totalErrors += 1;
         consecutiveErrors += 1;
 
         if (pair.cooldownMs > 0) {
           setCooldownMs(pair.name, Date.now() + pair.cooldownMs);
+          await persistRiskState();
         }
         await logEvent({ ts: new Date().toISOString(), type: 'error', pair: pair.name, error: String(error) });
         console.error(JSON.stringify({ ts: new Date().toISOString(), pair: pair.name, error: String(error) }, null, 2));
@@ -688,13 +1116,26 @@ async function main() {
           process.exitCode = 1;
           throw error;
         }
+      } finally {
+        releaseWallet?.();
       }
     });
 
+    if (unwinder?.size && !stopRequested) await unwinder.tick();
+    // Admin transactions wait for confirmation; keep them off the scan path (tick() never overlaps itself).
+    if (lookupTableManager && !stopRequested) void lookupTableManager.tick();
+
     if (args.once || stopRequested) break;
   } while (true);
 
+  await executionLease?.close?.().catch(() => undefined);
+  jitoBundleTracker?.stop();
+  jitoSearcherPool.stop();
+  await ammEngine?.stop();
+  await routeWatcher?.stop();
+
   if (stopRequested) {
+    await persistRiskState();
     await logEvent({ ts: new Date().toISOString(), type: 'shutdown', reason: stopSignal ?? 'signal' });
   }
 }
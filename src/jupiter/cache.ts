@@ -1,3 +1,4 @@
+import { routeLimitsKey } from '../lib/quoteTape.js';
 import type { JupiterClient, QuoteResponse } from './types.js';
 
 type CacheEntry<T> = {
@@ -21,7 +22,7 @@ export function withJupiterQuoteCache<T extends JupiterClient>(client: T, ttlMs:
       const now = Date.now();
       const includeDexes = params.includeDexes?.length ? params.includeDexes.slice().sort().join(',') : '';
       const excludeDexes = params.excludeDexes?.length ? params.excludeDexes.slice().sort().join(',') : '';
-      const key = `${makeKey(params)}:include=${includeDexes}:exclude=${excludeDexes}`;
+      const key = `${makeKey(params)}:include=${includeDexes}:exclude=${excludeDexes}${routeLimitsKey(params)}`;
       const hit = cache.get(key);
       if (hit && hit.expiresAt > now) return await hit.value;
 
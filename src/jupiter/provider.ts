@@ -0,0 +1,78 @@
+import { VersionedTransaction } from '@solana/web3.js';
+
+import { parsePriceImpactBps, type BuildSwapParams, type ProviderQuote, type SwapProvider } from '../lib/swapProvider.js';
+import type { JupiterClient, QuoteResponse } from './types.js';
+
+type QuoteJupiterClient = Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
+
+// `routePlan[].swapInfo.ammKey`: the pool account of each hop.
+function routePlanAmmKeys(routePlan: unknown): string[] | undefined {
+  if (!Array.isArray(routePlan)) return undefined;
+  const keys = routePlan
+    .map((step) => (step as { swapInfo?: { ammKey?: unknown } } | null)?.swapInfo?.ammKey)
+    .filter((key): key is string => typeof key === 'string' && key.length > 0);
+  return keys.length ? Array.from(new Set(keys)) : undefined;
+}
+
+export function fromJupiterQuote(quote: QuoteResponse): ProviderQuote {
+  return {
+    provider: 'jupiter',
+    inputMint: quote.inputMint,
+    outputMint: quote.outputMint,
+    inAmount: quote.inAmount,
+    outAmount: quote.outAmount,
+    otherAmountThreshold: quote.otherAmountThreshold,
+    slippageBps: quote.slippageBps,
+    priceImpactBps: parsePriceImpactBps(quote.priceImpactPct),
+    routeHops: Array.isArray(quote.routePlan) ? quote.routePlan.length : undefined,
+    routeAccounts: routePlanAmmKeys(quote.routePlan),
+    raw: quote,
+  };
+}
+
+export function toJupiterQuote(quote: ProviderQuote): QuoteResponse {
+  if (quote.provider !== 'jupiter') throw new Error(`Expected a Jupiter quote, got ${quote.provider}`);
+  return quote.raw as QuoteResponse;
+}
+
+// `quote` is the (cached/recorded) Quote API client; swaps are built with `build`, which defaults to it. Ultra cannot
+// build from a Quote API quote, so with JUP_EXECUTION_PROVIDER=ultra pass the quote client here as well.
+export function jupiterSwapProvider(params: {
+  quote: QuoteJupiterClient;
+  build?: QuoteJupiterClient;
+  rateLimitCooldownMs: number;
+}): SwapProvider {
+  const build = params.build ?? params.quote;
+  const toJupiterParams = (p: BuildSwapParams) => ({
+    quote: toJupiterQuote(p.quote),
+    userPublicKey: p.userPublicKey,
+    computeUnitPriceMicroLamports: p.computeUnitPriceMicroLamports,
+  });
+
+  return {
+    id: 'jupiter',
+    capabilities: {
+      atomicComposable: true,
+      priceImpact: true,
+      routeHops: true,
+      dexFilters: true,
+      routeLimits: true,
+      signaturesPerTx: 1,
+      localQuotes: false,
+    },
+    rateLimitCooldownMs: params.rateLimitCooldownMs,
+    async quoteExactIn(p) {
+      return fromJupiterQuote(await params.quote.quoteExactIn(p));
+    },
+    async buildSwapTransaction(p) {
+      const swap = await build.buildSwapTransaction(toJupiterParams(p));
+      return {
+        tx: VersionedTransaction.deserialize(Buffer.from(swap.swapTransaction, 'base64')),
+        lastValidBlockHeight: swap.lastValidBlockHeight,
+      };
+    },
+    async buildSwapInstructions(p) {
+      return await build.buildSwapInstructions(toJupiterParams(p));
+    },
+  };
+}
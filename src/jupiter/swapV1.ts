@@ -10,6 +10,8 @@ export function makeJupiterSwapV1Client(baseUrl: string, apiKey: string | undefi
     slippageBps: number;
     includeDexes?: string[];
     excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    maxAccounts?: number;
   }) =>
     withQuery(`${baseUrl.replace(/\/$/, '')}/swap/v1/quote`, {
       inputMint: params.inputMint,
@@ -17,7 +19,8 @@ export function makeJupiterSwapV1Client(baseUrl: string, apiKey: string | undefi
       amount: params.amount,
       slippageBps: String(params.slippageBps),
       swapMode: 'ExactIn',
-      onlyDirectRoutes: 'false',
+      onlyDirectRoutes: params.onlyDirectRoutes ? 'true' : 'false',
+      maxAccounts: params.maxAccounts ? String(params.maxAccounts) : undefined,
       includeDexes: params.includeDexes?.length ? params.includeDexes : undefined,
       excludeDexes: params.excludeDexes?.length ? params.excludeDexes : undefined,
     });
@@ -29,6 +32,8 @@ export function makeJupiterSwapV1Client(baseUrl: string, apiKey: string | undefi
     slippageBps: number;
     includeDexes?: string[];
     excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    maxAccounts?: number;
   }): Promise<QuoteResponse> {
     return await fetchJson<QuoteResponse>(quoteUrl(params), { headers });
   }
@@ -0,0 +1,54 @@
+import type { Clock } from '../lib/time.js';
+import type { QuoteTape, QuoteTapeRecorder } from '../lib/quoteTape.js';
+import type { JupiterClient, QuoteResponse } from './types.js';
+
+type QuoteClient = Extract<JupiterClient, { kind: 'swap-v1' } | { kind: 'v6' }>;
+
+export function withJupiterQuoteTape<T extends QuoteClient>(client: T, record: QuoteTapeRecorder): T {
+  return {
+    ...client,
+    async quoteExactIn(params) {
+      const quote = await client.quoteExactIn(params);
+      try {
+        await record({
+          provider: 'jupiter',
+          request: {
+            inputMint: params.inputMint,
+            outputMint: params.outputMint,
+            amount: params.amount,
+            slippageBps: params.slippageBps,
+            includeDexes: params.includeDexes,
+            excludeDexes: params.excludeDexes,
+            onlyDirectRoutes: params.onlyDirectRoutes,
+            maxAccounts: params.maxAccounts,
+          },
+          response: quote,
+        });
+      } catch {
+        // recording must never break scanning
+      }
+      return quote;
+    },
+  } as T;
+}
+
+export function makeReplayJupiterClient(params: { tape: QuoteTape; clock: Clock }): QuoteClient {
+  const notAvailable = async (): Promise<never> => {
+    throw new Error('Jupiter swap building is not available in replay mode');
+  };
+
+  return {
+    kind: 'swap-v1',
+    async quoteExactIn(request) {
+      const hit = params.tape.lookup('jupiter', request, params.clock.now());
+      if (!hit) {
+        throw new Error(
+          `replay: no recorded Jupiter quote for ${request.inputMint}->${request.outputMint} amount=${request.amount} slippageBps=${request.slippageBps}`,
+        );
+      }
+      return hit as QuoteResponse;
+    },
+    buildSwapTransaction: notAvailable,
+    buildSwapInstructions: notAvailable,
+  };
+}
@@ -77,6 +77,8 @@ export type JupiterClient =
         slippageBps: number;
         includeDexes?: string[];
         excludeDexes?: string[];
+        onlyDirectRoutes?: boolean;
+        maxAccounts?: number;
       }): Promise<QuoteResponse>;
       buildSwapTransaction(params: {
         quote: QuoteResponse;
@@ -99,6 +101,8 @@ export type JupiterClient =
         slippageBps: number;
         includeDexes?: string[];
         excludeDexes?: string[];
+        onlyDirectRoutes?: boolean;
+        maxAccounts?: number;
       }): Promise<QuoteResponse>;
       buildSwapTransaction(params: {
         quote: QuoteResponse;
@@ -11,6 +11,8 @@ export function makeJupiterV6Client(baseUrl: string) {
     slippageBps: number;
     includeDexes?: string[];
     excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    maxAccounts?: number;
   }) =>
     withQuery(`${root}/quote`, {
       inputMint: params.inputMint,
@@ -18,7 +20,8 @@ export function makeJupiterV6Client(baseUrl: string) {
       amount: params.amount,
       slippageBps: String(params.slippageBps),
       swapMode: 'ExactIn',
-      onlyDirectRoutes: 'false',
+      onlyDirectRoutes: params.onlyDirectRoutes ? 'true' : 'false',
+      maxAccounts: params.maxAccounts ? String(params.maxAccounts) : undefined,
       // Metis/Jupiter v6 uses `dexes` to include-only.
       dexes: params.includeDexes?.length ? params.includeDexes : undefined,
       excludeDexes: params.excludeDexes?.length ? params.excludeDexes : undefined,
@@ -31,6 +34,8 @@ export function makeJupiterV6Client(baseUrl: string) {
     slippageBps: number;
     includeDexes?: string[];
     excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    maxAccounts?: number;
   }): Promise<QuoteResponse> {
     return await fetchJson<QuoteResponse>(quoteUrl(params), { timeoutMs: 15_000 });
   }
@@ -1,11 +1,13 @@
 import { z } from 'zod';
 import { readFile } from 'node:fs/promises';
 
-const PairSchema = z.object({
+const PairObjectSchema = z.object({
   name: z.string().min(1),
   aMint: z.string().min(1),
   bMint: z.string().min(1),
   cMint: z.string().min(1).optional(),
+  // Any cycle A->X->Y->...->A (closing A optional); replaces aMint/bMint/cMint, which are filled from it.
+  path: z.array(z.string().min(1)).min(2).max(8).optional(),
   amountA: z.string().regex(/^\d+$/),
   amountASteps: z.array(z.string().regex(/^\d+$/)).optional(),
   minNotionalA: z.string().regex(/^\d+$/).optional(),
@@ -13,6 +15,8 @@ const PairSchema = z.object({
   slippageBpsLeg1: z.number().int().min(1).max(5000).optional(),
   slippageBpsLeg2: z.number().int().min(1).max(5000).optional(),
   slippageBpsLeg3: z.number().int().min(1).max(5000).optional(),
+  // Per-leg slippage for `path` (index 0 = first leg); missing entries fall back to slippageBpsLeg{n} / slippageBps.
+  slippageBpsLegs: z.array(z.number().int().min(1).max(5000)).optional(),
   includeDexes: z.array(z.string().min(1)).optional(),
   excludeDexes: z.array(z.string().min(1)).optional(),
   minProfitA: z.string().regex(/^\d+$/).default('0'),
@@ -28,14 +32,65 @@ const PairSchema = z.object({
   computeUnitPriceMicroLamports: z.number().int().min(0).optional(),
   baseFeeLamports: z.number().int().min(0).optional(),
   rentBufferLamports: z.number().int().min(0).optional(),
+  // Pins the pair to one wallet of WALLET_SECRET_KEY (pubkey or 0-based index); otherwise WALLET_ASSIGNMENT decides.
+  wallet: z.string().min(1).optional(),
+});
+
+function withoutClosingMint(path: string[]) {
+  return path.length > 2 && path[path.length - 1] === path[0] ? path.slice(0, -1) : path;
+}
+
+const CheckedPairSchema = PairObjectSchema.superRefine((pair, ctx) => {
+  if (!pair.path) return;
+  if (pair.cMint) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cMint'], message: 'use either path or cMint, not both' });
+  if (pair.path[0] !== pair.aMint || pair.path[1] !== pair.bMint) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['path'], message: 'path must start with aMint, bMint' });
+  }
+  if (new Set(pair.path).size !== pair.path.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['path'], message: 'path must not repeat a mint (other than closing on aMint)' });
+  }
+  if (pair.slippageBpsLegs && pair.slippageBpsLegs.length > pair.path.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['slippageBpsLegs'], message: `path has ${pair.path.length} legs` });
+  }
+});
+
+// `path` pairs may omit aMint/bMint: they are taken from the first two mints.
+const PairSchema = z.preprocess((raw) => {
+  if (!raw || typeof raw !== 'object') return raw;
+  const pair = raw as Record<string, unknown>;
+  if (!Array.isArray(pair['path'])) return raw;
+  const path = withoutClosingMint(pair['path'] as string[]);
+  return { ...pair, path, aMint: pair['aMint'] ?? path[0], bMint: pair['bMint'] ?? path[1] };
+}, CheckedPairSchema);
+
+// Portfolio-level limits (across all pairs of the wallet). Amounts are in SOL lamports.
+const RiskSchema = z.object({
+  maxDailyLossLamports: z.string().regex(/^\d+$/).optional(),
+  maxDrawdownLamports: z.string().regex(/^\d+$/).optional(),
+  maxTradesPerHour: z.number().int().min(0).optional(),
+  maxConcurrentExecutions: z.number().int().min(1).optional(),
+  maxConcurrentNotionalLamports: z.string().regex(/^\d+$/).optional(),
 });
 
 const ConfigSchema = z.object({
+  risk: RiskSchema.optional(),
   pairs: z.array(PairSchema).min(1),
 });
 
 export type BotConfig = z.infer<typeof ConfigSchema>;
 export type BotPair = z.infer<typeof PairSchema>;
+export type BotRiskLimits = z.infer<typeof RiskSchema>;
+
+// Mints of the cycle in order, starting at aMint; the last leg swaps back into aMint.
+export function pairPath(pair: BotPair): string[] {
+  if (pair.path) return pair.path;
+  return pair.cMint ? [pair.aMint, pair.bMint, pair.cMint] : [pair.aMint, pair.bMint];
+}
+
+export function pairLegSlippageBps(pair: BotPair): number[] {
+  const legacy = [pair.slippageBpsLeg1, pair.slippageBpsLeg2, pair.slippageBpsLeg3];
+  return pairPath(pair).map((_, i) => pair.slippageBpsLegs?.[i] ?? legacy[i] ?? pair.slippageBps);
+}
 
 export async function loadConfig(path: string): Promise<BotConfig> {
   const raw = await readFile(path, 'utf8');
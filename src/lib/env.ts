@@ -3,14 +3,22 @@ import { z } from 'zod';
 const ModeSchema = z.enum(['dry-run', 'live']);
 const BotProfileSchema = z.enum(['default', 'hft']);
 const ExecutionStrategySchema = z.enum(['atomic', 'sequential']);
-const JitoTipModeSchema = z.enum(['fixed', 'dynamic']);
+const JitoTipModeSchema = z.enum(['fixed', 'dynamic', 'adaptive']);
+const JitoSendPolicySchema = z.enum(['fastest', 'fanout-all']);
 const PriorityFeeStrategySchema = z.enum(['off', 'rpc-recent', 'helius']);
 const PriorityFeeLevelSchema = z.enum(['min', 'low', 'medium', 'high', 'veryHigh', 'unsafeMax', 'recommended']);
 const SolanaCommitmentSchema = z.enum(['processed', 'confirmed', 'finalized']);
 const TriggerStrategySchema = z.enum(['immediate', 'avg-window', 'vwap', 'bollinger']);
-const TriggerAmountModeSchema = z.enum(['all', 'rotate', 'fixed']);
+const TriggerAmountModeSchema = z.enum(['all', 'rotate', 'fixed', 'optimize']);
 const JupiterExecutionProviderSchema = z.enum(['swap', 'ultra']);
 const DynamicAmountModeSchema = z.enum(['off', 'sol_balance', 'token_balance']);
+const RiskStateStoreSchema = z.enum(['off', 'json', 'sqlite']);
+const WalletAssignmentSchema = z.enum(['round-robin', 'least-busy']);
+const ExecutionLeaseSchema = z.enum(['off', 'lockfile', 'redis']);
+const AtomicPreflightSchema = z.enum(['off', 'size', 'simulate']);
+const ComputeUnitFitSchema = z.enum(['off', 'simulate']);
+const PriorityFeeBidSchema = z.enum(['off', 'profit']);
+const SequentialAbortModeSchema = z.enum(['sell', 'hold']);
 
 function parseBoolean(value: string | undefined, defaultValue: boolean) {
   if (value === undefined) return defaultValue;
@@ -57,6 +65,10 @@ export function getEnv() {
   const botProfile = BotProfileSchema.parse(process.env.BOT_PROFILE ?? 'default');
   const mode = ModeSchema.parse(process.env.MODE ?? 'dry-run');
   const executionStrategy = ExecutionStrategySchema.parse(process.env.EXECUTION_STRATEGY ?? 'atomic');
+  const sequentialLeg2MaxWaitMs = Math.max(0, parseIntOr(process.env.SEQUENTIAL_LEG2_MAX_WAIT_MS, 15_000));
+  const sequentialLeg2PollMs = Math.max(50, parseIntOr(process.env.SEQUENTIAL_LEG2_POLL_MS, 250));
+  const sequentialLeg2MaxLossBps = Math.max(0, parseIntOr(process.env.SEQUENTIAL_LEG2_MAX_LOSS_BPS, 100));
+  const sequentialAbortMode = SequentialAbortModeSchema.parse(process.env.SEQUENTIAL_ABORT_MODE?.trim().toLowerCase() ?? 'sell');
   const triggerStrategy = TriggerStrategySchema.parse(process.env.TRIGGER_STRATEGY ?? 'immediate');
   const triggerObserveMs = parseIntOr(process.env.TRIGGER_OBSERVE_MS, 30_000);
   const triggerObserveIntervalMs = parseIntOr(process.env.TRIGGER_OBSERVE_INTERVAL_MS, 1000);
@@ -70,6 +82,8 @@ export function getEnv() {
   const triggerEmergencySigma = parseFloatOr(process.env.TRIGGER_EMERGENCY_SIGMA, 0);
   const triggerAmountMode = TriggerAmountModeSchema.parse(process.env.TRIGGER_AMOUNT_MODE ?? 'rotate');
   const triggerMaxAmountsPerTick = parseIntOr(process.env.TRIGGER_MAX_AMOUNTS_PER_TICK, 1);
+  const amountOptimizerQuoteBudget = parseIntOr(process.env.AMOUNT_OPTIMIZER_QUOTE_BUDGET, 12);
+  const amountOptimizerGrid = parseIntOr(process.env.AMOUNT_OPTIMIZER_GRID, 200);
   const dryRunBuild = parseBoolean(process.env.DRY_RUN_BUILD, false);
   const dryRunSimulate = parseBoolean(process.env.DRY_RUN_SIMULATE, false);
   const dryRunIncludeJitoTip = parseBoolean(process.env.DRY_RUN_INCLUDE_JITO_TIP, false);
@@ -80,39 +94,68 @@ export function getEnv() {
   const priorityFeeMaxMicroLamports = parseIntOr(process.env.PRIORITY_FEE_MAX_MICRO_LAMPORTS, 50_000_000);
   const priorityFeeTargetAccountLimit = parseIntOr(process.env.PRIORITY_FEE_TARGET_ACCOUNT_LIMIT, 16);
   const priorityFeeWithJito = parseBoolean(process.env.PRIORITY_FEE_WITH_JITO, false);
+  const priorityFeePerAccount = parseBoolean(process.env.PRIORITY_FEE_PER_ACCOUNT, true);
+  const priorityFeeAccountRefreshMs = parseIntOr(process.env.PRIORITY_FEE_ACCOUNT_REFRESH_MS, 5000);
+  const priorityFeeBid = PriorityFeeBidSchema.parse(process.env.PRIORITY_FEE_BID ?? 'off');
+  const priorityFeeBidProfitBps = parseIntOr(process.env.PRIORITY_FEE_BID_PROFIT_BPS, 2000);
   const heliusApiKey = process.env.HELIUS_API_KEY;
   const heliusRpcUrl = process.env.HELIUS_RPC_URL;
   const logPath = process.env.LOG_PATH ?? './logs/events.jsonl';
   const logVerbose = parseBoolean(process.env.LOG_VERBOSE, botProfile !== 'hft');
   const logRotateMaxBytes = parseIntOr(process.env.LOG_ROTATE_MAX_BYTES, 0);
   const logRotateMaxFiles = parseIntOr(process.env.LOG_ROTATE_MAX_FILES, 0);
+  const quoteTapePath = parseOptionalString(process.env.QUOTE_TAPE_PATH);
+  const replayQuoteMaxAgeMs = Math.max(0, parseIntOr(process.env.REPLAY_QUOTE_MAX_AGE_MS, 5000));
   const baseFeeLamports = parseIntOr(process.env.BASE_FEE_LAMPORTS, 5000);
   const rentBufferLamports = parseIntOr(process.env.RENT_BUFFER_LAMPORTS, 0);
   const computeUnitLimit = parseIntOr(process.env.COMPUTE_UNIT_LIMIT, 1_400_000);
   const computeUnitPriceMicroLamports = parseIntOr(process.env.COMPUTE_UNIT_PRICE_MICRO_LAMPORTS, 0);
+  const computeUnitFit = ComputeUnitFitSchema.parse(process.env.COMPUTE_UNIT_FIT ?? 'off');
+  const computeUnitFitMarginBps = Math.max(0, parseIntOr(process.env.COMPUTE_UNIT_FIT_MARGIN_BPS, 1500));
+  const computeUnitFitTtlMs = Math.max(1_000, parseIntOr(process.env.COMPUTE_UNIT_FIT_TTL_MS, 600_000));
   const quoteCacheTtlMs = parseIntOr(process.env.QUOTE_CACHE_TTL_MS, 250);
   const feeConversionCacheTtlMs = parseIntOr(process.env.FEE_CONVERSION_CACHE_TTL_MS, 60_000);
   const lutCacheTtlMs = parseIntOr(process.env.LUT_CACHE_TTL_MS, 60_000);
+  const altManagerEnabled = parseBoolean(process.env.ALT_MANAGER_ENABLED, false);
+  const altMinKeyOccurrences = Math.max(1, parseIntOr(process.env.ALT_MIN_KEY_OCCURRENCES, 3));
+  const altMaxTables = Math.max(0, parseIntOr(process.env.ALT_MAX_TABLES, 4));
+  const altMaintainIntervalMs = Math.max(1_000, parseIntOr(process.env.ALT_MAINTAIN_INTERVAL_MS, 60_000));
+  const altStatePath = parseOptionalString(process.env.ALT_STATE_PATH) ?? './logs/alts.json';
+  const atomicPreflight = AtomicPreflightSchema.parse(process.env.ATOMIC_PREFLIGHT ?? 'size');
+  const atomicFallbackMaxAccounts = Math.max(0, parseIntOr(process.env.ATOMIC_FALLBACK_MAX_ACCOUNTS, 32));
+  const atomicFallbackSequential = parseBoolean(process.env.ATOMIC_FALLBACK_SEQUENTIAL, false);
   const pairConcurrency = parseIntOr(process.env.PAIR_CONCURRENCY, 2);
   const minBalanceLamports = parseIntOr(process.env.MIN_BALANCE_LAMPORTS, 0);
   const maxErrorsBeforeExit = parseIntOr(process.env.MAX_ERRORS_BEFORE_EXIT, 0);
   const maxConsecutiveErrorsBeforeExit = parseIntOr(process.env.MAX_CONSECUTIVE_ERRORS_BEFORE_EXIT, 0);
   const autoSetupWallet = parseBoolean(process.env.AUTO_SETUP_WALLET, false);
   const jitoEnabled = parseBoolean(process.env.JITO_ENABLED, false);
-  const jitoBlockEngineUrl = process.env.JITO_BLOCK_ENGINE_URL ?? 'https://amsterdam.mainnet.block-engine.jito.wtf';
+  // Comma-separated list of block engine regions; the first one is the default/primary.
+  const jitoBlockEngineUrls = parseCsvList(process.env.JITO_BLOCK_ENGINE_URL ?? 'https://amsterdam.mainnet.block-engine.jito.wtf');
+  if (jitoBlockEngineUrls.length === 0) throw new Error('JITO_BLOCK_ENGINE_URL must list at least 1 block engine URL');
+  const jitoBlockEngineUrl = jitoBlockEngineUrls[0]!;
+  const jitoSendPolicy = JitoSendPolicySchema.parse(process.env.JITO_SEND_POLICY ?? 'fastest');
+  const jitoProbeIntervalMs = parseIntOr(process.env.JITO_PROBE_INTERVAL_MS, 30_000);
   const jitoTipLamports = parseIntOr(process.env.JITO_TIP_LAMPORTS, 10_000);
   const jitoTipMode = JitoTipModeSchema.parse(process.env.JITO_TIP_MODE ?? 'fixed');
   const jitoMinTipLamports = parseIntOr(process.env.JITO_MIN_TIP_LAMPORTS, 5_000);
   const jitoMaxTipLamports = parseIntOr(process.env.JITO_MAX_TIP_LAMPORTS, 50_000);
   const jitoTipBps = parseIntOr(process.env.JITO_TIP_BPS, 2000);
   const jitoWaitMs = parseIntOr(process.env.JITO_WAIT_MS, 0);
+  const jitoTargetLandingRate = Math.max(0, Math.min(1, parseFloatOr(process.env.JITO_TARGET_LANDING_RATE, 0.5)));
+  const jitoAdaptiveWindow = parseIntOr(process.env.JITO_ADAPTIVE_WINDOW, 20);
+  const jitoAdaptiveStepBps = parseIntOr(process.env.JITO_ADAPTIVE_STEP_BPS, 1500);
+  const jitoBundlePollMs = parseIntOr(process.env.JITO_BUNDLE_POLL_MS, 2000);
+  const jitoBundleResolveTimeoutMs = parseIntOr(process.env.JITO_BUNDLE_RESOLVE_TIMEOUT_MS, 90_000);
   const jitoFallbackRpc = parseBoolean(process.env.JITO_FALLBACK_RPC, false);
+  const jitoSequentialBundle = parseBoolean(process.env.JITO_SEQUENTIAL_BUNDLE, false);
   const jitoTipAccount = process.env.JITO_TIP_ACCOUNT;
 
   const solanaRpcUrl = z.string().min(1).parse(process.env.SOLANA_RPC_URL);
   const solanaWsUrl = process.env.SOLANA_WS_URL;
   const solanaCommitment = SolanaCommitmentSchema.parse(process.env.SOLANA_COMMITMENT ?? 'confirmed');
   const walletSecretKey = z.string().min(1).parse(process.env.WALLET_SECRET_KEY);
+  const walletAssignment = WalletAssignmentSchema.parse(process.env.WALLET_ASSIGNMENT ?? 'round-robin');
 
   const configPath = process.env.CONFIG_PATH ?? './config.json';
   const configReloadMs = parseIntOr(process.env.CONFIG_RELOAD_MS, 0);
@@ -121,7 +164,20 @@ export function getEnv() {
   const blacklistPairs = parseCsvList(process.env.BLACKLIST_PAIRS);
   const pollIntervalMs = parseIntOr(process.env.POLL_INTERVAL_MS, 500);
   const pairSchedulerSpread = parseBoolean(process.env.PAIR_SCHEDULER_SPREAD, true);
+  const accountScanEnabled = parseBoolean(process.env.ACCOUNT_SCAN_ENABLED, false);
+  const accountScanMinIntervalMs = Math.max(0, parseIntOr(process.env.ACCOUNT_SCAN_MIN_INTERVAL_MS, 250));
+  const accountScanFallbackPollMs = Math.max(0, parseIntOr(process.env.ACCOUNT_SCAN_FALLBACK_POLL_MS, 10_000));
+  const accountScanMaxAccountsPerPair = Math.max(1, parseIntOr(process.env.ACCOUNT_SCAN_MAX_ACCOUNTS_PER_PAIR, 16));
   const healthcheckPort = parseIntOr(process.env.HEALTHCHECK_PORT, 0);
+  const riskStateStore = RiskStateStoreSchema.parse(process.env.RISK_STATE_STORE ?? 'json');
+  const riskStatePath =
+    parseOptionalString(process.env.RISK_STATE_PATH) ??
+    (riskStateStore === 'sqlite' ? './logs/risk-state.sqlite' : './logs/risk-state.json');
+  const riskStateKey = parseOptionalString(process.env.RISK_STATE_KEY) ?? 'global';
+  const executionLease = ExecutionLeaseSchema.parse(process.env.EXECUTION_LEASE ?? 'lockfile');
+  const executionLeasePath = parseOptionalString(process.env.EXECUTION_LEASE_PATH) ?? './logs/leases';
+  const executionLeaseRedisUrl = parseOptionalString(process.env.EXECUTION_LEASE_REDIS_URL);
+  const executionLeaseTtlMs = parseIntOr(process.env.EXECUTION_LEASE_TTL_MS, 120_000);
   const balanceRefreshMs = parseIntOr(process.env.BALANCE_REFRESH_MS, 2000);
   const dynamicAmountMode = DynamicAmountModeSchema.parse(process.env.DYNAMIC_AMOUNT_A_MODE ?? 'off');
   const dynamicAmountBps = parseIntOr(process.env.DYNAMIC_AMOUNT_A_BPS, 0);
@@ -172,6 +228,18 @@ export function getEnv() {
   const defaultOpenOceanGateBps = botProfile === 'hft' ? -50 : -250;
   const openOceanJupiterGateBps = parseIntOr(process.env.OPENOCEAN_JUPITER_GATE_BPS, defaultOpenOceanGateBps);
   const openOceanJupiterNearGateBps = parseIntOr(process.env.OPENOCEAN_JUPITER_NEAR_GATE_BPS, botProfile === 'hft' ? 50 : 0);
+  const openOceanMixedLegs = parseBoolean(process.env.OPENOCEAN_MIXED_LEGS, true);
+
+  const ammPoolsPath = parseOptionalString(process.env.AMM_POOLS_PATH);
+  const ammCrossCheckMaxBps = Math.max(0, parseIntOr(process.env.AMM_CROSS_CHECK_MAX_BPS, 30));
+
+  const unwindEnabled = parseBoolean(process.env.UNWIND_ENABLED, false);
+  const unwindMaxLossBps = parseIntOr(process.env.UNWIND_MAX_LOSS_BPS, 300);
+  const unwindSlippageBps = parseIntOr(process.env.UNWIND_SLIPPAGE_BPS, 100);
+  const unwindMaxAttempts = Math.max(1, parseIntOr(process.env.UNWIND_MAX_ATTEMPTS, 5));
+  const unwindRetryBaseMs = parseIntOr(process.env.UNWIND_RETRY_BASE_MS, 5000);
+  const unwindRetryMaxMs = parseIntOr(process.env.UNWIND_RETRY_MAX_MS, 300_000);
+  const unwindDustBps = parseIntOr(process.env.UNWIND_DUST_BPS, 5);
 
   const useRustCalc = parseBoolean(process.env.USE_RUST_CALC, false);
   const rustCalcPath = process.env.RUST_CALC_PATH ?? './target/release/arb_calc';
@@ -180,6 +248,10 @@ export function getEnv() {
     botProfile,
     mode,
     executionStrategy,
+    sequentialLeg2MaxWaitMs,
+    sequentialLeg2PollMs,
+    sequentialLeg2MaxLossBps,
+    sequentialAbortMode,
     triggerStrategy,
     triggerObserveMs,
     triggerObserveIntervalMs,
@@ -193,6 +265,8 @@ export function getEnv() {
     triggerEmergencySigma,
     triggerAmountMode,
     triggerMaxAmountsPerTick,
+    amountOptimizerQuoteBudget,
+    amountOptimizerGrid,
     dryRunBuild,
     dryRunSimulate,
     dryRunIncludeJitoTip,
@@ -203,19 +277,36 @@ export function getEnv() {
     priorityFeeMaxMicroLamports,
     priorityFeeTargetAccountLimit,
     priorityFeeWithJito,
+    priorityFeePerAccount,
+    priorityFeeAccountRefreshMs,
+    priorityFeeBid,
+    priorityFeeBidProfitBps,
     heliusApiKey,
     heliusRpcUrl,
     logPath,
     logVerbose,
     logRotateMaxBytes,
     logRotateMaxFiles,
+    quoteTapePath,
+    replayQuoteMaxAgeMs,
     baseFeeLamports,
     rentBufferLamports,
     computeUnitLimit,
     computeUnitPriceMicroLamports,
+    computeUnitFit,
+    computeUnitFitMarginBps,
+    computeUnitFitTtlMs,
     quoteCacheTtlMs,
     feeConversionCacheTtlMs,
     lutCacheTtlMs,
+    altManagerEnabled,
+    altMinKeyOccurrences,
+    altMaxTables,
+    altMaintainIntervalMs,
+    altStatePath,
+    atomicPreflight,
+    atomicFallbackMaxAccounts,
+    atomicFallbackSequential,
     pairConcurrency,
     minBalanceLamports,
     maxErrorsBeforeExit,
@@ -223,18 +314,28 @@ export function getEnv() {
     autoSetupWallet,
     jitoEnabled,
     jitoBlockEngineUrl,
+    jitoBlockEngineUrls,
+    jitoSendPolicy,
+    jitoProbeIntervalMs,
     jitoTipLamports,
     jitoTipMode,
     jitoMinTipLamports,
     jitoMaxTipLamports,
     jitoTipBps,
     jitoWaitMs,
+    jitoTargetLandingRate,
+    jitoAdaptiveWindow,
+    jitoAdaptiveStepBps,
+    jitoBundlePollMs,
+    jitoBundleResolveTimeoutMs,
     jitoFallbackRpc,
+    jitoSequentialBundle,
     jitoTipAccount,
     solanaRpcUrl,
     solanaWsUrl,
     solanaCommitment,
     walletSecretKey,
+    walletAssignment,
     configPath,
     configReloadMs,
     blacklistPath,
@@ -242,7 +343,18 @@ export function getEnv() {
     blacklistPairs,
     pollIntervalMs,
     pairSchedulerSpread,
+    accountScanEnabled,
+    accountScanMinIntervalMs,
+    accountScanFallbackPollMs,
+    accountScanMaxAccountsPerPair,
     healthcheckPort,
+    riskStateStore,
+    riskStatePath,
+    riskStateKey,
+    executionLease,
+    executionLeasePath,
+    executionLeaseRedisUrl,
+    executionLeaseTtlMs,
     balanceRefreshMs,
     dynamicAmountMode,
     dynamicAmountBps,
@@ -286,6 +398,16 @@ export function getEnv() {
     openOceanEveryNTicks: safeOpenOceanEveryNTicks,
     openOceanJupiterGateBps,
     openOceanJupiterNearGateBps,
+    openOceanMixedLegs,
+    ammPoolsPath,
+    ammCrossCheckMaxBps,
+    unwindEnabled,
+    unwindMaxLossBps,
+    unwindSlippageBps,
+    unwindMaxAttempts,
+    unwindRetryBaseMs,
+    unwindRetryMaxMs,
+    unwindDustBps,
     useRustCalc,
     rustCalcPath,
   };
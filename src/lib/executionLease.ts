@@ -0,0 +1,321 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { link, mkdir, readFile, rename, stat, unlink, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { connect, type Socket } from 'node:net';
+
+export type ExecutionLeaseResult =
+  | { ok: true; key: string; release: () => Promise<void> }
+  | { ok: false; key: string; holder?: string };
+
+// Cross-process mutex for one (wallet, mints) opportunity. Leases expire after `ttlMs` so a crashed holder
+// never blocks the key forever; the TTL must cover a whole execution (build + send + confirm).
+export type ExecutionLease = {
+  kind: 'lockfile' | 'redis';
+  tryAcquire(key: string, ttlMs: number): Promise<ExecutionLeaseResult>;
+  close?(): Promise<void>;
+};
+
+// Mint order does not matter: A->B->C->A and A->C->B->A on the same wallet touch the same accounts.
+export function executionLeaseKey(params: { wallet: string; mints: Array<string | undefined> }) {
+  const mints = Array.from(new Set(params.mints.filter((m): m is string => Boolean(m)))).sort();
+  return `prime:lease:${params.wallet}:${mints.join(':')}`;
+}
+
+function newHolderToken() {
+  return `${hostname()}:${process.pid}:${randomBytes(4).toString('hex')}`;
+}
+
+type LockfileContent = { key: string; holder: string; expiresAtMs: number };
+
+function errorCode(error: unknown) {
+  return error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+}
+
+// One file per key under a directory shared by every process (e.g. the `./logs` volume in docker-compose).
+// A lease is written to a private file and hard-linked into place, so the lock file appears complete or not at all and
+// exactly one process wins. Expired files (and unreadable ones older than the TTL) are taken over.
+export class LockfileExecutionLease implements ExecutionLease {
+  readonly kind = 'lockfile' as const;
+
+  constructor(private readonly dir: string) {}
+
+  private pathFor(key: string) {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex').slice(0, 32)}.lock`);
+  }
+
+  private async read(path: string): Promise<LockfileContent | undefined> {
+    try {
+      const parsed = JSON.parse(await readFile(path, 'utf8')) as Partial<LockfileContent>;
+      if (typeof parsed.holder !== 'string' || typeof parsed.expiresAtMs !== 'number') return undefined;
+      return parsed as LockfileContent;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Undefined when the file is gone. A file without a readable lease (left by a crash) expires by its mtime.
+  private async inspect(path: string, ttlMs: number): Promise<{ expired: boolean; holder?: string } | undefined> {
+    const current = await this.read(path);
+    if (current) return { expired: current.expiresAtMs <= Date.now(), holder: current.holder };
+    const info = await stat(path).catch(() => undefined);
+    if (!info) return undefined;
+    return { expired: Date.now() - info.mtimeMs > ttlMs };
+  }
+
+  private async create(path: string, scratch: string, content: LockfileContent) {
+    await writeFile(scratch, JSON.stringify(content), { encoding: 'utf8', flag: 'wx' });
+    try {
+      await link(scratch, path);
+      return true;
+    } catch (error) {
+      if (errorCode(error) !== 'EEXIST') throw error;
+      return false;
+    } finally {
+      await unlink(scratch).catch(() => undefined);
+    }
+  }
+
+  async tryAcquire(key: string, ttlMs: number): Promise<ExecutionLeaseResult> {
+    await mkdir(this.dir, { recursive: true });
+    const path = this.pathFor(key);
+    const holder = newHolderToken();
+    const scratch = `${path}.${randomBytes(6).toString('hex')}`;
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      if (await this.create(path, scratch, { key, holder, expiresAtMs: Date.now() + ttlMs })) {
+        return {
+          ok: true,
+          key,
+          release: async () => {
+            const current = await this.read(path);
+            if (current?.holder !== holder) return;
+            await unlink(path).catch(() => undefined);
+          },
+        };
+      }
+
+      const current = await this.inspect(path, ttlMs);
+      if (!current) continue;
+      if (!current.expired) return { ok: false, key, holder: current.holder };
+
+      // Take over by moving the stale file aside: only one of the processes that saw it expire can rename it. What was
+      // moved is checked again, since another process may have replaced the stale file with a live lease after our
+      // read; a live lease is linked back into place.
+      const aside = `${scratch}.stale`;
+      try {
+        await rename(path, aside);
+      } catch (error) {
+        if (errorCode(error) === 'ENOENT') continue;
+        throw error;
+      }
+      const moved = await this.inspect(aside, ttlMs);
+      if (moved && !moved.expired) {
+        await link(aside, path).catch(() => undefined);
+        await unlink(aside).catch(() => undefined);
+        return { ok: false, key, holder: moved.holder };
+      }
+      await unlink(aside).catch(() => undefined);
+    }
+    return { ok: false, key };
+  }
+}
+
+// Minimal command interface so a local stand-in can replace a real Redis server.
+export type RedisCommandClient = {
+  command(args: string[]): Promise<unknown>;
+  close?(): Promise<void>;
+};
+
+const RELEASE_SCRIPT = "if redis.call('get', KEYS[1]) == ARGV[1] then return redis.call('del', KEYS[1]) else return 0 end";
+
+// `SET key holder NX PX ttl` to acquire, compare-and-delete script to release (never drops someone else's lease).
+export class RedisExecutionLease implements ExecutionLease {
+  readonly kind = 'redis' as const;
+
+  constructor(private readonly client: RedisCommandClient) {}
+
+  async tryAcquire(key: string, ttlMs: number): Promise<ExecutionLeaseResult> {
+    const holder = newHolderToken();
+    const reply = await this.client.command(['SET', key, holder, 'NX', 'PX', String(Math.max(1, Math.floor(ttlMs)))]);
+    if (reply !== 'OK') {
+      const current = await this.client.command(['GET', key]).catch(() => undefined);
+      return { ok: false, key, holder: typeof current === 'string' ? current : undefined };
+    }
+    return {
+      ok: true,
+      key,
+      release: async () => {
+        await this.client.command(['EVAL', RELEASE_SCRIPT, '1', key, holder]);
+      },
+    };
+  }
+
+  async close() {
+    await this.client.close?.();
+  }
+}
+
+class RedisReplyError extends Error {}
+
+// Parses one RESP2 reply starting at `offset`; undefined when the buffer does not hold a full reply yet.
+function parseReply(buf: Buffer, offset: number): { value: unknown; next: number } | undefined {
+  const lineEnd = buf.indexOf('\r\n', offset);
+  if (lineEnd < 0) return undefined;
+  const prefix = String.fromCharCode(buf[offset]!);
+  const line = buf.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+  switch (prefix) {
+    case '+':
+      return { value: line, next };
+    case '-':
+      return { value: new RedisReplyError(line), next };
+    case ':':
+      return { value: Number(line), next };
+    case '$': {
+      const len = Number(line);
+      if (len < 0) return { value: null, next };
+      if (buf.length < next + len + 2) return undefined;
+      return { value: buf.toString('utf8', next, next + len), next: next + len + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count < 0) return { value: null, next };
+      const items: unknown[] = [];
+      let cursor = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buf, cursor);
+        if (!item) return undefined;
+        items.push(item.value);
+        cursor = item.next;
+      }
+      return { value: items, next: cursor };
+    }
+    default:
+      throw new Error(`redis: unexpected reply prefix ${JSON.stringify(prefix)}`);
+  }
+}
+
+function encodeCommand(args: string[]) {
+  return `*${args.length}\r\n${args.map((a) => `$${Buffer.byteLength(a)}\r\n${a}\r\n`).join('')}`;
+}
+
+// Tiny RESP client over node:net (redis://[:password@]host[:port][/db]); enough for SET/GET/EVAL, no extra dependency.
+// Replies are matched to commands in FIFO order; the socket reconnects lazily after an error.
+export class RespClient implements RedisCommandClient {
+  private socket: Socket | undefined;
+  private connecting: Promise<Socket> | undefined;
+  private buffer: Buffer = Buffer.alloc(0);
+  private readonly pending: Array<{ resolve: (v: unknown) => void; reject: (e: Error) => void }> = [];
+  private readonly url: URL;
+
+  constructor(
+    url: string,
+    private readonly timeoutMs = 2_000,
+  ) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:') throw new Error(`EXECUTION_LEASE_REDIS_URL must use redis:// (got ${this.url.protocol})`);
+  }
+
+  private failAll(error: Error) {
+    this.socket?.destroy();
+    this.socket = undefined;
+    this.connecting = undefined;
+    this.buffer = Buffer.alloc(0);
+    for (const p of this.pending.splice(0)) p.reject(error);
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    while (offset < this.buffer.length) {
+      const parsed = parseReply(this.buffer, offset);
+      if (!parsed) break;
+      offset = parsed.next;
+      const waiter = this.pending.shift();
+      if (!waiter) continue;
+      if (parsed.value instanceof RedisReplyError) waiter.reject(parsed.value);
+      else waiter.resolve(parsed.value);
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+
+  private async ensureSocket(): Promise<Socket> {
+    if (this.socket) return this.socket;
+    if (this.connecting) return await this.connecting;
+
+    this.connecting = new Promise<Socket>((resolve, reject) => {
+      const socket = connect({ host: this.url.hostname || '127.0.0.1', port: Number(this.url.port || 6379) });
+      socket.setNoDelay(true);
+      const timer = setTimeout(() => socket.destroy(new Error('redis: connect timeout')), this.timeoutMs);
+      socket.once('connect', () => {
+        clearTimeout(timer);
+        resolve(socket);
+      });
+      socket.once('error', (error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      socket.on('data', (chunk: Buffer) => this.onData(chunk));
+      socket.on('error', (error) => this.failAll(error));
+      socket.on('close', () => this.failAll(new Error('redis: connection closed')));
+    });
+
+    try {
+      const socket = await this.connecting;
+      this.socket = socket;
+      const password = decodeURIComponent(this.url.password);
+      const username = decodeURIComponent(this.url.username);
+      if (password) await this.send(socket, username ? ['AUTH', username, password] : ['AUTH', password]);
+      const db = this.url.pathname.replace(/^\//, '');
+      if (db && db !== '0') await this.send(socket, ['SELECT', db]);
+      return socket;
+    } catch (error) {
+      this.failAll(error instanceof Error ? error : new Error(String(error)));
+      throw error;
+    } finally {
+      this.connecting = undefined;
+    }
+  }
+
+  private send(socket: Socket, args: string[]) {
+    return new Promise<unknown>((resolve, reject) => {
+      const timer = setTimeout(() => this.failAll(new Error(`redis: ${args[0]} timed out`)), this.timeoutMs);
+      this.pending.push({
+        resolve: (v) => {
+          clearTimeout(timer);
+          resolve(v);
+        },
+        reject: (e) => {
+          clearTimeout(timer);
+          reject(e);
+        },
+      });
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  async command(args: string[]) {
+    return await this.send(await this.ensureSocket(), args);
+  }
+
+  async close() {
+    const socket = this.socket;
+    if (!socket) return;
+    await this.command(['QUIT']).catch(() => undefined);
+    socket.destroy();
+  }
+}
+
+export function createExecutionLease(params: {
+  kind: 'off' | 'lockfile' | 'redis';
+  path: string;
+  redisUrl?: string;
+}): ExecutionLease | undefined {
+  if (params.kind === 'off') return undefined;
+  if (params.kind === 'redis') {
+    if (!params.redisUrl) throw new Error('EXECUTION_LEASE=redis requires EXECUTION_LEASE_REDIS_URL');
+    return new RedisExecutionLease(new RespClient(params.redisUrl));
+  }
+  return new LockfileExecutionLease(params.path);
+}
@@ -0,0 +1,285 @@
+import type { BotPair, BotRiskLimits } from './config.js';
+import type { LogEvent } from './logger.js';
+
+const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type GlobalRiskState = {
+  hourTradesMs: number[];
+  dayKey: string;
+  dailyLossLamports: string;
+  realizedPnlLamports: string;
+  peakRealizedPnlLamports: string;
+};
+
+export type GlobalLimitBlock = {
+  reason: string;
+  [key: string]: unknown;
+};
+
+type ExposureLease = { pair: string; notionalLamports: bigint };
+
+function utcDayKey(tsMs: number) {
+  return new Date(tsMs).toISOString().slice(0, 10);
+}
+
+function parseBigIntOr(value: unknown, fallback: bigint) {
+  if (typeof value !== 'string' || !/^\-?\d+$/.test(value)) return fallback;
+  return BigInt(value);
+}
+
+function parseLimit(value: string | undefined) {
+  if (!value || !/^\d+$/.test(value)) return undefined;
+  const limit = BigInt(value);
+  return limit > 0n ? limit : undefined;
+}
+
+// Wallet-wide limits on top of the per-pair ones. PnL of non-SOL `aMint` pairs is valued in lamports
+// using the fee conversion rate (lamports -> A) last seen in that pair's `candidate` events. Without a rate the guard
+// fails closed: the pair's notional cannot be reserved and an A result waits (blocking executions) until it is valued.
+export class GlobalRiskGuard {
+  private limits: BotRiskLimits = {};
+  private hourTradesMs: number[] = [];
+  private dayKey = utcDayKey(Date.now());
+  private dailyLossLamports = 0n;
+  private realizedPnlLamports = 0n;
+  private peakRealizedPnlLamports = 0n;
+  private readonly lamportsPerA = new Map<string, { lamports: bigint; aAtomic: bigint }>();
+  private readonly unvaluedA = new Map<string, { aMint: string; deltaAAtomic: bigint }>();
+  private readonly inFlight = new Set<ExposureLease>();
+  private readonly skips: Record<string, number> = {};
+
+  setLimits(limits: BotRiskLimits | undefined) {
+    this.limits = limits ?? {};
+  }
+
+  hasLimits() {
+    return Object.values(this.limits).some((v) => v !== undefined);
+  }
+
+  observe(event: LogEvent) {
+    const pair = typeof event['pair'] === 'string' ? (event['pair'] as string) : undefined;
+    if (!pair) return;
+    if (event['type'] === 'unwind' && event['status'] === 'sold' && typeof event['aMint'] === 'string') {
+      this.recordPnl(Date.now(), this.pnlValueLamports(pair, event['aMint'] as string, event));
+      return;
+    }
+    if (event['type'] !== 'candidate') return;
+    const lamports = parseBigIntOr(event['feeEstimateLamports'], 0n);
+    const aAtomic = parseBigIntOr(event['feeEstimateInA'], 0n);
+    if (lamports <= 0n || aAtomic <= 0n) return;
+    this.lamportsPerA.set(pair, { lamports, aAtomic });
+
+    const pending = this.unvaluedA.get(pair);
+    if (pending) {
+      this.unvaluedA.delete(pair);
+      this.recordPnl(Date.now(), this.valueInLamports({ name: pair, aMint: pending.aMint }, pending.deltaAAtomic));
+    }
+  }
+
+  private rollDay(nowMs: number) {
+    const dayKey = utcDayKey(nowMs);
+    if (dayKey !== this.dayKey) {
+      this.dayKey = dayKey;
+      this.dailyLossLamports = 0n;
+    }
+    const hourCutoff = nowMs - 60 * 60 * 1000;
+    while (this.hourTradesMs.length && this.hourTradesMs[0]! < hourCutoff) this.hourTradesMs.shift();
+  }
+
+  private valueInLamports(pair: { name: string; aMint: string }, amountAAtomic: bigint): bigint | undefined {
+    if (pair.aMint === SOL_MINT) return amountAAtomic;
+    const rate = this.lamportsPerA.get(pair.name);
+    if (!rate) return undefined;
+    return (amountAAtomic * rate.lamports) / rate.aAtomic;
+  }
+
+  // Undefined until the first candidate of a non-SOL pair provides a conversion rate.
+  private pairNotionalLamports(pair: BotPair) {
+    const amounts = (pair.amountASteps?.length ? pair.amountASteps : [pair.amountA]).map((a) => BigInt(a));
+    let max = amounts.reduce((acc, a) => (a > acc ? a : acc), 0n);
+    if (pair.maxNotionalA && /^\d+$/.test(pair.maxNotionalA) && BigInt(pair.maxNotionalA) < max) {
+      max = BigInt(pair.maxNotionalA);
+    }
+    return this.valueInLamports(pair, max);
+  }
+
+  private block(reason: string, details: Record<string, unknown>): GlobalLimitBlock {
+    this.skips[reason] = (this.skips[reason] ?? 0) + 1;
+    return { reason, ...details };
+  }
+
+  // Limits that block scanning altogether (realized losses and trade count); checked before quoting a pair.
+  check(params: { nowMs: number }): { ok: true } | { ok: false; block: GlobalLimitBlock } {
+    this.rollDay(params.nowMs);
+
+    const maxDailyLoss = parseLimit(this.limits.maxDailyLossLamports);
+    if (maxDailyLoss !== undefined && this.dailyLossLamports >= maxDailyLoss) {
+      return {
+        ok: false,
+        block: this.block('max_daily_loss', {
+          dailyLossLamports: this.dailyLossLamports.toString(),
+          maxDailyLossLamports: maxDailyLoss.toString(),
+        }),
+      };
+    }
+
+    const maxDrawdown = parseLimit(this.limits.maxDrawdownLamports);
+    const drawdown = this.peakRealizedPnlLamports - this.realizedPnlLamports;
+    if (maxDrawdown !== undefined && drawdown >= maxDrawdown) {
+      return {
+        ok: false,
+        block: this.block('max_drawdown', {
+          drawdownLamports: drawdown.toString(),
+          peakRealizedPnlLamports: this.peakRealizedPnlLamports.toString(),
+          realizedPnlLamports: this.realizedPnlLamports.toString(),
+          maxDrawdownLamports: maxDrawdown.toString(),
+        }),
+      };
+    }
+
+    const maxTradesPerHour = this.limits.maxTradesPerHour;
+    if (maxTradesPerHour !== undefined && this.hourTradesMs.length >= maxTradesPerHour) {
+      return {
+        ok: false,
+        block: this.block('max_trades_per_hour', {
+          tradesLastHour: this.hourTradesMs.length,
+          maxTradesPerHour,
+        }),
+      };
+    }
+    return { ok: true };
+  }
+
+  // Checks every global limit and, when allowed, reserves the pair's exposure until `release()` is called. Taken by
+  // the executor around one execution only, so scans never count against the concurrency limits.
+  tryAcquire(params: { pair: BotPair; nowMs: number }): { ok: true; release: () => void } | { ok: false; block: GlobalLimitBlock } {
+    const checked = this.check(params);
+    if (!checked.ok) return checked;
+
+    if (this.unvaluedA.size) {
+      return {
+        ok: false,
+        block: this.block('pnl_unvalued', {
+          pairs: Array.from(this.unvaluedA.keys()),
+        }),
+      };
+    }
+
+    const maxConcurrent = this.limits.maxConcurrentExecutions;
+    if (maxConcurrent !== undefined && this.inFlight.size >= maxConcurrent) {
+      return {
+        ok: false,
+        block: this.block('max_concurrent_executions', {
+          inFlight: this.inFlight.size,
+          maxConcurrentExecutions: maxConcurrent,
+        }),
+      };
+    }
+
+    const pairNotional = this.pairNotionalLamports(params.pair);
+    const maxNotional = parseLimit(this.limits.maxConcurrentNotionalLamports);
+    if (maxNotional !== undefined && pairNotional === undefined) {
+      return {
+        ok: false,
+        block: this.block('notional_rate_unknown', {
+          aMint: params.pair.aMint,
+          maxConcurrentNotionalLamports: maxNotional.toString(),
+        }),
+      };
+    }
+    const notionalLamports = pairNotional ?? 0n;
+    if (maxNotional !== undefined) {
+      const current = this.currentExposureLamports();
+      if (current + notionalLamports > maxNotional) {
+        return {
+          ok: false,
+          block: this.block('max_concurrent_notional', {
+            inFlightNotionalLamports: current.toString(),
+            pairNotionalLamports: notionalLamports.toString(),
+            maxConcurrentNotionalLamports: maxNotional.toString(),
+          }),
+        };
+      }
+    }
+
+    const lease: ExposureLease = { pair: params.pair.name, notionalLamports };
+    this.inFlight.add(lease);
+    return { ok: true, release: () => void this.inFlight.delete(lease) };
+  }
+
+  recordExecution(params: {
+    pair: BotPair;
+    nowMs: number;
+    pnl?: { deltaSolLamports?: number; deltaAAtomic?: string };
+  }) {
+    this.rollDay(params.nowMs);
+    this.hourTradesMs.push(params.nowMs);
+
+    if (!params.pnl) return;
+    this.recordPnl(params.nowMs, this.pnlValueLamports(params.pair.name, params.pair.aMint, params.pnl));
+  }
+
+  private pnlValueLamports(pairName: string, aMint: string, pnl: { deltaSolLamports?: unknown; deltaAAtomic?: unknown }) {
+    const deltaSol = typeof pnl.deltaSolLamports === 'number' ? BigInt(Math.trunc(pnl.deltaSolLamports)) : undefined;
+    if (aMint === SOL_MINT) return deltaSol;
+    // SOL delta only carries fees/tips here; the trade result sits in A.
+    const deltaA = parseBigIntOr(pnl.deltaAAtomic, 0n);
+    const valueA = this.valueInLamports({ name: pairName, aMint }, deltaA);
+    if (valueA === undefined && deltaA !== 0n) {
+      // Kept until the pair's next candidate brings a rate; executions stay blocked meanwhile (see tryAcquire).
+      const pending = this.unvaluedA.get(pairName);
+      this.unvaluedA.set(pairName, { aMint, deltaAAtomic: (pending?.deltaAAtomic ?? 0n) + deltaA });
+    }
+    return (deltaSol ?? 0n) + (valueA ?? 0n);
+  }
+
+  private recordPnl(nowMs: number, valueLamports: bigint | undefined) {
+    if (valueLamports === undefined) return;
+    this.rollDay(nowMs);
+    this.realizedPnlLamports += valueLamports;
+    if (this.realizedPnlLamports > this.peakRealizedPnlLamports) this.peakRealizedPnlLamports = this.realizedPnlLamports;
+    if (valueLamports < 0n) this.dailyLossLamports += -valueLamports;
+  }
+
+  private currentExposureLamports() {
+    let total = 0n;
+    for (const lease of this.inFlight) total += lease.notionalLamports;
+    return total;
+  }
+
+  exportState(): GlobalRiskState {
+    return {
+      hourTradesMs: this.hourTradesMs.slice(),
+      dayKey: this.dayKey,
+      dailyLossLamports: this.dailyLossLamports.toString(),
+      realizedPnlLamports: this.realizedPnlLamports.toString(),
+      peakRealizedPnlLamports: this.peakRealizedPnlLamports.toString(),
+    };
+  }
+
+  importState(state: GlobalRiskState, nowMs: number) {
+    this.hourTradesMs = state.hourTradesMs.slice().sort((a, b) => a - b);
+    this.dayKey = state.dayKey;
+    this.dailyLossLamports = parseBigIntOr(state.dailyLossLamports, 0n);
+    this.realizedPnlLamports = parseBigIntOr(state.realizedPnlLamports, 0n);
+    this.peakRealizedPnlLamports = parseBigIntOr(state.peakRealizedPnlLamports, 0n);
+    this.rollDay(nowMs);
+  }
+
+  snapshot() {
+    this.rollDay(Date.now());
+    return {
+      limits: this.limits,
+      dayKey: this.dayKey,
+      dailyLossLamports: this.dailyLossLamports.toString(),
+      realizedPnlLamports: this.realizedPnlLamports.toString(),
+      peakRealizedPnlLamports: this.peakRealizedPnlLamports.toString(),
+      drawdownLamports: (this.peakRealizedPnlLamports - this.realizedPnlLamports).toString(),
+      tradesLastHour: this.hourTradesMs.length,
+      inFlight: Array.from(this.inFlight).map((l) => ({ pair: l.pair, notionalLamports: l.notionalLamports.toString() })),
+      inFlightNotionalLamports: this.currentExposureLamports().toString(),
+      unvaluedPnlPairs: Array.from(this.unvaluedA.keys()),
+      skips: { ...this.skips },
+    };
+  }
+}
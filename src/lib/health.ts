@@ -1,8 +1,17 @@
 import http from 'node:http';
 
+import { PROMETHEUS_CONTENT_TYPE } from './prometheus.js';
+
+// Prometheus asks for `text/plain;version=0.0.4` (or OpenMetrics); curl/browsers keep getting JSON on `/metrics`.
+function wantsPrometheus(accept: string | undefined) {
+  if (!accept) return false;
+  return /application\/openmetrics-text|text\/plain;\s*version=0\.0\.4/i.test(accept);
+}
+
 export function startHealthServer(params: {
   port: number;
   getSnapshot: () => unknown;
+  getPrometheus?: () => string;
   log?: (msg: string) => void;
 }) {
   const port = Math.max(0, Math.floor(params.port));
@@ -16,6 +25,14 @@ export function startHealthServer(params: {
       res.end('ok');
       return;
     }
+    const prometheus =
+      params.getPrometheus && (url === '/metrics/prometheus' || (url === '/metrics' && wantsPrometheus(req.headers.accept)));
+    if (prometheus) {
+      res.statusCode = 200;
+      res.setHeader('content-type', PROMETHEUS_CONTENT_TYPE);
+      res.end(params.getPrometheus!());
+      return;
+    }
     if (url === '/metrics' || url === '/snapshot') {
       res.statusCode = 200;
       res.setHeader('content-type', 'application/json; charset=utf-8');
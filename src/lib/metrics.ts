@@ -1,4 +1,6 @@
 import type { LogEvent } from './logger.js';
+import { Histogram, PrometheusWriter } from './prometheus.js';
+import type { AdaptiveTokenBucketSnapshot } from './rateLimiter.js';
 
 type ScanWindowEntry = {
   tsMs: number;
@@ -27,10 +29,34 @@ type PairMetrics = {
   candidateErrors: number;
   skips: Record<string, number>;
   pairLimitSkips: Record<string, number>;
+  globalLimitSkips: Record<string, number>;
   pnlLeftovers: number;
+  unwinds: Record<string, number>;
+  executionResults: Record<string, number>;
   window: ScanWindowEntry[];
 };
 
+const SCAN_SECONDS_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10, 30];
+const EXECUTION_SECONDS_BUCKETS = [0.25, 0.5, 1, 2, 5, 10, 20, 30, 60, 120];
+const TRACE_SAMPLE_LIMIT = 1000;
+
+function percentile(sorted: number[], p: number) {
+  if (!sorted.length) return 0;
+  const idx = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[idx]!;
+}
+
+function summarizeSamples(samples: number[]) {
+  const sorted = samples.slice().sort((a, b) => a - b);
+  return {
+    samples: sorted.length,
+    p50: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    p99: percentile(sorted, 99),
+    max: sorted.length ? sorted[sorted.length - 1]! : 0,
+  };
+}
+
 function asString(value: unknown) {
   return typeof value === 'string' ? value : undefined;
 }
@@ -57,9 +83,25 @@ function addPairLimitSkip(metrics: PairMetrics, reason: string) {
   metrics.pairLimitSkips[reason] = (metrics.pairLimitSkips[reason] ?? 0) + 1;
 }
 
+function addGlobalLimitSkip(metrics: PairMetrics, reason: string) {
+  metrics.globalLimitSkips[reason] = (metrics.globalLimitSkips[reason] ?? 0) + 1;
+}
+
 export class MetricsCollector {
   private readonly perPair = new Map<string, PairMetrics>();
   private readonly startedAtMs = Date.now();
+  private readonly scanSeconds = new Histogram(SCAN_SECONDS_BUCKETS);
+  private readonly executionSeconds = new Histogram(EXECUTION_SECONDS_BUCKETS);
+  // Last TRACE_SAMPLE_LIMIT durations (ms) per trace stage, plus `total` (first quote -> end) and `execution`.
+  private readonly traceSamples = new Map<string, number[]>();
+  private traces = 0;
+
+  private addTraceSample(stage: string, ms: number) {
+    const samples = this.traceSamples.get(stage) ?? [];
+    samples.push(ms);
+    if (samples.length > TRACE_SAMPLE_LIMIT) samples.shift();
+    this.traceSamples.set(stage, samples);
+  }
 
   private getPair(name: string) {
     const existing = this.perPair.get(name);
@@ -82,7 +124,10 @@ export class MetricsCollector {
       candidateErrors: 0,
       skips: {},
       pairLimitSkips: {},
+      globalLimitSkips: {},
       pnlLeftovers: 0,
+      unwinds: {},
+      executionResults: {},
       window: [],
     };
     this.perPair.set(name, created);
@@ -100,7 +145,9 @@ export class MetricsCollector {
 
       if (type === 'scan_summary') {
         m.scans += 1;
-        m.scanMsTotal += asInt(event['scanMs']) ?? 0;
+        const scanMs = asInt(event['scanMs']) ?? 0;
+        m.scanMsTotal += scanMs;
+        this.scanSeconds.observe({ pair }, scanMs / 1000);
         m.candidatesTotal += asInt(event['candidates']) ?? 0;
         const jCalls = asInt(event['jupiterQuoteCalls']) ?? 0;
         const oCalls = asInt(event['openOceanQuoteCalls']) ?? 0;
@@ -116,10 +163,12 @@ export class MetricsCollector {
         m.candidateErrors += 1;
       } else if (type === 'error') {
         m.errors += 1;
-      } else if (type === 'skip' || type === 'openocean_skip') {
+      } else if (type === 'skip' || type === 'openocean_skip' || type === 'secondary_skip') {
         addSkip(m, asString(event['reason']) ?? 'unknown');
       } else if (type === 'pair_limit_skip') {
         addPairLimitSkip(m, asString(event['reason']) ?? 'unknown');
+      } else if (type === 'global_limit_skip') {
+        addGlobalLimitSkip(m, asString(event['reason']) ?? 'unknown');
       } else if (type === 'rate_limit') {
         const provider = asString(event['provider']);
         if (provider === 'jupiter') m.rateLimits.jupiter += 1;
@@ -127,8 +176,40 @@ export class MetricsCollector {
         else if (provider === 'openocean') m.rateLimits.openocean += 1;
       } else if (type === 'executed') {
         m.executed += 1;
+      } else if (type === 'trace') {
+        const result = asString(event['result']) ?? 'unknown';
+        m.executionResults[result] = (m.executionResults[result] ?? 0) + 1;
+        this.traces += 1;
+        const executionMs = asNumber(event['executionMs']);
+        if (executionMs !== undefined) {
+          this.executionSeconds.observe({ pair, result }, executionMs / 1000);
+          this.addTraceSample('execution', executionMs);
+        }
+        // Candidates that were never built end whenever the loop moves on; their total says nothing about latency.
+        const totalMs = asNumber(event['totalMs']);
+        if (totalMs !== undefined && executionMs !== undefined) this.addTraceSample('total', totalMs);
+        const stageMs = event['stageMs'];
+        if (stageMs && typeof stageMs === 'object') {
+          for (const [stage, ms] of Object.entries(stageMs as Record<string, unknown>)) {
+            const value = asNumber(ms);
+            if (value !== undefined) this.addTraceSample(stage, value);
+          }
+        }
       } else if (type === 'pnl_leftover') {
         m.pnlLeftovers += 1;
+      } else if (type === 'unwind') {
+        const status = asString(event['status']) ?? 'unknown';
+        m.unwinds[status] = (m.unwinds[status] ?? 0) + 1;
+        if (status === 'sold') {
+          // Recovered A (and fees in SOL) belong to the loop that stranded the tokens.
+          const deltaSol = asInt(event['deltaSolLamports']);
+          if (deltaSol !== undefined) m.pnlSolLamportsTotal += deltaSol;
+          const deltaA = asString(event['deltaAAtomic']);
+          if (deltaA && /^\-?\d+$/.test(deltaA)) {
+            const prev = m.pnlAAtomicTotal && /^\-?\d+$/.test(m.pnlAAtomicTotal) ? BigInt(m.pnlAAtomicTotal) : 0n;
+            m.pnlAAtomicTotal = (prev + BigInt(deltaA)).toString();
+          }
+        }
       } else if (type === 'pnl') {
         const aMint = asString(event['aMint']);
         const bMint = asString(event['bMint']);
@@ -190,11 +271,102 @@ export class MetricsCollector {
         candidateErrors: m.candidateErrors,
         skips: m.skips,
         pairLimitSkips: m.pairLimitSkips,
+        globalLimitSkips: m.globalLimitSkips,
         pnlLeftovers: m.pnlLeftovers,
+        unwinds: m.unwinds,
+        executionResults: m.executionResults,
         lastPnl: m.lastPnl,
       };
     }
 
-    return { uptimeMs, pairs };
+    const tracePercentilesMs: Record<string, ReturnType<typeof summarizeSamples>> = {};
+    for (const [stage, samples] of this.traceSamples) tracePercentilesMs[stage] = summarizeSamples(samples);
+
+    return { uptimeMs, pairs, traces: { count: this.traces, percentilesMs: tracePercentilesMs } };
+  }
+
+  // Prometheus text format for `GET /metrics` scrapes. Process-level gauges (balance, limiters) are passed in
+  // because they live in index.ts, not in the event stream.
+  renderPrometheus(extra: {
+    // Last observed SOL balance per wallet pubkey.
+    walletBalances?: Record<string, number>;
+    limiters?: Record<string, AdaptiveTokenBucketSnapshot>;
+  }) {
+    const w = new PrometheusWriter();
+    const pairs = Array.from(this.perPair.entries());
+    const perPair = (value: (m: PairMetrics) => number) => pairs.map(([pair, m]) => ({ labels: { pair }, value: value(m) }));
+    const perPairRecord = (label: string, record: (m: PairMetrics) => Record<string, number>) =>
+      pairs.flatMap(([pair, m]) => Object.entries(record(m)).map(([key, value]) => ({ labels: { pair, [label]: key }, value })));
+
+    w.family('prime_uptime_seconds', 'gauge', 'Seconds since the bot started.', [
+      { value: Math.floor((Date.now() - this.startedAtMs) / 1000) },
+    ]);
+    w.family(
+      'prime_wallet_balance_lamports',
+      'gauge',
+      'Last observed wallet SOL balance.',
+      Object.entries(extra.walletBalances ?? {}).map(([wallet, value]) => ({ labels: { wallet }, value })),
+    );
+
+    w.family('prime_scans_total', 'counter', 'Completed pair scans.', perPair((m) => m.scans));
+    w.family('prime_candidates_total', 'counter', 'Candidates quoted by scans.', perPair((m) => m.candidatesTotal));
+    w.family('prime_quote_calls_total', 'counter', 'Quote calls made by scans, by provider.', [
+      ...pairs.map(([pair, m]) => ({ labels: { pair, provider: 'jupiter' }, value: m.jupiterQuoteCallsTotal })),
+      ...pairs.map(([pair, m]) => ({ labels: { pair, provider: 'openocean' }, value: m.openOceanQuoteCallsTotal })),
+      ...pairs.map(([pair, m]) => ({ labels: { pair, provider: 'fee_conversion' }, value: m.feeConversionQuoteCallsTotal })),
+    ]);
+    w.family('prime_executions_total', 'counter', 'Executed (sent) trades.', perPair((m) => m.executed));
+    w.family('prime_execution_results_total', 'counter', 'Execution attempts by result.', perPairRecord('result', (m) => m.executionResults));
+    w.family('prime_wins_total', 'counter', 'Executions with non-negative PnL.', perPair((m) => m.wins));
+    w.family('prime_losses_total', 'counter', 'Executions with negative PnL.', perPair((m) => m.losses));
+    w.family('prime_pnl_sol_lamports', 'gauge', 'Cumulative realized SOL delta (lamports).', perPair((m) => m.pnlSolLamportsTotal));
+    w.family(
+      'prime_pnl_a_atomic',
+      'gauge',
+      'Cumulative realized delta of the pair input token (atomic units).',
+      pairs
+        .filter(([, m]) => m.pnlAAtomicTotal !== undefined && /^\-?\d+$/.test(m.pnlAAtomicTotal))
+        .map(([pair, m]) => ({ labels: { pair, a_mint: m.aMint }, value: BigInt(m.pnlAAtomicTotal!) })),
+    );
+    w.family('prime_skips_total', 'counter', 'Scan/execution skips by reason.', perPairRecord('reason', (m) => m.skips));
+    w.family('prime_pair_limit_skips_total', 'counter', 'Skips due to per-pair risk limits.', perPairRecord('reason', (m) => m.pairLimitSkips));
+    w.family('prime_global_limit_skips_total', 'counter', 'Skips due to wallet-wide risk limits.', perPairRecord('reason', (m) => m.globalLimitSkips));
+    w.family('prime_rate_limits_total', 'counter', 'HTTP 429 responses by provider.', [
+      ...perPair((m) => m.rateLimits.jupiter).map((s) => ({ ...s, labels: { ...s.labels, provider: 'jupiter' } })),
+      ...perPair((m) => m.rateLimits.ultra).map((s) => ({ ...s, labels: { ...s.labels, provider: 'ultra' } })),
+      ...perPair((m) => m.rateLimits.openocean).map((s) => ({ ...s, labels: { ...s.labels, provider: 'openocean' } })),
+    ]);
+    w.family('prime_errors_total', 'counter', 'Scan errors.', perPair((m) => m.errors));
+    w.family('prime_candidate_errors_total', 'counter', 'Candidate quote errors.', perPair((m) => m.candidateErrors));
+    w.family('prime_unwinds_total', 'counter', 'Unwind attempts by status.', perPairRecord('status', (m) => m.unwinds));
+
+    const limiters = Object.entries(extra.limiters ?? {});
+    const perLimiter = (value: (l: AdaptiveTokenBucketSnapshot) => number) =>
+      limiters.map(([limiter, l]) => ({ labels: { limiter }, value: value(l) }));
+    w.family('prime_limiter_current_rps', 'gauge', 'Current adaptive rate limit (requests/s).', perLimiter((l) => l.currentRps));
+    w.family('prime_limiter_base_rps', 'gauge', 'Configured rate limit (requests/s).', perLimiter((l) => l.baseRps));
+    w.family('prime_limiter_penalty', 'gauge', '1 while the limiter is in a 429 penalty window.', perLimiter((l) => (l.penaltyMsRemaining > 0 ? 1 : 0)));
+    w.family('prime_limiter_penalty_remaining_seconds', 'gauge', 'Seconds left in the 429 penalty window.', perLimiter((l) => l.penaltyMsRemaining / 1000));
+    w.family('prime_limiter_cooldown_remaining_seconds', 'gauge', 'Seconds left in the 429 cooldown.', perLimiter((l) => l.cooldownMsRemaining / 1000));
+    w.family('prime_limiter_calls_total', 'counter', 'Calls scheduled through the limiter.', perLimiter((l) => l.totalCalls));
+    w.family('prime_limiter_429_total', 'counter', 'HTTP 429 responses seen by the limiter.', perLimiter((l) => l.total429));
+
+    w.family(
+      'prime_trace_stage_seconds',
+      'gauge',
+      'Per-stage latency quantiles over the last traced opportunities.',
+      Array.from(this.traceSamples.entries()).flatMap(([stage, samples]) => {
+        const summary = summarizeSamples(samples);
+        return (['p50', 'p90', 'p99'] as const).map((q) => ({
+          labels: { stage, quantile: String(Number(q.slice(1)) / 100) },
+          value: summary[q] / 1000,
+        }));
+      }),
+    );
+
+    this.scanSeconds.render(w, 'prime_scan_duration_seconds', 'Duration of a pair scan (all quotes + decision).');
+    this.executionSeconds.render(w, 'prime_execution_duration_seconds', 'End-to-end execution latency (build, send, confirm), by result.');
+
+    return w.toString();
   }
 }
@@ -0,0 +1,92 @@
+// Minimal Prometheus text exposition (format 0.0.4); no client library needed for a handful of series.
+
+export type PromLabels = Record<string, string | undefined>;
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+function escapeLabelValue(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+function formatLabels(labels: PromLabels | undefined) {
+  if (!labels) return '';
+  const parts = Object.entries(labels)
+    .filter((entry): entry is [string, string] => entry[1] !== undefined)
+    .map(([k, v]) => `${k}="${escapeLabelValue(v)}"`);
+  return parts.length ? `{${parts.join(',')}}` : '';
+}
+
+function formatValue(value: number | bigint) {
+  if (typeof value === 'bigint') return value.toString();
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function labelsKey(labels: PromLabels) {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+// Cumulative histogram per label set; bucket bounds are upper-inclusive, in the unit of the metric (seconds here).
+export class Histogram {
+  private readonly series = new Map<string, { labels: PromLabels; counts: number[]; sum: number; count: number }>();
+
+  constructor(private readonly buckets: number[]) {
+    this.buckets = Array.from(new Set(buckets.filter((b) => Number.isFinite(b)))).sort((a, b) => a - b);
+  }
+
+  observe(labels: PromLabels, value: number) {
+    if (!Number.isFinite(value)) return;
+    const key = labelsKey(labels);
+    let s = this.series.get(key);
+    if (!s) {
+      s = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, s);
+    }
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]!) s.counts[i]! += 1;
+    }
+    s.sum += value;
+    s.count += 1;
+  }
+
+  render(writer: PrometheusWriter, name: string, help: string) {
+    writer.header(name, 'histogram', help);
+    for (const s of this.series.values()) {
+      this.buckets.forEach((le, i) => writer.sample(`${name}_bucket`, { ...s.labels, le: String(le) }, s.counts[i]!));
+      writer.sample(`${name}_bucket`, { ...s.labels, le: '+Inf' }, s.count);
+      writer.sample(`${name}_sum`, s.labels, s.sum);
+      writer.sample(`${name}_count`, s.labels, s.count);
+    }
+  }
+}
+
+export class PrometheusWriter {
+  private readonly lines: string[] = [];
+
+  header(name: string, type: 'counter' | 'gauge' | 'histogram', help: string) {
+    this.lines.push(`# HELP ${name} ${help}`);
+    this.lines.push(`# TYPE ${name} ${type}`);
+  }
+
+  sample(name: string, labels: PromLabels | undefined, value: number | bigint) {
+    this.lines.push(`${name}${formatLabels(labels)} ${formatValue(value)}`);
+  }
+
+  // Header + one sample per entry; skips the family entirely when there is nothing to report.
+  family(
+    name: string,
+    type: 'counter' | 'gauge',
+    help: string,
+    samples: Array<{ labels?: PromLabels; value: number | bigint }>,
+  ) {
+    if (!samples.length) return;
+    this.header(name, type, help);
+    for (const s of samples) this.sample(name, s.labels, s.value);
+  }
+
+  toString() {
+    return `${this.lines.join('\n')}\n`;
+  }
+}
@@ -0,0 +1,146 @@
+import { readFile } from 'node:fs/promises';
+
+import { createJsonlLogger } from './logger.js';
+
+export type QuoteTapeProvider = 'jupiter' | 'openocean';
+
+export type QuoteTapeEntry = {
+  ts: string;
+  tsMs: number;
+  provider: QuoteTapeProvider;
+  request: {
+    inputMint: string;
+    outputMint: string;
+    amount: string;
+    slippageBps: number;
+    includeDexes?: string[];
+    excludeDexes?: string[];
+    onlyDirectRoutes?: boolean;
+    maxAccounts?: number;
+  };
+  response: unknown;
+};
+
+export type QuoteTapeRecorder = (entry: Omit<QuoteTapeEntry, 'ts' | 'tsMs'>) => Promise<void>;
+
+export function quoteTapeKey(provider: QuoteTapeProvider, request: QuoteTapeEntry['request']) {
+  const includeDexes = request.includeDexes?.length ? request.includeDexes.slice().sort().join(',') : '';
+  const excludeDexes = request.excludeDexes?.length ? request.excludeDexes.slice().sort().join(',') : '';
+  return `${provider}:${request.inputMint}:${request.outputMint}:${request.amount}:${request.slippageBps}:include=${includeDexes}:exclude=${excludeDexes}${routeLimitsKey(request)}`;
+}
+
+// Empty without route limits, so keys of tapes recorded before they existed still match.
+export function routeLimitsKey(request: { onlyDirectRoutes?: boolean; maxAccounts?: number }) {
+  if (!request.onlyDirectRoutes && !request.maxAccounts) return '';
+  return `:direct=${request.onlyDirectRoutes ? 1 : 0}:maxAccounts=${request.maxAccounts ?? ''}`;
+}
+
+export function createQuoteTapeRecorder(
+  path: string,
+  options: { rotateMaxBytes?: number; rotateMaxFiles?: number } = {},
+): QuoteTapeRecorder {
+  const write = createJsonlLogger(path, options);
+  return async (entry) => {
+    const now = Date.now();
+    await write({ ts: new Date(now).toISOString(), tsMs: now, ...entry });
+  };
+}
+
+export class QuoteTape {
+  private readonly byKey = new Map<string, QuoteTapeEntry[]>();
+  private readonly served = new Set<QuoteTapeEntry>();
+  private readonly consumed = new Set<QuoteTapeEntry>();
+  private readonly maxAgeMs: number;
+  readonly startMs: number;
+  readonly endMs: number;
+  readonly size: number;
+
+  // `maxAgeMs` bounds how old a recorded response may be at lookup time (0 = unbounded).
+  constructor(entries: QuoteTapeEntry[], options: { maxAgeMs?: number } = {}) {
+    this.maxAgeMs = Math.max(0, Math.floor(options.maxAgeMs ?? 0));
+    const sorted = entries.slice().sort((a, b) => a.tsMs - b.tsMs);
+    for (const entry of sorted) {
+      const key = quoteTapeKey(entry.provider, entry.request);
+      const list = this.byKey.get(key);
+      if (list) list.push(entry);
+      else this.byKey.set(key, [entry]);
+    }
+    this.size = sorted.length;
+    this.startMs = sorted[0]?.tsMs ?? 0;
+    this.endMs = sorted[sorted.length - 1]?.tsMs ?? 0;
+  }
+
+  // Latest recorded response at or before `atMs`. Undefined when there is none (never looks ahead), when it is older
+  // than `maxAgeMs`, or when it already backed a fill.
+  lookup(provider: QuoteTapeProvider, request: QuoteTapeEntry['request'], atMs: number): unknown | undefined {
+    const list = this.byKey.get(quoteTapeKey(provider, request));
+    if (!list?.length) return undefined;
+
+    let lo = 0;
+    let hi = list.length - 1;
+    let found = -1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      if (list[mid]!.tsMs <= atMs) {
+        found = mid;
+        lo = mid + 1;
+      } else {
+        hi = mid - 1;
+      }
+    }
+    if (found < 0) return undefined;
+    const entry = list[found]!;
+    if (this.maxAgeMs > 0 && atMs - entry.tsMs > this.maxAgeMs) return undefined;
+    if (this.consumed.has(entry)) return undefined;
+    this.served.add(entry);
+    return entry.response;
+  }
+
+  // Replay calls `beginScan` before each scan and `consumeServed` after a fill, so a recorded quote backs one fill at
+  // most instead of refilling on every tick until a newer quote was recorded.
+  beginScan() {
+    this.served.clear();
+  }
+
+  consumeServed() {
+    for (const entry of this.served) this.consumed.add(entry);
+    this.served.clear();
+  }
+}
+
+async function readTapeFile(path: string) {
+  try {
+    return await readFile(path, 'utf8');
+  } catch (error) {
+    const code = error instanceof Error ? (error as NodeJS.ErrnoException).code : undefined;
+    if (code === 'ENOENT') return undefined;
+    throw error;
+  }
+}
+
+// Reads `path` plus the segments LOG_ROTATE_MAX_BYTES/FILES rotated out of it (`path.1`, `path.2`, ...).
+export async function loadQuoteTape(path: string, options: { maxAgeMs?: number } = {}): Promise<QuoteTape> {
+  const current = await readTapeFile(path);
+  if (current === undefined) throw new Error(`replay: quote tape ${path} not found`);
+  const segments = [current];
+  for (let i = 1; ; i++) {
+    const rotated = await readTapeFile(`${path}.${i}`);
+    if (rotated === undefined) break;
+    segments.push(rotated);
+  }
+
+  const entries: QuoteTapeEntry[] = [];
+  for (const line of segments.join('\n').split(/\r?\n/g)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+    try {
+      const parsed = JSON.parse(trimmed) as QuoteTapeEntry;
+      if (parsed?.provider !== 'jupiter' && parsed?.provider !== 'openocean') continue;
+      if (typeof parsed.tsMs !== 'number' || !parsed.request || parsed.response === undefined) continue;
+      entries.push(parsed);
+    } catch {
+      // ignore truncated/invalid lines (eg. process killed mid-write)
+    }
+  }
+  return new QuoteTape(entries, options);
+}
@@ -0,0 +1,309 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import { LockfileExecutionLease } from './executionLease.js';
+import type { GlobalRiskState } from './globalRisk.js';
+import { sleep } from './time.js';
+
+export type PersistedPairRiskState = {
+  hourTradesMs: number[];
+  dayKey: string;
+  dailyLossAAtomic: string;
+  // Only in files written before the schedule moved to its own entry; still honored on load.
+  cooldownUntilMs?: number;
+  nextScanAtMs?: number;
+};
+
+export type PersistedRiskState = Record<string, PersistedPairRiskState>;
+
+export type PersistedPairSchedule = { cooldownUntilMs?: number; nextScanAtMs?: number };
+
+export type PersistedSchedule = Record<string, PersistedPairSchedule>;
+
+// Everything one process persists, written in one go: the pair state of each wallet, plus the global limits state
+// and the pair schedule (cooldowns, next scan) stored once under the process' RISK_STATE_KEY.
+export type RiskStateSnapshot = {
+  wallets: Record<string, PersistedRiskState>;
+  key: string;
+  global: GlobalRiskState;
+  schedule: PersistedSchedule;
+};
+
+export type RiskStateStore = {
+  kind: 'json' | 'sqlite';
+  load(wallet: string): Promise<PersistedRiskState>;
+  loadGlobal(key: string): Promise<GlobalRiskState | undefined>;
+  loadSchedule(key: string): Promise<PersistedSchedule>;
+  saveAll(snapshot: RiskStateSnapshot): Promise<void>;
+};
+
+function sanitizePairState(value: unknown): PersistedPairRiskState | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  if (typeof v.dayKey !== 'string') return undefined;
+  if (typeof v.dailyLossAAtomic !== 'string' || !/^\d+$/.test(v.dailyLossAAtomic)) return undefined;
+  const hourTradesMs = Array.isArray(v.hourTradesMs)
+    ? v.hourTradesMs.filter((t): t is number => typeof t === 'number' && Number.isFinite(t))
+    : [];
+  return {
+    hourTradesMs,
+    dayKey: v.dayKey,
+    dailyLossAAtomic: v.dailyLossAAtomic,
+    cooldownUntilMs: typeof v.cooldownUntilMs === 'number' ? v.cooldownUntilMs : undefined,
+    nextScanAtMs: typeof v.nextScanAtMs === 'number' ? v.nextScanAtMs : undefined,
+  };
+}
+
+function sanitizeGlobalState(value: unknown): GlobalRiskState | undefined {
+  if (!value || typeof value !== 'object') return undefined;
+  const v = value as Record<string, unknown>;
+  if (typeof v.dayKey !== 'string') return undefined;
+  for (const key of ['dailyLossLamports', 'realizedPnlLamports', 'peakRealizedPnlLamports'] as const) {
+    if (typeof v[key] !== 'string' || !/^\-?\d+$/.test(v[key] as string)) return undefined;
+  }
+  return {
+    hourTradesMs: Array.isArray(v.hourTradesMs)
+      ? v.hourTradesMs.filter((t): t is number => typeof t === 'number' && Number.isFinite(t))
+      : [],
+    dayKey: v.dayKey,
+    dailyLossLamports: v.dailyLossLamports as string,
+    realizedPnlLamports: v.realizedPnlLamports as string,
+    peakRealizedPnlLamports: v.peakRealizedPnlLamports as string,
+  };
+}
+
+function sanitizeSchedule(value: unknown): PersistedSchedule {
+  const out: PersistedSchedule = {};
+  if (!value || typeof value !== 'object') return out;
+  for (const [pair, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!entry || typeof entry !== 'object') continue;
+    const v = entry as Record<string, unknown>;
+    out[pair] = {
+      cooldownUntilMs: typeof v.cooldownUntilMs === 'number' ? v.cooldownUntilMs : undefined,
+      nextScanAtMs: typeof v.nextScanAtMs === 'number' ? v.nextScanAtMs : undefined,
+    };
+  }
+  return out;
+}
+
+function sanitizePairs(value: unknown): PersistedRiskState {
+  const out: PersistedRiskState = {};
+  if (!value || typeof value !== 'object') return out;
+  for (const [pair, state] of Object.entries(value as Record<string, unknown>)) {
+    const parsed = sanitizePairState(state);
+    if (parsed) out[pair] = parsed;
+  }
+  return out;
+}
+
+type RiskStateDoc = { wallets: Record<string, unknown>; globals: Record<string, unknown>; schedules: Record<string, unknown> };
+
+const LOCK_TTL_MS = 10_000;
+const LOCK_WAIT_MS = 5_000;
+
+// Single JSON file shared by every wallet:
+// { wallets: { <pubkey>: { <pair>: state } }, globals: { <key>: state }, schedules: { <key>: { <pair>: schedule } } }.
+// Writes go through a temp file + rename so a crash never leaves a truncated file behind. Processes sharing the file
+// (one per wallet service) serialize their read-modify-write cycles with a lock file next to it.
+export class JsonFileRiskStateStore implements RiskStateStore {
+  readonly kind = 'json' as const;
+  private chain: Promise<void> = Promise.resolve();
+  private readonly fileLock: LockfileExecutionLease;
+
+  constructor(private readonly path: string) {
+    this.fileLock = new LockfileExecutionLease(dirname(path));
+  }
+
+  private async readAll(): Promise<RiskStateDoc> {
+    try {
+      const raw = await readFile(this.path, 'utf8');
+      const parsed = JSON.parse(raw) as any;
+      return {
+        wallets: parsed?.wallets && typeof parsed.wallets === 'object' ? parsed.wallets : {},
+        globals: parsed?.globals && typeof parsed.globals === 'object' ? parsed.globals : {},
+        schedules: parsed?.schedules && typeof parsed.schedules === 'object' ? parsed.schedules : {},
+      };
+    } catch (error) {
+      const code = error instanceof Error ? (error as any).code : undefined;
+      if (code === 'ENOENT') return { wallets: {}, globals: {}, schedules: {} };
+      throw error;
+    }
+  }
+
+  async load(wallet: string) {
+    const { wallets } = await this.readAll();
+    return sanitizePairs(wallets[wallet]);
+  }
+
+  async loadGlobal(key: string) {
+    const { globals } = await this.readAll();
+    return sanitizeGlobalState(globals[key]);
+  }
+
+  async loadSchedule(key: string) {
+    const { schedules } = await this.readAll();
+    return sanitizeSchedule(schedules[key]);
+  }
+
+  async saveAll(snapshot: RiskStateSnapshot) {
+    await this.update((doc) => {
+      for (const [wallet, pairs] of Object.entries(snapshot.wallets)) doc.wallets[wallet] = pairs;
+      doc.globals[snapshot.key] = snapshot.global;
+      doc.schedules[snapshot.key] = snapshot.schedule;
+    });
+  }
+
+  private async lock() {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    while (true) {
+      const acquired = await this.fileLock.tryAcquire(`risk-state:${this.path}`, LOCK_TTL_MS);
+      if (acquired.ok) return acquired.release;
+      if (Date.now() >= deadline) throw new Error(`risk state ${this.path} is locked by ${acquired.holder ?? 'another process'}`);
+      await sleep(25);
+    }
+  }
+
+  // Re-read so other wallets sharing the file are preserved. Only a missing file starts empty: one that no longer
+  // parses is moved aside (never overwritten) and this write fails, so the next one starts a fresh file.
+  private async readForUpdate(): Promise<RiskStateDoc> {
+    try {
+      return await this.readAll();
+    } catch (error) {
+      if (!(error instanceof SyntaxError)) throw error;
+      const backup = `${this.path}.corrupt-${Date.now()}`;
+      await rename(this.path, backup);
+      throw new Error(`risk state ${this.path} is not valid JSON (moved to ${backup}): ${error.message}`);
+    }
+  }
+
+  private async update(mutate: (doc: RiskStateDoc) => void) {
+    const run = async () => {
+      await mkdir(dirname(this.path), { recursive: true });
+      const release = await this.lock();
+      try {
+        const doc = await this.readForUpdate();
+        mutate(doc);
+        const tmp = `${this.path}.${process.pid}.tmp`;
+        await writeFile(tmp, JSON.stringify({ updatedAt: new Date().toISOString(), ...doc }, null, 2), 'utf8');
+        await rename(tmp, this.path);
+      } finally {
+        await release().catch(() => undefined);
+      }
+    };
+
+    const next = this.chain.then(run, run);
+    this.chain = next.then(
+      () => undefined,
+      () => undefined,
+    );
+    await next;
+  }
+}
+
+// Uses the built-in `node:sqlite` module (Node >= 22.5); no extra dependency.
+export class SqliteRiskStateStore implements RiskStateStore {
+  readonly kind = 'sqlite' as const;
+  private db: any;
+
+  constructor(private readonly path: string) {}
+
+  private async open() {
+    if (this.db) return this.db;
+    let sqlite: any;
+    try {
+      sqlite = await import('node:sqlite');
+    } catch (error) {
+      throw new Error(`RISK_STATE_STORE=sqlite requires Node >= 22.5 (node:sqlite): ${String(error)}`);
+    }
+    await mkdir(dirname(this.path), { recursive: true });
+    const db = new sqlite.DatabaseSync(this.path);
+    db.exec(
+      'CREATE TABLE IF NOT EXISTS pair_risk_state (wallet TEXT NOT NULL, pair TEXT NOT NULL, state TEXT NOT NULL, updated_at TEXT NOT NULL, PRIMARY KEY (wallet, pair))',
+    );
+    // `wallet` holds the RISK_STATE_KEY (the column name predates it).
+    db.exec(
+      'CREATE TABLE IF NOT EXISTS global_risk_state (wallet TEXT NOT NULL PRIMARY KEY, state TEXT NOT NULL, updated_at TEXT NOT NULL)',
+    );
+    db.exec(
+      'CREATE TABLE IF NOT EXISTS pair_schedule (scope TEXT NOT NULL, pair TEXT NOT NULL, state TEXT NOT NULL, updated_at TEXT NOT NULL, PRIMARY KEY (scope, pair))',
+    );
+    this.db = db;
+    return db;
+  }
+
+  async load(wallet: string) {
+    const db = await this.open();
+    const rows = db.prepare('SELECT pair, state FROM pair_risk_state WHERE wallet = ?').all(wallet) as Array<{
+      pair: string;
+      state: string;
+    }>;
+    const out: PersistedRiskState = {};
+    for (const row of rows) {
+      try {
+        const parsed = sanitizePairState(JSON.parse(row.state));
+        if (parsed) out[row.pair] = parsed;
+      } catch {
+        // ignore corrupted rows
+      }
+    }
+    return out;
+  }
+
+  async loadGlobal(key: string) {
+    const db = await this.open();
+    const row = db.prepare('SELECT state FROM global_risk_state WHERE wallet = ?').get(key) as { state: string } | undefined;
+    if (!row) return undefined;
+    try {
+      return sanitizeGlobalState(JSON.parse(row.state));
+    } catch {
+      return undefined;
+    }
+  }
+
+  async loadSchedule(key: string) {
+    const db = await this.open();
+    const rows = db.prepare('SELECT pair, state FROM pair_schedule WHERE scope = ?').all(key) as Array<{ pair: string; state: string }>;
+    const raw: Record<string, unknown> = {};
+    for (const row of rows) {
+      try {
+        raw[row.pair] = JSON.parse(row.state);
+      } catch {
+        // ignore corrupted rows
+      }
+    }
+    return sanitizeSchedule(raw);
+  }
+
+  async saveAll(snapshot: RiskStateSnapshot) {
+    const db = await this.open();
+    const updatedAt = new Date().toISOString();
+    const upsertPair = db.prepare(
+      'INSERT INTO pair_risk_state (wallet, pair, state, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(wallet, pair) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at',
+    );
+    const upsertSchedule = db.prepare(
+      'INSERT INTO pair_schedule (scope, pair, state, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(scope, pair) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at',
+    );
+    db.exec('BEGIN');
+    try {
+      for (const [wallet, pairs] of Object.entries(snapshot.wallets)) {
+        for (const [pair, state] of Object.entries(pairs)) upsertPair.run(wallet, pair, JSON.stringify(state), updatedAt);
+      }
+      db.prepare(
+        'INSERT INTO global_risk_state (wallet, state, updated_at) VALUES (?, ?, ?) ON CONFLICT(wallet) DO UPDATE SET state = excluded.state, updated_at = excluded.updated_at',
+      ).run(snapshot.key, JSON.stringify(snapshot.global), updatedAt);
+      for (const [pair, schedule] of Object.entries(snapshot.schedule)) {
+        upsertSchedule.run(snapshot.key, pair, JSON.stringify(schedule), updatedAt);
+      }
+      db.exec('COMMIT');
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+export function createRiskStateStore(params: { kind: 'off' | 'json' | 'sqlite'; path: string }): RiskStateStore | undefined {
+  if (params.kind === 'off') return undefined;
+  if (params.kind === 'sqlite') return new SqliteRiskStateStore(params.path);
+  return new JsonFileRiskStateStore(params.path);
+}
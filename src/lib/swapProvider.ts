@@ -0,0 +1,159 @@
+import type { VersionedTransaction } from '@solana/web3.js';
+
+import type { SwapInstructionsResponse } from '../jupiter/types.js';
+
+// Common surface for quote/swap sources. The scanner and executor only talk to providers through this type, so a new
+// aggregator (or a direct AMM router) is added by writing an adapter and registering it in SwapProviderRegistry.
+
+export type ProviderQuote = {
+  // Id of the provider that produced the quote; builds are dispatched back to it.
+  provider: string;
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  otherAmountThreshold: string;
+  slippageBps: number;
+  // Only set when the provider reports them (see capabilities).
+  priceImpactBps?: number;
+  routeHops?: number;
+  // Venue chosen by the aggregator, when it reports one (OpenOcean dex index).
+  dexId?: number;
+  // Pool/market accounts the route touches, when the provider reports them (ACCOUNT_SCAN_ENABLED watches them).
+  routeAccounts?: string[];
+  // Provider-native quote, only read back by the adapter that created it.
+  raw: unknown;
+};
+
+export type SwapProviderCapabilities = {
+  // Can return swap instructions that compose with other legs in one transaction (EXECUTION_STRATEGY=atomic).
+  atomicComposable: boolean;
+  // Quotes carry priceImpactBps / routeHops (maxPriceImpactBps / maxRouteHops filters).
+  priceImpact: boolean;
+  routeHops: boolean;
+  // Honors includeDexes/excludeDexes.
+  dexFilters: boolean;
+  // Honors onlyDirectRoutes/maxAccounts (used to shrink routes that do not fit one atomic transaction).
+  routeLimits: boolean;
+  // Signatures on each built transaction, for fee estimates.
+  signaturesPerTx: number;
+  // Quotes are computed in-process (no HTTP); such a provider replaces the primary for the paths it supports.
+  localQuotes: boolean;
+};
+
+export type QuoteExactInParams = {
+  inputMint: string;
+  outputMint: string;
+  amount: string;
+  slippageBps: number;
+  includeDexes?: string[];
+  excludeDexes?: string[];
+  // Route limits; only providers with capabilities.routeLimits apply them.
+  onlyDirectRoutes?: boolean;
+  maxAccounts?: number;
+};
+
+export type BuildSwapParams = {
+  quote: ProviderQuote;
+  userPublicKey: string;
+  computeUnitPriceMicroLamports?: number;
+  // The pair's dex filters, for providers that quote again before building (local-quote providers).
+  includeDexes?: string[];
+  excludeDexes?: string[];
+};
+
+export type SwapProvider = {
+  id: string;
+  capabilities: SwapProviderCapabilities;
+  // Per-pair circuit breaker cooldown after an HTTP 429.
+  rateLimitCooldownMs: number;
+  quoteExactIn(params: QuoteExactInParams): Promise<ProviderQuote>;
+  // Whether the provider can quote this swap; providers without it quote any pair.
+  supports?(inputMint: string, outputMint: string): boolean;
+  // Unsigned transaction that swaps quote.inAmount.
+  buildSwapTransaction(params: BuildSwapParams): Promise<{ tx: VersionedTransaction; lastValidBlockHeight?: number }>;
+  // Required when capabilities.atomicComposable is set.
+  buildSwapInstructions?(params: BuildSwapParams): Promise<SwapInstructionsResponse>;
+  // Local-quote providers: the executing provider's quote for the leg of `quote` at `amount`; throws when it pays too
+  // far below the local quote for the same input. The executor re-quotes whole chains through it before building.
+  executionQuote?(params: {
+    quote: ProviderQuote;
+    amount: string;
+    includeDexes?: string[];
+    excludeDexes?: string[];
+  }): Promise<ProviderQuote>;
+};
+
+export function parsePriceImpactBps(raw: unknown): number | undefined {
+  if (typeof raw !== 'string') return undefined;
+  const normalized = raw.trim().replace('%', '');
+  if (!normalized) return undefined;
+  const n = Number.parseFloat(normalized);
+  if (!Number.isFinite(n) || n < 0) return undefined;
+
+  // Jupiter/OpenOcean may return either:
+  // - fraction in [0..1] where 1 === 100%
+  // - percentage in [0..100]
+  if (n <= 1) return Math.round(n * 10_000);
+  if (n <= 100) return Math.round(n * 100);
+  return undefined;
+}
+
+// The first provider is the primary one: it quotes every configured path (including 3+ legs) and its best candidate
+// gates the others, which are only consulted for 2-leg loops. Local-quote providers take the primary's place on the
+// paths they fully support and are never consulted as secondaries.
+export class SwapProviderRegistry {
+  private readonly providers = new Map<string, SwapProvider>();
+
+  constructor(readonly primary: SwapProvider) {
+    this.register(primary);
+  }
+
+  register(provider: SwapProvider) {
+    if (this.providers.has(provider.id)) throw new Error(`Swap provider already registered: ${provider.id}`);
+    if (provider.capabilities.atomicComposable && !provider.buildSwapInstructions) {
+      throw new Error(`Swap provider ${provider.id} is atomic-composable but cannot build swap instructions`);
+    }
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  has(id: string) {
+    return this.providers.has(id);
+  }
+
+  get(id: string): SwapProvider {
+    const provider = this.providers.get(id);
+    if (!provider) throw new Error(`Unknown swap provider: ${id}`);
+    return provider;
+  }
+
+  list(): SwapProvider[] {
+    return Array.from(this.providers.values());
+  }
+
+  secondaries(): SwapProvider[] {
+    return this.list().filter((p) => p !== this.primary && !p.capabilities.localQuotes);
+  }
+
+  // Provider that quotes every leg of a cycle (path starts at A; the last leg swaps back into it).
+  quoteSourceFor(path: string[]): SwapProvider {
+    const local = this.list().find(
+      (p) =>
+        p.capabilities.localQuotes &&
+        path.every((mint, i) => p.supports?.(mint, path[(i + 1) % path.length]!) ?? true),
+    );
+    return local ?? this.primary;
+  }
+
+  // Builds dispatch on quote.provider, so a candidate's legs can be handed over as they are.
+  async buildSwapTransaction(params: BuildSwapParams) {
+    return await this.get(params.quote.provider).buildSwapTransaction(params);
+  }
+
+  async buildSwapInstructions(params: BuildSwapParams): Promise<SwapInstructionsResponse> {
+    const provider = this.get(params.quote.provider);
+    if (!provider.buildSwapInstructions) throw new Error(`Swap provider ${provider.id} cannot build swap instructions`);
+    return await provider.buildSwapInstructions(params);
+  }
+}
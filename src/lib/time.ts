@@ -2,3 +2,56 @@ export async function sleep(ms: number) {
   await new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// A sleep that `wake()` cuts short, for loops that also react to events.
+export class Wakeup {
+  private pending?: () => void;
+
+  async sleep(ms: number) {
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pending = undefined;
+        resolve();
+      }, ms);
+      this.pending = () => {
+        clearTimeout(timer);
+        this.pending = undefined;
+        resolve();
+      };
+    });
+  }
+
+  wake() {
+    this.pending?.();
+  }
+}
+
+export type Clock = {
+  now(): number;
+  sleep(ms: number): Promise<void>;
+};
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  sleep,
+};
+
+// Deterministic clock for offline replay: `sleep` advances time instantly instead of waiting.
+export class FakeClock implements Clock {
+  private currentMs: number;
+
+  constructor(startMs: number) {
+    this.currentMs = Math.floor(startMs);
+  }
+
+  now() {
+    return this.currentMs;
+  }
+
+  advance(ms: number) {
+    this.currentMs += Math.max(0, Math.floor(ms));
+  }
+
+  async sleep(ms: number) {
+    this.advance(ms);
+  }
+}
@@ -0,0 +1,147 @@
+// Directed token graph for cycle discovery. Each edge is one observed swap (a quote sample or a cached market):
+// `outAmount / inAmount` in atomic units is its rate, so the log-rates of a cycle sum to log(finalA / startA)
+// regardless of decimals.
+
+export type GraphEdge = {
+  inputMint: string;
+  outputMint: string;
+  inAmount: string;
+  outAmount: string;
+  priceImpactBps?: number;
+  routeHops?: number;
+  // Only present for cached markets that report it.
+  liquidityUsd?: number;
+  sampledAt?: string;
+};
+
+export type RankedCycle = {
+  // Starts at the anchor mint; the last leg swaps back into it.
+  path: string[];
+  logRateSum: number;
+  // (exp(logRateSum) - 1) in bps: gross edge before fees/slippage.
+  edgeBps: number;
+  maxPriceImpactBps: number;
+  maxRouteHops: number;
+  legs: GraphEdge[];
+};
+
+export type CycleFilters = {
+  anchor: string;
+  minLegs?: number;
+  maxLegs?: number;
+  maxPriceImpactBps?: number;
+  maxRouteHops?: number;
+  minLiquidityUsd?: number;
+  limit?: number;
+};
+
+export function edgeLogRate(edge: GraphEdge) {
+  const inAmount = Number(edge.inAmount);
+  const outAmount = Number(edge.outAmount);
+  if (!(inAmount > 0) || !(outAmount > 0)) return undefined;
+  return Math.log(outAmount) - Math.log(inAmount);
+}
+
+export class TokenGraph {
+  private readonly adjacency = new Map<string, Map<string, GraphEdge>>();
+
+  // Keeps the latest sample per direction.
+  addEdge(edge: GraphEdge) {
+    if (edge.inputMint === edge.outputMint || edgeLogRate(edge) === undefined) return;
+    const out = this.adjacency.get(edge.inputMint) ?? new Map<string, GraphEdge>();
+    out.set(edge.outputMint, edge);
+    this.adjacency.set(edge.inputMint, out);
+  }
+
+  get size() {
+    let n = 0;
+    for (const out of this.adjacency.values()) n += out.size;
+    return n;
+  }
+
+  edges(): GraphEdge[] {
+    return Array.from(this.adjacency.values()).flatMap((out) => Array.from(out.values()));
+  }
+
+  private usable(edge: GraphEdge, filters: CycleFilters) {
+    if (filters.maxPriceImpactBps !== undefined && (edge.priceImpactBps ?? 0) > filters.maxPriceImpactBps) return false;
+    if (filters.maxRouteHops !== undefined && (edge.routeHops ?? 0) > filters.maxRouteHops) return false;
+    if (filters.minLiquidityUsd !== undefined && edge.liquidityUsd !== undefined && edge.liquidityUsd < filters.minLiquidityUsd) {
+      return false;
+    }
+    return true;
+  }
+
+  // Simple cycles through the anchor with minLegs..maxLegs legs, best implied edge first.
+  findCycles(filters: CycleFilters): RankedCycle[] {
+    const minLegs = Math.max(2, Math.floor(filters.minLegs ?? 2));
+    const maxLegs = Math.max(minLegs, Math.floor(filters.maxLegs ?? 4));
+    const cycles: RankedCycle[] = [];
+
+    const walk = (path: string[], legs: GraphEdge[], logRateSum: number) => {
+      const from = path[path.length - 1]!;
+      for (const [to, edge] of this.adjacency.get(from) ?? []) {
+        if (!this.usable(edge, filters)) continue;
+        const sum = logRateSum + edgeLogRate(edge)!;
+        if (to === filters.anchor) {
+          if (legs.length + 1 < minLegs) continue;
+          const all = [...legs, edge];
+          cycles.push({
+            path: [...path],
+            logRateSum: sum,
+            edgeBps: Math.round((Math.exp(sum) - 1) * 10_000),
+            maxPriceImpactBps: Math.max(...all.map((e) => e.priceImpactBps ?? 0)),
+            maxRouteHops: Math.max(...all.map((e) => e.routeHops ?? 0)),
+            legs: all,
+          });
+          continue;
+        }
+        if (path.includes(to) || legs.length + 1 >= maxLegs) continue;
+        walk([...path, to], [...legs, edge], sum);
+      }
+    };
+    walk([filters.anchor], [], 0);
+
+    cycles.sort((a, b) => b.logRateSum - a.logRateSum);
+    return filters.limit !== undefined ? cycles.slice(0, Math.max(0, filters.limit)) : cycles;
+  }
+}
+
+function asNumberOrUndefined(value: unknown) {
+  const n = typeof value === 'string' ? Number(value) : typeof value === 'number' ? value : NaN;
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function asAtomic(value: unknown) {
+  if (typeof value === 'number' && Number.isFinite(value) && value >= 0) return BigInt(Math.floor(value)).toString();
+  return typeof value === 'string' && /^\d+$/.test(value) ? value : undefined;
+}
+
+// Cached market list: an array (or `{ markets: [...] }`) of `{ inputMint, outputMint, inAmount, outAmount }` plus
+// optional `priceImpactBps`, `routeHops`, `liquidityUsd`, `sampledAt`. Entries that do not parse are dropped.
+export function parseMarketCache(json: unknown): GraphEdge[] {
+  const list = Array.isArray(json)
+    ? json
+    : json && typeof json === 'object' && Array.isArray((json as { markets?: unknown }).markets)
+      ? ((json as { markets: unknown[] }).markets as unknown[])
+      : [];
+  const out: GraphEdge[] = [];
+  for (const raw of list) {
+    if (!raw || typeof raw !== 'object') continue;
+    const m = raw as Record<string, unknown>;
+    const inAmount = asAtomic(m['inAmount']);
+    const outAmount = asAtomic(m['outAmount']);
+    if (typeof m['inputMint'] !== 'string' || typeof m['outputMint'] !== 'string' || !inAmount || !outAmount) continue;
+    out.push({
+      inputMint: m['inputMint'],
+      outputMint: m['outputMint'],
+      inAmount,
+      outAmount,
+      priceImpactBps: asNumberOrUndefined(m['priceImpactBps']),
+      routeHops: asNumberOrUndefined(m['routeHops']),
+      liquidityUsd: asNumberOrUndefined(m['liquidityUsd']),
+      sampledAt: typeof m['sampledAt'] === 'string' ? m['sampledAt'] : undefined,
+    });
+  }
+  return out;
+}
@@ -0,0 +1,65 @@
+import { randomBytes } from 'node:crypto';
+
+// Stages in the order they normally happen; sequential paths repeat build/send stages for leg 2 (`send#2`, ...).
+export type TraceStage =
+  | 'quote'
+  | 'fee_conversion'
+  | 'decision'
+  | 'swap_instructions'
+  | 'lut_load'
+  | 'blockhash'
+  | 'sign'
+  | 'preflight'
+  | 'send'
+  | 'jito_accept'
+  | 'jito_result'
+  | 'confirm';
+
+export type TraceSummary = {
+  traceId: string;
+  startedAt: string;
+  totalMs: number;
+  // Offset of each stage from the trace start.
+  stages: Record<string, number>;
+  // Time spent in each stage (since the previous mark).
+  stageMs: Record<string, number>;
+};
+
+export function newTraceId() {
+  return randomBytes(8).toString('hex');
+}
+
+// Per-opportunity timeline: created when the first quote is requested, marked at each stage until execution ends.
+export class OpportunityTrace {
+  private readonly marks: Array<{ stage: string; atMs: number }> = [];
+  // Set once the `trace` event went out, so an opportunity is never reported twice.
+  reported = false;
+
+  constructor(
+    readonly id: string = newTraceId(),
+    readonly startedAtMs: number = Date.now(),
+  ) {}
+
+  mark(stage: TraceStage, atMs = Date.now()) {
+    const seen = this.marks.filter((m) => m.stage === stage || m.stage.startsWith(`${stage}#`)).length;
+    this.marks.push({ stage: seen ? `${stage}#${seen + 1}` : stage, atMs });
+  }
+
+  summary(nowMs = Date.now()): TraceSummary {
+    const stages: Record<string, number> = {};
+    const stageMs: Record<string, number> = {};
+    let prev = this.startedAtMs;
+    for (const m of this.marks) {
+      stages[m.stage] = m.atMs - this.startedAtMs;
+      stageMs[m.stage] = m.atMs - prev;
+      prev = m.atMs;
+    }
+    return {
+      traceId: this.id,
+      startedAt: new Date(this.startedAtMs).toISOString(),
+      totalMs: nowMs - this.startedAtMs,
+      stages,
+      stageMs,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 import { fetchJson, withQuery } from '../lib/http.js';
 import { AdaptiveTokenBucketRateLimiter, MinIntervalRateLimiter } from '../lib/rateLimiter.js';
+import type { QuoteTapeRecorder } from '../lib/quoteTape.js';
 import type { OpenOceanApiResponse, OpenOceanQuote, OpenOceanQuoteData, OpenOceanSwapData } from './types.js';
 
 function extractHttpStatus(error: unknown): number | undefined {
@@ -63,6 +64,7 @@ export class OpenOceanClient {
       disabledDexIds?: string;
       referrer?: string;
       referrerFee?: string;
+      recordQuote?: QuoteTapeRecorder;
     } = {},
   ) {
     this.baseUrlValue = (() => {
@@ -147,7 +149,7 @@ export class OpenOceanClient {
       throw new Error(`OpenOcean quote failed: ${res.error ?? res.message ?? `code=${res.code}`}`);
     }
 
-    return {
+    const quote: OpenOceanQuote = {
       provider: 'openocean',
       inputMint: res.data.inToken.address,
       outputMint: res.data.outToken.address,
@@ -158,6 +160,25 @@ export class OpenOceanClient {
       dexId: res.data.dexId,
       raw: res.data,
     };
+
+    if (this.config.recordQuote) {
+      try {
+        await this.config.recordQuote({
+          provider: 'openocean',
+          request: {
+            inputMint: params.inputMint,
+            outputMint: params.outputMint,
+            amount: params.amountAtomic,
+            slippageBps: params.slippageBps,
+          },
+          response: quote,
+        });
+      } catch {
+        // recording must never break scanning
+      }
+    }
+
+    return quote;
   }
 
   async swap(params: {
@@ -0,0 +1,72 @@
+import { VersionedTransaction } from '@solana/web3.js';
+
+import { parsePriceImpactBps, type ProviderQuote, type SwapProvider } from '../lib/swapProvider.js';
+import type { OpenOceanClient } from './client.js';
+import type { OpenOceanQuote } from './types.js';
+
+function decodeOpenOceanTxBytes(data: string) {
+  const trimmed = data.trim();
+  const maybeHex = trimmed.startsWith('0x') ? trimmed.slice(2) : trimmed;
+  const isHex = maybeHex.length % 2 === 0 && /^[0-9a-fA-F]+$/.test(maybeHex);
+  return Buffer.from(isHex ? maybeHex : trimmed, isHex ? 'hex' : 'base64');
+}
+
+export function fromOpenOceanQuote(quote: OpenOceanQuote): ProviderQuote {
+  return {
+    provider: 'openocean',
+    inputMint: quote.inputMint,
+    outputMint: quote.outputMint,
+    inAmount: quote.inAmount,
+    outAmount: quote.outAmount,
+    otherAmountThreshold: quote.otherAmountThreshold,
+    slippageBps: quote.slippageBps,
+    priceImpactBps: parsePriceImpactBps(quote.raw.price_impact),
+    dexId: quote.dexId,
+    raw: quote,
+  };
+}
+
+// OpenOcean only returns whole (multi-signature) transactions, so its legs always run as separate sequential
+// transactions. The swap is re-requested for the quoted input; OpenOcean re-routes it at build time.
+export function openOceanSwapProvider(params: {
+  client: OpenOceanClient;
+  signaturesPerTx: number;
+  rateLimitCooldownMs: number;
+}): SwapProvider {
+  return {
+    id: 'openocean',
+    capabilities: {
+      atomicComposable: false,
+      priceImpact: true,
+      routeHops: false,
+      dexFilters: false,
+      routeLimits: false,
+      signaturesPerTx: Math.max(1, Math.floor(params.signaturesPerTx)),
+      localQuotes: false,
+    },
+    rateLimitCooldownMs: params.rateLimitCooldownMs,
+    async quoteExactIn(p) {
+      return fromOpenOceanQuote(
+        await params.client.quoteExactIn({
+          inputMint: p.inputMint,
+          outputMint: p.outputMint,
+          amountAtomic: p.amount,
+          slippageBps: p.slippageBps,
+        }),
+      );
+    },
+    async buildSwapTransaction(p) {
+      const swap = await params.client.swap({
+        inputMint: p.quote.inputMint,
+        outputMint: p.quote.outputMint,
+        amountAtomic: p.quote.inAmount,
+        slippageBps: p.quote.slippageBps,
+        account: p.userPublicKey,
+      });
+      return {
+        tx: VersionedTransaction.deserialize(decodeOpenOceanTxBytes(swap.data)),
+        lastValidBlockHeight: swap.lastValidBlockHeight,
+      };
+    },
+  };
+}
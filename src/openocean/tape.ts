@@ -0,0 +1,42 @@
+import type { Clock } from '../lib/time.js';
+import type { QuoteTape } from '../lib/quoteTape.js';
+import { OpenOceanClient } from './client.js';
+import type { OpenOceanQuote, OpenOceanSwapData } from './types.js';
+
+// Serves recorded OpenOcean quotes; never performs HTTP calls.
+export class ReplayOpenOceanClient extends OpenOceanClient {
+  constructor(
+    private readonly tape: QuoteTape,
+    private readonly clock: Clock,
+  ) {
+    super();
+  }
+
+  override async quoteExactIn(params: {
+    inputMint: string;
+    outputMint: string;
+    amountAtomic: string;
+    slippageBps: number;
+  }): Promise<OpenOceanQuote> {
+    const hit = this.tape.lookup(
+      'openocean',
+      {
+        inputMint: params.inputMint,
+        outputMint: params.outputMint,
+        amount: params.amountAtomic,
+        slippageBps: params.slippageBps,
+      },
+      this.clock.now(),
+    );
+    if (!hit) {
+      throw new Error(
+        `replay: no recorded OpenOcean quote for ${params.inputMint}->${params.outputMint} amount=${params.amountAtomic} slippageBps=${params.slippageBps}`,
+      );
+    }
+    return hit as OpenOceanQuote;
+  }
+
+  override async swap(): Promise<OpenOceanSwapData> {
+    throw new Error('OpenOcean swap is not available in replay mode');
+  }
+}
@@ -1,17 +1,29 @@
 import type { Connection, PublicKey } from '@solana/web3.js';
 
+// SOL balance per wallet (keyed by pubkey), refreshed at most once per `ttlMs`.
 export class BalanceCache {
-  private lastFetchedAtMs = 0;
-  private lastBalanceLamports = 0;
+  private readonly byWallet = new Map<string, { fetchedAtMs: number; lamports: number }>();
 
   async getLamports(params: { connection: Connection; pubkey: PublicKey; ttlMs: number }) {
     const ttlMs = Math.max(0, Math.floor(params.ttlMs));
+    const key = params.pubkey.toBase58();
     const now = Date.now();
-    if (ttlMs > 0 && now - this.lastFetchedAtMs < ttlMs) return this.lastBalanceLamports;
+    const hit = this.byWallet.get(key);
+    if (hit && ttlMs > 0 && now - hit.fetchedAtMs < ttlMs) return hit.lamports;
     const balance = await params.connection.getBalance(params.pubkey, 'confirmed');
-    this.lastFetchedAtMs = now;
-    this.lastBalanceLamports = balance;
+    this.byWallet.set(key, { fetchedAtMs: now, lamports: balance });
     return balance;
   }
-}
 
+  lamportsByWallet(): Record<string, number> {
+    const out: Record<string, number> = {};
+    for (const [pubkey, v] of this.byWallet) out[pubkey] = v.lamports;
+    return out;
+  }
+
+  snapshot(): Record<string, { lamports: number; fetchedAt: string }> {
+    const out: Record<string, { lamports: number; fetchedAt: string }> = {};
+    for (const [pubkey, v] of this.byWallet) out[pubkey] = { lamports: v.lamports, fetchedAt: new Date(v.fetchedAtMs).toISOString() };
+    return out;
+  }
+}
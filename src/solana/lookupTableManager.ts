@@ -0,0 +1,212 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+
+import {
+  AddressLookupTableProgram,
+  PublicKey,
+  TransactionMessage,
+  VersionedTransaction,
+  type AddressLookupTableAccount,
+  type Connection,
+  type Keypair,
+  type TransactionInstruction,
+} from '@solana/web3.js';
+
+import type { Logger } from '../lib/logger.js';
+
+// On-chain limit per lookup table.
+const MAX_TABLE_ADDRESSES = 256;
+// Addresses per extend instruction; keeps the admin transaction well under the packet size.
+const EXTEND_CHUNK = 20;
+// Key counters are pruned past this many distinct keys (single sightings first).
+const MAX_TRACKED_KEYS = 4096;
+
+type PersistedTables = { authority: string; tables: string[] };
+
+// Wallet-owned address lookup tables for the accounts our atomic transactions keep touching (ALT_MANAGER_ENABLED).
+// Builds report their account keys; every ALT_MAINTAIN_INTERVAL_MS the keys seen at least `minOccurrences` times
+// that no table holds yet are appended to our tables (creating new ones up to `maxTables`). Admin transactions are only
+// sent in MODE=live; table addresses persist in `statePath` so restarts keep extending the same tables.
+export class LookupTableManager {
+  private readonly counts = new Map<string, number>();
+  private tables: AddressLookupTableAccount[] = [];
+  private lastMaintainAtMs = 0;
+  private maintaining = false;
+
+  constructor(
+    private readonly params: {
+      connection: Connection;
+      authority: Keypair;
+      mode: 'dry-run' | 'live';
+      minOccurrences: number;
+      maxTables: number;
+      maintainIntervalMs: number;
+      statePath: string;
+      logEvent: Logger;
+    },
+  ) {}
+
+  // Reloads the tables recorded in statePath that still belong to the authority.
+  async load() {
+    let persisted: PersistedTables | undefined;
+    try {
+      persisted = JSON.parse(await readFile(this.params.statePath, 'utf8')) as PersistedTables;
+    } catch {
+      return;
+    }
+    if (persisted?.authority !== this.params.authority.publicKey.toBase58() || !Array.isArray(persisted.tables)) return;
+    for (const address of persisted.tables) {
+      const table = await this.fetch(address).catch(() => undefined);
+      if (table && table.isActive() && table.state.authority?.equals(this.params.authority.publicKey)) this.tables.push(table);
+    }
+    await this.params.logEvent({
+      ts: new Date().toISOString(),
+      type: 'alt_loaded',
+      tables: this.tables.map((t) => ({ address: t.key.toBase58(), addresses: t.state.addresses.length })),
+    });
+  }
+
+  // Our tables, to be placed ahead of the aggregator's when compiling a transaction.
+  lookupTables(): AddressLookupTableAccount[] {
+    return this.tables.slice();
+  }
+
+  // Account keys of a built transaction (signers and invoked programs excluded; they cannot be looked up).
+  observe(keys: string[]) {
+    for (const key of new Set(keys)) this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+    if (this.counts.size <= MAX_TRACKED_KEYS) return;
+    for (const [key, count] of this.counts) if (count <= 1) this.counts.delete(key);
+  }
+
+  private covered() {
+    const out = new Set<string>();
+    for (const table of this.tables) for (const address of table.state.addresses) out.add(address.toBase58());
+    return out;
+  }
+
+  // Hot keys no table holds yet, most frequent first.
+  pendingKeys(): string[] {
+    const covered = this.covered();
+    const min = Math.max(1, Math.floor(this.params.minOccurrences));
+    return Array.from(this.counts.entries())
+      .filter(([key, count]) => count >= min && !covered.has(key))
+      .sort((a, b) => b[1] - a[1])
+      .map(([key]) => key);
+  }
+
+  async tick(nowMs = Date.now()) {
+    if (this.maintaining || nowMs - this.lastMaintainAtMs < Math.max(1_000, this.params.maintainIntervalMs)) return;
+    this.lastMaintainAtMs = nowMs;
+    this.maintaining = true;
+    try {
+      await this.maintain();
+    } catch (error) {
+      await this.params.logEvent({ ts: new Date().toISOString(), type: 'alt_error', error: String(error) });
+    } finally {
+      this.maintaining = false;
+    }
+  }
+
+  private async maintain() {
+    let pending = this.pendingKeys();
+    if (!pending.length) return;
+
+    if (this.params.mode !== 'live') {
+      await this.params.logEvent({ ts: new Date().toISOString(), type: 'alt_plan', pendingKeys: pending.length, tables: this.tables.length });
+      return;
+    }
+
+    while (pending.length) {
+      let table = this.tables.find((t) => t.state.addresses.length < MAX_TABLE_ADDRESSES);
+      if (!table) {
+        if (this.tables.length >= Math.max(0, Math.floor(this.params.maxTables))) {
+          await this.params.logEvent({ ts: new Date().toISOString(), type: 'alt_full', pendingKeys: pending.length, tables: this.tables.length });
+          return;
+        }
+        table = await this.create();
+      }
+
+      const room = MAX_TABLE_ADDRESSES - table.state.addresses.length;
+      const batch = pending.slice(0, Math.min(room, EXTEND_CHUNK));
+      pending = pending.slice(batch.length);
+      const signature = await this.send([
+        AddressLookupTableProgram.extendLookupTable({
+          lookupTable: table.key,
+          authority: this.params.authority.publicKey,
+          payer: this.params.authority.publicKey,
+          addresses: batch.map((k) => new PublicKey(k)),
+        }),
+      ]);
+      await this.refresh(table.key);
+      await this.params.logEvent({
+        ts: new Date().toISOString(),
+        type: 'alt_extended',
+        table: table.key.toBase58(),
+        added: batch.length,
+        signature,
+      });
+    }
+  }
+
+  private async create(): Promise<AddressLookupTableAccount> {
+    const recentSlot = await this.params.connection.getSlot('finalized');
+    const [ix, address] = AddressLookupTableProgram.createLookupTable({
+      authority: this.params.authority.publicKey,
+      payer: this.params.authority.publicKey,
+      recentSlot,
+    });
+    const signature = await this.send([ix]);
+    const table = await this.fetch(address.toBase58());
+    if (!table) throw new Error(`lookup table ${address.toBase58()} not found after creation`);
+    this.tables.push(table);
+    await this.persist();
+    await this.params.logEvent({ ts: new Date().toISOString(), type: 'alt_created', table: address.toBase58(), signature });
+    return table;
+  }
+
+  private async refresh(address: PublicKey) {
+    const table = await this.fetch(address.toBase58());
+    if (!table) return;
+    this.tables = this.tables.map((t) => (t.key.equals(address) ? table : t));
+  }
+
+  private async fetch(address: string) {
+    const res = await this.params.connection.getAddressLookupTable(new PublicKey(address), { commitment: 'confirmed' });
+    return res.value ?? undefined;
+  }
+
+  private async send(instructions: TransactionInstruction[]) {
+    const { blockhash, lastValidBlockHeight } = await this.params.connection.getLatestBlockhash('confirmed');
+    const message = new TransactionMessage({
+      payerKey: this.params.authority.publicKey,
+      recentBlockhash: blockhash,
+      instructions,
+    }).compileToV0Message();
+    const tx = new VersionedTransaction(message);
+    tx.sign([this.params.authority]);
+    const signature = await this.params.connection.sendRawTransaction(tx.serialize(), { maxRetries: 3 });
+    const confirmation = await this.params.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    if (confirmation.value.err) throw new Error(`lookup table transaction ${signature} failed: ${JSON.stringify(confirmation.value.err)}`);
+    return signature;
+  }
+
+  // Temp file + rename, like the risk state store.
+  private async persist() {
+    const data: PersistedTables = {
+      authority: this.params.authority.publicKey.toBase58(),
+      tables: this.tables.map((t) => t.key.toBase58()),
+    };
+    await mkdir(dirname(this.params.statePath), { recursive: true });
+    const tmp = `${this.params.statePath}.tmp`;
+    await writeFile(tmp, JSON.stringify(data, null, 2), 'utf8');
+    await rename(tmp, this.params.statePath);
+  }
+
+  snapshot() {
+    return {
+      tables: this.tables.map((t) => ({ address: t.key.toBase58(), addresses: t.state.addresses.length })),
+      trackedKeys: this.counts.size,
+      pendingKeys: this.pendingKeys().length,
+    };
+  }
+}
@@ -1,8 +1,19 @@
 import { Connection, PublicKey } from '@solana/web3.js';
 
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from './tokenUtils.js';
+
 const SPL_MINT_DECIMALS_OFFSET = 44;
 const SPL_MINT_MIN_SIZE = 45;
 
+// Token-2022 mints are padded to the token-account size (165) before the AccountType byte, then TLV extensions.
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_ACCOUNT_TYPE_MINT = 1;
+const TOKEN_2022_TLV_OFFSET = 166;
+const EXTENSION_TRANSFER_FEE_CONFIG = 1;
+const TRANSFER_FEE_CONFIG_SIZE = 108;
+
+const EPOCH_CACHE_TTL_MS = 60_000;
+
 export class MintDecimalsCache {
   private readonly cache = new Map<string, number>();
 
@@ -25,3 +36,139 @@ export class MintDecimalsCache {
   }
 }
 
+export type TransferFee = {
+  epoch: bigint;
+  maximumFee: bigint;
+  basisPoints: number;
+};
+
+export type TransferFeeConfig = {
+  olderTransferFee: TransferFee;
+  newerTransferFee: TransferFee;
+};
+
+export type MintInfo = {
+  mint: string;
+  programId: PublicKey;
+  decimals: number;
+  isToken2022: boolean;
+  transferFeeConfig?: TransferFeeConfig;
+};
+
+function readTransferFee(data: Buffer, offset: number): TransferFee {
+  return {
+    epoch: data.readBigUInt64LE(offset),
+    maximumFee: data.readBigUInt64LE(offset + 8),
+    basisPoints: data.readUInt16LE(offset + 16),
+  };
+}
+
+function parseTransferFeeConfig(data: Buffer): TransferFeeConfig | undefined {
+  if (data.length <= TOKEN_2022_TLV_OFFSET) return undefined;
+  if (data[TOKEN_2022_ACCOUNT_TYPE_OFFSET] !== TOKEN_2022_ACCOUNT_TYPE_MINT) return undefined;
+
+  let offset = TOKEN_2022_TLV_OFFSET;
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset);
+    const length = data.readUInt16LE(offset + 2);
+    const start = offset + 4;
+    if (start + length > data.length) return undefined;
+    if (type === EXTENSION_TRANSFER_FEE_CONFIG && length >= TRANSFER_FEE_CONFIG_SIZE) {
+      // Layout: config authority (32) + withdraw authority (32) + withheld amount (8) + older fee (18) + newer fee (18).
+      return {
+        olderTransferFee: readTransferFee(data, start + 72),
+        newerTransferFee: readTransferFee(data, start + 90),
+      };
+    }
+    offset = start + length;
+  }
+  return undefined;
+}
+
+export function transferFeeForEpoch(config: TransferFeeConfig, epoch: bigint) {
+  return epoch >= config.newerTransferFee.epoch ? config.newerTransferFee : config.olderTransferFee;
+}
+
+// Fee withheld by the Token-2022 program when `amount` is transferred (rounded up, capped at maximumFee).
+export function calculateTransferFee(fee: TransferFee, amount: bigint) {
+  if (fee.basisPoints <= 0 || amount <= 0n) return 0n;
+  const raw = (amount * BigInt(fee.basisPoints) + 9_999n) / 10_000n;
+  return raw > fee.maximumFee ? fee.maximumFee : raw;
+}
+
+// Owning token program (legacy SPL Token or Token-2022), decimals and transfer-fee extension per mint.
+// Mint layouts never change program, so entries are cached for the process lifetime.
+export class MintInfoCache {
+  private readonly cache = new Map<string, Promise<MintInfo>>();
+  private epoch: { expiresAt: number; value: Promise<bigint> } | undefined;
+
+  async get(connection: Connection, mintAddress: string): Promise<MintInfo> {
+    const hit = this.cache.get(mintAddress);
+    if (hit) return await hit;
+
+    const value = this.load(connection, mintAddress);
+    this.cache.set(mintAddress, value);
+    try {
+      return await value;
+    } catch (e) {
+      this.cache.delete(mintAddress);
+      throw e;
+    }
+  }
+
+  async getProgramId(connection: Connection, mintAddress: string): Promise<PublicKey> {
+    return (await this.get(connection, mintAddress)).programId;
+  }
+
+  private async load(connection: Connection, mintAddress: string): Promise<MintInfo> {
+    const mintPubkey = new PublicKey(mintAddress);
+    const account = await connection.getAccountInfo(mintPubkey, 'confirmed');
+    if (!account?.data) {
+      throw new Error(`Mint not found: ${mintAddress}`);
+    }
+    if (account.data.length < SPL_MINT_MIN_SIZE) {
+      throw new Error(`Invalid mint account size for ${mintAddress}: ${account.data.length}`);
+    }
+
+    const isToken2022 = account.owner.equals(TOKEN_2022_PROGRAM_ID);
+    if (!isToken2022 && !account.owner.equals(TOKEN_PROGRAM_ID)) {
+      throw new Error(`Mint ${mintAddress} is owned by unknown program ${account.owner.toBase58()}`);
+    }
+
+    return {
+      mint: mintAddress,
+      programId: account.owner,
+      decimals: account.data[SPL_MINT_DECIMALS_OFFSET],
+      isToken2022,
+      transferFeeConfig: isToken2022 ? parseTransferFeeConfig(account.data) : undefined,
+    };
+  }
+
+  private async currentEpoch(connection: Connection): Promise<bigint> {
+    const now = Date.now();
+    if (this.epoch && this.epoch.expiresAt > now) return await this.epoch.value;
+    const value = connection.getEpochInfo('confirmed').then((info) => BigInt(info.epoch));
+    this.epoch = { expiresAt: now + EPOCH_CACHE_TTL_MS, value };
+    try {
+      return await value;
+    } catch (e) {
+      this.epoch = undefined;
+      throw e;
+    }
+  }
+
+  // Amount that actually lands in the destination account after `amount` of `mint` is transferred.
+  async amountAfterTransferFee(
+    connection: Connection,
+    mintAddress: string,
+    amount: bigint,
+  ): Promise<{ amount: bigint; fee: bigint }> {
+    const info = await this.get(connection, mintAddress);
+    if (!info.transferFeeConfig) return { amount, fee: 0n };
+    const epoch = await this.currentEpoch(connection);
+    const fee = calculateTransferFee(transferFeeForEpoch(info.transferFeeConfig, epoch), amount);
+    return { amount: amount - fee, fee };
+  }
+}
+
+export const mintInfoCache = new MintInfoCache();
@@ -11,8 +11,15 @@ export type PriorityFeeConfig = {
   heliusApiKey?: string;
   heliusRpcUrl?: string;
   targetAccountLimit: number;
+  // Cache lifetime of estimates for a specific set of writable accounts (defaults to refreshMs).
+  accountRefreshMs?: number;
 };
 
+type CachedEstimate = { fetchedAtMs: number; microLamports: number; inFlight?: Promise<number> };
+
+// Account sets cached at once; the least recently fetched are dropped first.
+const MAX_CACHED_ACCOUNT_SETS = 1_024;
+
 function clampInt(value: number, min: number, max: number) {
   if (!Number.isFinite(value)) return min;
   return Math.max(min, Math.min(max, Math.floor(value)));
@@ -164,12 +171,12 @@ async function estimateFromHelius(params: {
   });
 }
 
+// Estimates are cached per set of writable accounts: the empty set is the global (loop-wide) estimate, refreshed every
+// refreshMs; a route's accounts (at most targetAccountLimit of them) get their own entry, refreshed every
+// accountRefreshMs. A failed estimate keeps the entry's last value, or the global one for a new set.
 export class PriorityFeeEstimator {
   private readonly config: PriorityFeeConfig;
-  private lastFetchMs = 0;
-  private cachedMicroLamports = 0;
-  private hasCached = false;
-  private inFlight?: Promise<number>;
+  private readonly cache = new Map<string, CachedEstimate>();
 
   constructor(config: PriorityFeeConfig) {
     this.config = config;
@@ -178,13 +185,16 @@ export class PriorityFeeEstimator {
   async getMicroLamports(params: { connection: Connection; lockedWritableAccounts?: readonly string[] }): Promise<number> {
     if (this.config.strategy === 'off') return 0;
 
-    const now = Date.now();
-    if (now - this.lastFetchMs < this.config.refreshMs && this.hasCached) {
-      return this.cachedMicroLamports;
-    }
+    const accounts = uniqStrings(params.lockedWritableAccounts ?? []).slice(0, Math.max(0, Math.floor(this.config.targetAccountLimit)));
+    const key = accounts.slice().sort().join(',');
+    const refreshMs = key ? (this.config.accountRefreshMs ?? this.config.refreshMs) : this.config.refreshMs;
 
-    if (this.inFlight) return await this.inFlight;
+    const now = Date.now();
+    const cached = this.cache.get(key);
+    if (cached && now - cached.fetchedAtMs < refreshMs) return cached.microLamports;
+    if (cached?.inFlight) return await cached.inFlight;
 
+    const fallback = () => cached?.microLamports ?? this.cache.get('')?.microLamports ?? 0;
     const run = async () => {
       try {
         let estimate = 0;
@@ -192,7 +202,7 @@ export class PriorityFeeEstimator {
           estimate = await estimateFromRpcRecent({
             connection: params.connection,
             level: this.config.level,
-            lockedWritableAccounts: params.lockedWritableAccounts,
+            lockedWritableAccounts: accounts,
             lockedWritableAccountLimit: this.config.targetAccountLimit,
           });
         } else if (this.config.strategy === 'helius') {
@@ -202,33 +212,45 @@ export class PriorityFeeEstimator {
               heliusRpcUrl: this.config.heliusRpcUrl ?? 'https://mainnet.helius-rpc.com',
               heliusApiKey: this.config.heliusApiKey,
               level: this.config.level,
-              accountKeys: params.lockedWritableAccounts ?? [],
+              accountKeys: accounts,
             });
           } catch {
             // Fall back to standard Solana RPC method (works on QuickNode/Helius/etc).
             estimate = await estimateFromRpcRecent({
               connection: params.connection,
               level: this.config.level,
-              lockedWritableAccounts: params.lockedWritableAccounts,
+              lockedWritableAccounts: accounts,
               lockedWritableAccountLimit: this.config.targetAccountLimit,
             });
           }
         }
 
         const microLamports = clampInt(estimate, 0, Math.max(0, this.config.maxMicroLamports));
-        this.cachedMicroLamports = microLamports;
-        this.lastFetchMs = Date.now();
-        this.hasCached = true;
+        this.cache.delete(key);
+        this.cache.set(key, { fetchedAtMs: Date.now(), microLamports });
+        if (this.cache.size > MAX_CACHED_ACCOUNT_SETS) {
+          for (const k of this.cache.keys()) {
+            if (k === '' || this.cache.get(k)?.inFlight) continue;
+            this.cache.delete(k);
+            break;
+          }
+        }
         return microLamports;
       } catch {
         // Keep last cached value if estimation fails.
-        return this.cachedMicroLamports;
-      } finally {
-        this.inFlight = undefined;
+        return fallback();
       }
     };
 
-    this.inFlight = run();
-    return await this.inFlight;
+    const inFlight: Promise<number> = run().finally(() => {
+      const entry = this.cache.get(key);
+      if (entry?.inFlight === inFlight) this.cache.set(key, { fetchedAtMs: entry.fetchedAtMs, microLamports: entry.microLamports });
+    });
+    this.cache.set(key, { fetchedAtMs: cached?.fetchedAtMs ?? 0, microLamports: fallback(), inFlight });
+    return await inFlight;
+  }
+
+  snapshot() {
+    return { accountSets: Math.max(0, this.cache.size - (this.cache.has('') ? 1 : 0)) };
   }
 }
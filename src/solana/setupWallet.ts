@@ -8,23 +8,17 @@ import {
   TransactionInstruction,
 } from '@solana/web3.js';
 
-const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
-const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
-const NATIVE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
+import { mintInfoCache, type MintInfoCache } from './mint.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, getAssociatedTokenAddress } from './tokenUtils.js';
 
-function getAssociatedTokenAddressSync(mint: PublicKey, owner: PublicKey): PublicKey {
-  const [ata] = PublicKey.findProgramAddressSync(
-    [owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), mint.toBuffer()],
-    ASSOCIATED_TOKEN_PROGRAM_ID,
-  );
-  return ata;
-}
+const NATIVE_MINT = new PublicKey('So11111111111111111111111111111111111111112');
 
 function createAssociatedTokenAccountIdempotentInstruction(params: {
   payer: PublicKey;
   ata: PublicKey;
   owner: PublicKey;
   mint: PublicKey;
+  tokenProgramId: PublicKey;
 }): TransactionInstruction {
   return new TransactionInstruction({
     programId: ASSOCIATED_TOKEN_PROGRAM_ID,
@@ -34,7 +28,7 @@ function createAssociatedTokenAccountIdempotentInstruction(params: {
       { pubkey: params.owner, isSigner: false, isWritable: false },
       { pubkey: params.mint, isSigner: false, isWritable: false },
       { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
-      { pubkey: TOKEN_PROGRAM_ID, isSigner: false, isWritable: false },
+      { pubkey: params.tokenProgramId, isSigner: false, isWritable: false },
       { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false },
     ],
     data: Buffer.from([1]),
@@ -53,21 +47,28 @@ export async function setupWalletTokenAccounts(params: {
   connection: Connection;
   wallet: Keypair;
   mintAddresses: string[];
+  mintInfo?: MintInfoCache;
 }): Promise<string[]> {
+  const mintInfo = params.mintInfo ?? mintInfoCache;
   const unique = Array.from(new Set(params.mintAddresses));
   const mints = unique
     .map((m) => new PublicKey(m))
     .filter((m) => !m.equals(NATIVE_MINT));
 
-  const instructions = mints.map((mint) => {
-    const ata = getAssociatedTokenAddressSync(mint, params.wallet.publicKey);
-    return createAssociatedTokenAccountIdempotentInstruction({
-      payer: params.wallet.publicKey,
-      ata,
-      owner: params.wallet.publicKey,
-      mint,
-    });
-  });
+  const instructions: TransactionInstruction[] = [];
+  for (const mint of mints) {
+    const tokenProgramId = await mintInfo.getProgramId(params.connection, mint.toBase58());
+    const ata = getAssociatedTokenAddress({ owner: params.wallet.publicKey, mint, tokenProgramId });
+    instructions.push(
+      createAssociatedTokenAccountIdempotentInstruction({
+        payer: params.wallet.publicKey,
+        ata,
+        owner: params.wallet.publicKey,
+        mint,
+        tokenProgramId,
+      }),
+    );
+  }
 
   if (instructions.length === 0) {
     return [];
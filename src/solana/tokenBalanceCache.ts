@@ -1,10 +1,13 @@
 import { PublicKey, type Connection } from '@solana/web3.js';
 
+import { mintInfoCache, type MintInfoCache } from './mint.js';
 import { getTokenAccountBalanceAtomic } from './tokenUtils.js';
 
 export class TokenBalanceCache {
   private readonly cache = new Map<string, { expiresAt: number; value: Promise<{ amountAtomic: string; decimals: number } | undefined> }>();
 
+  constructor(private readonly mintInfo: MintInfoCache = mintInfoCache) {}
+
   async get(params: { connection: Connection; owner: PublicKey; mint: string; ttlMs: number }) {
     const ttlMs = Math.max(0, Math.floor(params.ttlMs));
     const mint = params.mint.trim();
@@ -22,7 +25,14 @@ export class TokenBalanceCache {
     const hit = this.cache.get(key);
     if (hit && hit.expiresAt > now) return await hit.value;
 
-    const value = getTokenAccountBalanceAtomic({ connection: params.connection, owner: params.owner, mint: mintPk });
+    // Unreadable mints behave like a missing token account (undefined), as before the program lookup existed.
+    const value = this.mintInfo
+      .getProgramId(params.connection, mintPk.toBase58())
+      .then(
+        (tokenProgramId) =>
+          getTokenAccountBalanceAtomic({ connection: params.connection, owner: params.owner, mint: mintPk, tokenProgramId }),
+        () => undefined,
+      );
     this.cache.set(key, { expiresAt: now + ttlMs, value });
     try {
       return await value;
@@ -32,4 +42,3 @@ export class TokenBalanceCache {
     }
   }
 }
-
@@ -1,11 +1,14 @@
 import { PublicKey, type Connection } from '@solana/web3.js';
 
-const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
-const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
+export const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+export const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+export const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey('ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL');
 
-export function getAssociatedTokenAddress(params: { owner: PublicKey; mint: PublicKey }) {
+// The ATA seed includes the owning token program, so Token-2022 mints must pass TOKEN_2022_PROGRAM_ID.
+export function getAssociatedTokenAddress(params: { owner: PublicKey; mint: PublicKey; tokenProgramId?: PublicKey }) {
+  const tokenProgramId = params.tokenProgramId ?? TOKEN_PROGRAM_ID;
   const [ata] = PublicKey.findProgramAddressSync(
-    [params.owner.toBuffer(), TOKEN_PROGRAM_ID.toBuffer(), params.mint.toBuffer()],
+    [params.owner.toBuffer(), tokenProgramId.toBuffer(), params.mint.toBuffer()],
     ASSOCIATED_TOKEN_PROGRAM_ID,
   );
   return ata;
@@ -15,8 +18,9 @@ export async function getTokenAccountBalanceAtomic(params: {
   connection: Connection;
   owner: PublicKey;
   mint: PublicKey;
+  tokenProgramId?: PublicKey;
 }): Promise<{ amountAtomic: string; decimals: number } | undefined> {
-  const ata = getAssociatedTokenAddress({ owner: params.owner, mint: params.mint });
+  const ata = getAssociatedTokenAddress({ owner: params.owner, mint: params.mint, tokenProgramId: params.tokenProgramId });
   try {
     const res = await params.connection.getTokenAccountBalance(ata, 'confirmed');
     const amount = res.value.amount;
@@ -27,4 +31,3 @@ export async function getTokenAccountBalanceAtomic(params: {
     return undefined;
   }
 }
-
@@ -1,6 +1,7 @@
 import { Keypair } from '@solana/web3.js';
 import bs58 from 'bs58';
-import { readFileSync } from 'node:fs';
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join } from 'node:path';
 
 function isProbablyJsonArray(s: string) {
   const t = s.trim();
@@ -28,3 +29,45 @@ export function loadWallet(secret: string): Keypair {
   return Keypair.fromSecretKey(bs58.decode(trimmed));
 }
 
+function isDirectory(path: string) {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Multi-wallet form of `loadWallet`: a directory of keypair `*.json` files, a JSON array of secret key arrays,
+// or a comma/newline separated list of anything `loadWallet` accepts. Duplicates are dropped (first wins).
+export function loadWallets(secret: string): Keypair[] {
+  const trimmed = secret.trim();
+  if (trimmed.length === 0) throw new Error('WALLET_SECRET_KEY is empty');
+
+  let wallets: Keypair[];
+  if (isDirectory(trimmed)) {
+    const files = readdirSync(trimmed)
+      .filter((f) => f.toLowerCase().endsWith('.json'))
+      .sort();
+    if (files.length === 0) throw new Error(`WALLET_SECRET_KEY directory has no *.json keypairs: ${trimmed}`);
+    wallets = files.map((f) => loadWallet(join(trimmed, f)));
+  } else if (isProbablyJsonArray(trimmed)) {
+    const parsed = JSON.parse(trimmed) as unknown[];
+    wallets = Array.isArray(parsed[0])
+      ? (parsed as number[][]).map((arr) => Keypair.fromSecretKey(Uint8Array.from(arr)))
+      : [Keypair.fromSecretKey(Uint8Array.from(parsed as number[]))];
+  } else {
+    wallets = trimmed
+      .split(/[,\n]/)
+      .map((s) => s.trim())
+      .filter(Boolean)
+      .map((s) => loadWallet(s));
+  }
+
+  const seen = new Set<string>();
+  return wallets.filter((w) => {
+    const key = w.publicKey.toBase58();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
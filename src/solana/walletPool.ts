@@ -0,0 +1,128 @@
+import type { Keypair } from '@solana/web3.js';
+
+import type { BotPair } from '../lib/config.js';
+
+export type WalletAssignmentPolicy = 'round-robin' | 'least-busy';
+
+type PoolEntry = {
+  wallet: Keypair;
+  pubkey: string;
+  inFlight: Set<string>;
+  leases: number;
+  lastLeasedAtMs: number;
+};
+
+export type WalletLease = {
+  wallet: Keypair;
+  pubkey: string;
+  release: () => void;
+};
+
+// Hands out one wallet per pair execution. Pairs pinned via `pair.wallet` (pubkey or index) always get that wallet;
+// the rest follow the policy among the wallets that can fund the pair, preferring wallets with nothing in flight so
+// two loops never share a fee payer.
+export class WalletPool {
+  private readonly entries: PoolEntry[];
+  private cursor = 0;
+
+  constructor(
+    wallets: Keypair[],
+    private readonly policy: WalletAssignmentPolicy = 'round-robin',
+  ) {
+    if (wallets.length === 0) throw new Error('WalletPool requires at least 1 wallet');
+    this.entries = wallets.map((wallet) => ({
+      wallet,
+      pubkey: wallet.publicKey.toBase58(),
+      inFlight: new Set<string>(),
+      leases: 0,
+      lastLeasedAtMs: 0,
+    }));
+  }
+
+  get size() {
+    return this.entries.length;
+  }
+
+  get primary() {
+    return this.entries[0]!.wallet;
+  }
+
+  get wallets() {
+    return this.entries.map((e) => e.wallet);
+  }
+
+  private pinned(pair: BotPair): PoolEntry | undefined {
+    const ref = pair.wallet?.trim();
+    if (!ref) return undefined;
+    const byKey = this.entries.find((e) => e.pubkey === ref);
+    if (byKey) return byKey;
+    if (/^\d+$/.test(ref)) {
+      const byIndex = this.entries[Number(ref)];
+      if (byIndex) return byIndex;
+    }
+    throw new Error(`pair ${pair.name}: wallet ${ref} is not loaded (use a pubkey from WALLET_SECRET_KEY or an index 0..${this.entries.length - 1})`);
+  }
+
+  private pickRoundRobin(eligible: (entry: PoolEntry) => boolean): PoolEntry | undefined {
+    const n = this.entries.length;
+    for (let i = 0; i < n; i++) {
+      const entry = this.entries[(this.cursor + i) % n]!;
+      if (entry.inFlight.size === 0 && eligible(entry)) {
+        this.cursor = (this.cursor + i + 1) % n;
+        return entry;
+      }
+    }
+    // Every eligible wallet is busy: fall back to the least loaded one.
+    const entry = this.pickLeastBusy(eligible);
+    if (entry) this.cursor = (this.entries.indexOf(entry) + 1) % n;
+    return entry;
+  }
+
+  private pickLeastBusy(eligible: (entry: PoolEntry) => boolean): PoolEntry | undefined {
+    let best: PoolEntry | undefined;
+    for (const entry of this.entries) {
+      if (!eligible(entry)) continue;
+      if (
+        !best ||
+        entry.inFlight.size < best.inFlight.size ||
+        (entry.inFlight.size === best.inFlight.size && entry.lastLeasedAtMs < best.lastLeasedAtMs)
+      ) {
+        best = entry;
+      }
+    }
+    return best;
+  }
+
+  // Throws on the first pair pinned to a wallet that is not loaded (startup/config reload validation).
+  assertAssignable(pairs: BotPair[]) {
+    for (const pair of pairs) this.pinned(pair);
+  }
+
+  // Pinned pairs and single-wallet pools never need a funding check.
+  needsFundingCheck(pair: BotPair) {
+    return this.entries.length > 1 && !pair.wallet?.trim();
+  }
+
+  // `funded` lists the pubkeys holding enough A for the pair; undefined when none of them qualifies, so the scan is
+  // skipped instead of running on a wallet that could never execute it.
+  acquire(pair: BotPair, funded?: Set<string>): WalletLease | undefined {
+    const eligible = (entry: PoolEntry) => !funded || funded.has(entry.pubkey);
+    const entry = this.pinned(pair) ?? (this.policy === 'least-busy' ? this.pickLeastBusy(eligible) : this.pickRoundRobin(eligible));
+    if (!entry) return undefined;
+    const token = `${pair.name}:${++entry.leases}`;
+    entry.inFlight.add(token);
+    entry.lastLeasedAtMs = Date.now();
+    return { wallet: entry.wallet, pubkey: entry.pubkey, release: () => void entry.inFlight.delete(token) };
+  }
+
+  snapshot() {
+    return {
+      policy: this.policy,
+      wallets: this.entries.map((e) => ({
+        pubkey: e.pubkey,
+        inFlight: Array.from(e.inFlight).map((t) => t.slice(0, t.lastIndexOf(':'))),
+        leases: e.leases,
+      })),
+    };
+  }
+}